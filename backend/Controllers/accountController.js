@@ -0,0 +1,214 @@
+// Account Controller
+// Lets a user download everything stored about them and delete their account
+
+import { PrismaClient } from '../generated/prisma/index.js';
+import { verifyPassword } from '../lib/auth.js';
+import { checkSecondFactor } from '../lib/mfa.js';
+import { logger } from '../lib/logger.js';
+
+const prisma = new PrismaClient();
+
+// Bumped when the shape of the export changes
+const EXPORT_FORMAT_VERSION = 1;
+
+/**
+ * Export the signed-in user's server-side data as JSON.
+ * Covers the account, Learn progress, challenge progress, pending contact changes
+ * and audit entries the user made or that concern them. Secrets (password and code hashes) are left out.
+ */
+export async function exportAccountData(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        displayName: true,
+        phoneNumber: true,
+        role: true,
+        mfaEnabled: true,
+        ssoIdentities: { select: { issuer: true, subject: true, lastLoginAt: true, createdAt: true } },
+        sessions: {
+          select: { ip: true, userAgent: true, createdAt: true, lastSeenAt: true, expiresAt: true, revokedAt: true },
+          orderBy: { createdAt: 'asc' },
+        },
+        xpTotal: true,
+        learnProgress: true,
+        learnScore: true,
+        lastLoginAt: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    const [levelProgress, contactVerifications, auditLogs] = await Promise.all([
+      prisma.userLevelProgress.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'asc' },
+        select: {
+          completed: true,
+          completedAt: true,
+          xpAwarded: true,
+          createdAt: true,
+          updatedAt: true,
+          level: {
+            select: {
+              index: true,
+              title: true,
+              challenge: { select: { slug: true, title: true } },
+            },
+          },
+        },
+      }),
+      prisma.contactVerification.findMany({
+        where: { userId },
+        select: { channel: true, target: true, expiresAt: true, createdAt: true },
+      }),
+      prisma.auditLog.findMany({
+        where: {
+          OR: [
+            { actorId: userId },
+            { targetType: 'User', targetId: userId },
+          ],
+        },
+        orderBy: { ts: 'asc' },
+      }),
+    ]);
+
+    const { learnProgress, learnScore, ...account } = user;
+
+    res.setHeader('Content-Disposition', 'attachment; filename="account-data.json"');
+    res.json({
+      formatVersion: EXPORT_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      account,
+      learnProgress: { ...(learnProgress || {}), totalScore: learnScore },
+      challengeProgress: levelProgress.map(({ level, ...entry }) => ({
+        challengeSlug: level.challenge.slug,
+        challengeTitle: level.challenge.title,
+        level: level.index,
+        levelTitle: level.title,
+        ...entry,
+      })),
+      pendingContactChanges: contactVerifications.map((verification) => ({
+        ...verification,
+        channel: verification.channel.toLowerCase(),
+      })),
+      auditLogs,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Export account data error');
+    next(error);
+  }
+}
+
+/**
+ * Permanently delete the signed-in user's account.
+ * The body must repeat the account's email ({ confirm }) so a stray request cannot delete it,
+ * plus the current password ({ password }, unless the account only signs in with SSO) and,
+ * when MFA is on, an authenticator or recovery code ({ code }) - a stolen session alone is not enough.
+ * Progress, reset tokens and pending contact changes cascade with the user; the user's own
+ * audit entries are deleted too. Entries other users (admins) made about the account are kept.
+ */
+export async function deleteAccount(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+    const confirm = typeof req.body?.confirm === 'string' ? req.body.confirm.trim().toLowerCase() : '';
+    const { password, code } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        passwordHash: true,
+        mfaEnabled: true,
+        mfaSecret: true,
+        mfaLastUsedStep: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    if (!confirm || confirm !== user.email.toLowerCase()) {
+      return res.status(400).json({
+        error: 'Type your email address to confirm deletion',
+      });
+    }
+
+    if (user.passwordHash) {
+      if (!password) {
+        return res.status(400).json({
+          error: 'Enter your password to confirm deletion',
+        });
+      }
+      if (!(await verifyPassword(String(password), user.passwordHash))) {
+        // Not 401, which would sign the user out of this session
+        return res.status(400).json({
+          error: 'Incorrect password',
+        });
+      }
+    }
+
+    if (user.mfaEnabled && user.mfaSecret) {
+      if (!code) {
+        return res.status(400).json({
+          error: 'Enter a code from your authenticator app to confirm deletion',
+        });
+      }
+      const failure = await checkSecondFactor(user, String(code));
+      if (failure) {
+        return res.status(failure.status).json({
+          error: failure.error,
+        });
+      }
+    }
+
+    await prisma.$transaction([
+      prisma.auditLog.deleteMany({ where: { actorId: userId } }),
+      prisma.user.delete({ where: { id: userId } }),
+      // Keep a record that the account was deleted, without request details
+      prisma.auditLog.create({
+        data: {
+          action: 'user.account.delete',
+          targetType: 'User',
+          targetId: userId,
+        },
+      }),
+    ]);
+
+    logger.info({ userId }, 'Account deleted');
+
+    res.json({
+      message: 'Account deleted',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Delete account error');
+    next(error);
+  }
+}
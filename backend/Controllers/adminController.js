@@ -0,0 +1,114 @@
+// Admin Controller
+// User management for instructors (ADMIN role only - enforced by the routes)
+
+import { PrismaClient } from '../generated/prisma/index.js';
+import { revokeUserSessions } from '../lib/sessions.js';
+import { logger } from '../lib/logger.js';
+
+const prisma = new PrismaClient();
+
+const ROLES = ['USER', 'ADMIN'];
+
+/**
+ * List all users with their role and progress totals
+ */
+export async function listUsers(req, res, next) {
+  try {
+    const users = await prisma.user.findMany({
+      select: {
+        id: true,
+        email: true,
+        username: true,
+        displayName: true,
+        role: true,
+        xpTotal: true,
+        learnScore: true,
+        lastLoginAt: true,
+        createdAt: true,
+      },
+      orderBy: {
+        createdAt: 'asc',
+      },
+    });
+
+    res.json({
+      users: users.map((user) => ({
+        id: user.id,
+        name: user.displayName || user.username || user.email,
+        email: user.email,
+        role: user.role,
+        xpTotal: user.xpTotal,
+        learnScore: user.learnScore,
+        lastLoginAt: user.lastLoginAt,
+        createdAt: user.createdAt,
+      })),
+    });
+  } catch (error) {
+    logger.error({ error }, 'List users error');
+    next(error);
+  }
+}
+
+/**
+ * Change a user's role. Admins cannot change their own role, so there is always at least one admin.
+ * The user's sessions are revoked, so they have to sign in again and get a token with the new role.
+ */
+export async function updateUserRole(req, res, next) {
+  try {
+    const { userId } = req.params;
+    const { role } = req.body;
+
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({
+        error: `role must be one of ${ROLES.join(', ')}`,
+      });
+    }
+
+    if (userId === req.user.userId) {
+      return res.status(400).json({
+        error: 'You cannot change your own role',
+      });
+    }
+
+    const existing = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true },
+    });
+
+    if (!existing) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: { role },
+      select: { id: true, role: true },
+    });
+
+    // The role is carried in the JWT, so the user's tokens are ended rather than left with the old role
+    const sessionsRevoked = existing.role === role ? 0 : await revokeUserSessions(user.id);
+
+    await prisma.auditLog.create({
+      data: {
+        actorId: req.user.userId,
+        action: 'user.role.update',
+        targetType: 'User',
+        targetId: user.id,
+        ip: req.ip,
+        userAgent: req.headers['user-agent'],
+        metadata: { role, sessionsRevoked },
+      },
+    });
+
+    logger.info({ actorId: req.user.userId, userId: user.id, role }, 'User role updated');
+
+    res.json({
+      user,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Update user role error');
+    next(error);
+  }
+}
@@ -2,11 +2,62 @@
 // Handles email/password signup and signin
 
 import { PrismaClient } from '../generated/prisma/index.js';
-import { hashPassword, verifyPassword, generateToken } from '../lib/auth.js';
+import {
+  hashPassword,
+  verifyPassword,
+  generateTokenHash,
+  hashOneTimeToken,
+  generateVerificationCode,
+  generateMfaChallengeToken,
+} from '../lib/auth.js';
+import { createSession, renewSession, revokeUserSessions } from '../lib/sessions.js';
 import { logger } from '../lib/logger.js';
+import { sendMail } from '../lib/mail.js';
+import { sendSms } from '../lib/sms.js';
+import { validatePassword } from '../../shared/passwordPolicy.js';
 
 const prisma = new PrismaClient();
 
+const PASSWORD_RESET_TTL_MINUTES = Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30;
+const CONTACT_CODE_TTL_MINUTES = Number(process.env.CONTACT_CODE_TTL_MINUTES) || 10;
+const MAX_CONTACT_CODE_ATTEMPTS = 5;
+const CONTACT_CODE_RESEND_SECONDS = 60;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const USERNAME_PATTERN = /^[a-z0-9_.-]{3,30}$/i;
+const PHONE_PATTERN = /^\+?[0-9]{7,15}$/;
+
+const PROFILE_SELECT = {
+  id: true,
+  email: true,
+  username: true,
+  displayName: true,
+  phoneNumber: true,
+  role: true,
+  xpTotal: true,
+  lastLoginAt: true,
+  createdAt: true,
+  passwordHash: true, // Only to report hasPassword; never returned
+};
+
+/**
+ * Shape a user (selected with PROFILE_SELECT) as the profile returned to the frontend
+ */
+function toProfile(user) {
+  return {
+    id: user.id,
+    name: user.displayName || user.username || user.email,
+    email: user.email,
+    username: user.username,
+    phoneNumber: user.phoneNumber,
+    role: user.role,
+    xpTotal: user.xpTotal,
+    lastLoginAt: user.lastLoginAt,
+    // False for accounts that only sign in with SSO
+    hasPassword: Boolean(user.passwordHash),
+  };
+}
+
 /**
  * Generate username from email or display name
  */
@@ -33,9 +84,10 @@ export async function signup(req, res, next) {
       });
     }
 
-    if (password.length < 8) {
+    const passwordError = validatePassword(password, { email, username });
+    if (passwordError) {
       return res.status(400).json({
-        error: 'Password must be at least 8 characters long',
+        error: passwordError,
       });
     }
 
@@ -103,8 +155,8 @@ export async function signup(req, res, next) {
       },
     });
 
-    // Generate JWT token
-    const token = generateToken(user.id, user.email, user.role);
+    // Start a session and generate its JWT token
+    const token = await createSession(user, req);
 
     // Update last login
     await prisma.user.update({
@@ -121,6 +173,7 @@ export async function signup(req, res, next) {
         name: user.displayName || user.username || user.email,
         email: user.email,
         username: user.username,
+        role: user.role,
       },
       token,
     });
@@ -163,15 +216,24 @@ export async function signin(req, res, next) {
     }
 
     // Verify password
-    const isValidPassword = true//await verifyPassword(password, user.passwordHash);
+    const isValidPassword = await verifyPassword(password, user.passwordHash);
     if (!isValidPassword) {
       return res.status(401).json({
         error: 'Invalid email or password',
       });
     }
 
-    // Generate JWT token
-    const token = generateToken(user.id, user.email, user.role);
+    // With MFA on, the session token is only issued once the second factor is verified (POST /auth/mfa/verify)
+    if (user.mfaEnabled) {
+      return res.json({
+        message: 'Enter the code from your authenticator app',
+        mfaRequired: true,
+        mfaToken: generateMfaChallengeToken(user.id),
+      });
+    }
+
+    // Start a session and generate its JWT token
+    const token = await createSession(user, req);
 
     // Update last login
     await prisma.user.update({
@@ -188,6 +250,7 @@ export async function signin(req, res, next) {
         name: user.displayName || user.username || user.email,
         email: user.email,
         username: user.username,
+        role: user.role,
       },
       token,
     });
@@ -212,16 +275,7 @@ export async function getProfile(req, res, next) {
 
     const user = await prisma.user.findUnique({
       where: { id: userId },
-      select: {
-        id: true,
-        email: true,
-        username: true,
-        displayName: true,
-        role: true,
-        xpTotal: true,
-        lastLoginAt: true,
-        createdAt: true,
-      },
+      select: PROFILE_SELECT,
     });
 
     if (!user) {
@@ -231,15 +285,7 @@ export async function getProfile(req, res, next) {
     }
 
     res.json({
-      user: {
-        id: user.id,
-        name: user.displayName || user.username || user.email,
-        email: user.email,
-        username: user.username,
-        role: user.role,
-        xpTotal: user.xpTotal,
-        lastLoginAt: user.lastLoginAt,
-      },
+      user: toProfile(user),
     });
   } catch (error) {
     logger.error({ error }, 'Get profile error');
@@ -262,3 +308,475 @@ export async function verifyTokenEndpoint(req, res, next) {
   }
 }
 
+
+/**
+ * Refresh token - exchange a still-valid token for a new one with a fresh expiry
+ * Lets active users stay signed in without re-entering their password
+ */
+export async function refreshToken(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    // Re-read the user so deleted accounts and role changes are picked up
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+      },
+    });
+
+    if (!user) {
+      return res.status(401).json({
+        error: 'User no longer exists. Please log in again.',
+      });
+    }
+
+    // Same session, fresh expiry
+    const token = await renewSession(req.user.sessionId, user);
+
+    logger.info({ userId: user.id }, 'Token refreshed');
+
+    res.json({
+      message: 'Token refreshed',
+      token,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Refresh token error');
+    next(error);
+  }
+}
+
+/**
+ * Request a password reset - emails a single-use, time-limited reset link.
+ * Always answers the same way so the endpoint cannot be used to discover accounts.
+ */
+export async function requestPasswordReset(req, res, next) {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return res.status(400).json({
+        error: 'Email is required',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.toLowerCase() },
+      select: { id: true, email: true },
+    });
+
+    if (user) {
+      const token = generateTokenHash();
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+
+      // A new link replaces any earlier unused ones
+      await prisma.$transaction([
+        prisma.passwordResetToken.deleteMany({
+          where: { userId: user.id, usedAt: null },
+        }),
+        prisma.passwordResetToken.create({
+          data: { userId: user.id, tokenHash: hashOneTimeToken(token), expiresAt },
+        }),
+      ]);
+
+      const appUrl = process.env.APP_URL || 'http://localhost:3000';
+      const resetUrl = `${appUrl}/?reset_token=${token}`;
+
+      await sendMail({
+        to: user.email,
+        subject: 'Reset your USDA AI Red Team Training password',
+        text: [
+          'We received a request to reset your password.',
+          '',
+          `Open this link to choose a new password (valid for ${PASSWORD_RESET_TTL_MINUTES} minutes):`,
+          resetUrl,
+          '',
+          `Or enter this reset code in the sign-in window: ${token}`,
+          '',
+          'If you did not request this, you can ignore this email.',
+        ].join('\n'),
+      });
+
+      logger.info({ userId: user.id }, 'Password reset requested');
+    }
+
+    res.json({
+      message: 'If an account exists for that email, a reset link has been sent.',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Request password reset error');
+    next(error);
+  }
+}
+
+/**
+ * Confirm a password reset - sets the new password and consumes the token
+ */
+export async function confirmPasswordReset(req, res, next) {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || !password) {
+      return res.status(400).json({
+        error: 'Reset token and new password are required',
+      });
+    }
+
+    const resetToken = await prisma.passwordResetToken.findUnique({
+      where: { tokenHash: hashOneTimeToken(token) },
+      include: { user: { select: { email: true, username: true } } },
+    });
+
+    if (!resetToken || resetToken.usedAt || resetToken.expiresAt < new Date()) {
+      return res.status(400).json({
+        error: 'Reset link is invalid or has expired',
+      });
+    }
+
+    const passwordError = validatePassword(password, resetToken.user);
+    if (passwordError) {
+      return res.status(400).json({
+        error: passwordError,
+      });
+    }
+
+    const passwordHash = await hashPassword(password);
+
+    // Consume the token and change the password together, unless a concurrent request already used it
+    const consumed = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.passwordResetToken.updateMany({
+        where: { id: resetToken.id, usedAt: null },
+        data: { usedAt: new Date() },
+      });
+      if (count === 0) return false;
+
+      await tx.user.update({
+        where: { id: resetToken.userId },
+        data: { passwordHash },
+      });
+      return true;
+    });
+
+    if (!consumed) {
+      return res.status(400).json({
+        error: 'Reset link is invalid or has expired',
+      });
+    }
+
+    // Whoever knew the old password may still be signed in somewhere
+    await revokeUserSessions(resetToken.userId);
+
+    logger.info({ userId: resetToken.userId }, 'Password reset completed');
+
+    res.json({
+      message: 'Password has been reset. You can now sign in.',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Confirm password reset error');
+    next(error);
+  }
+}
+
+/**
+ * Remove formatting from a phone number ("+1 (555) 123-4567" -> "+15551234567")
+ */
+function normalizePhoneNumber(phoneNumber) {
+  return String(phoneNumber).replace(/[\s().-]/g, '');
+}
+
+/**
+ * Send a verification code to the new email address or phone number
+ */
+async function deliverContactCode(channel, target, code) {
+  const text = `Your USDA AI Red Team Training verification code is ${code}. It expires in ${CONTACT_CODE_TTL_MINUTES} minutes.`;
+  if (channel === 'EMAIL') {
+    await sendMail({ to: target, subject: 'Confirm your new email address', text });
+  } else {
+    await sendSms({ to: target, text });
+  }
+}
+
+/**
+ * Store a fresh code for a pending email/phone change (replacing any earlier one) and send it
+ */
+async function startContactVerification(userId, channel, target) {
+  const code = generateVerificationCode();
+  const expiresAt = new Date(Date.now() + CONTACT_CODE_TTL_MINUTES * 60 * 1000);
+
+  const verification = await prisma.contactVerification.upsert({
+    where: { userId_channel: { userId, channel } },
+    create: { userId, channel, target, codeHash: hashOneTimeToken(code), expiresAt },
+    update: { target, codeHash: hashOneTimeToken(code), expiresAt, attempts: 0, sentAt: new Date() },
+  });
+
+  await deliverContactCode(channel, target, code);
+  return toPendingVerification(verification);
+}
+
+function toPendingVerification(verification) {
+  return {
+    channel: verification.channel.toLowerCase(),
+    target: verification.target,
+    expiresAt: verification.expiresAt,
+  };
+}
+
+function parseChannel(channel) {
+  if (channel === 'email') return 'EMAIL';
+  if (channel === 'phone') return 'PHONE';
+  return null;
+}
+
+/**
+ * Update profile - name and username change immediately.
+ * A new email or phone number is only applied after the code sent to it is entered (POST /auth/profile/verify).
+ */
+export async function updateProfile(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+    const { fullName, username, email, phoneNumber } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: PROFILE_SELECT,
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    const data = {};
+
+    if (fullName !== undefined) {
+      const trimmed = String(fullName).trim();
+      if (trimmed.length > 100) {
+        return res.status(400).json({
+          error: 'Full name must be at most 100 characters',
+        });
+      }
+      data.displayName = trimmed || null;
+    }
+
+    if (username !== undefined && username !== user.username) {
+      const trimmed = String(username).trim();
+      if (!USERNAME_PATTERN.test(trimmed)) {
+        return res.status(400).json({
+          error: 'Username must be 3-30 letters, numbers, dots, dashes or underscores',
+        });
+      }
+      const taken = await prisma.user.findUnique({ where: { username: trimmed } });
+      if (taken && taken.id !== userId) {
+        return res.status(409).json({
+          error: 'Username already taken',
+        });
+      }
+      data.username = trimmed;
+    }
+
+    let newEmail = null;
+    if (email !== undefined && String(email).trim().toLowerCase() !== user.email) {
+      newEmail = String(email).trim().toLowerCase();
+      if (!EMAIL_PATTERN.test(newEmail)) {
+        return res.status(400).json({
+          error: 'Please enter a valid email address',
+        });
+      }
+      const taken = await prisma.user.findUnique({ where: { email: newEmail } });
+      if (taken) {
+        return res.status(409).json({
+          error: 'User with this email already exists',
+        });
+      }
+    }
+
+    let newPhone = null;
+    if (phoneNumber !== undefined) {
+      const normalized = phoneNumber ? normalizePhoneNumber(phoneNumber) : '';
+      if (!normalized) {
+        // Removing a number needs no verification
+        data.phoneNumber = null;
+      } else if (normalized !== user.phoneNumber) {
+        if (!PHONE_PATTERN.test(normalized)) {
+          return res.status(400).json({
+            error: 'Please enter a valid phone number',
+          });
+        }
+        newPhone = normalized;
+      }
+    }
+
+    const updated = Object.keys(data).length > 0
+      ? await prisma.user.update({ where: { id: userId }, data, select: PROFILE_SELECT })
+      : user;
+
+    const pendingVerifications = [];
+    if (newEmail) {
+      pendingVerifications.push(await startContactVerification(userId, 'EMAIL', newEmail));
+    }
+    if (newPhone) {
+      pendingVerifications.push(await startContactVerification(userId, 'PHONE', newPhone));
+    }
+
+    logger.info(
+      { userId, fields: Object.keys(data), pending: pendingVerifications.map((p) => p.channel) },
+      'Profile updated'
+    );
+
+    res.json({
+      user: toProfile(updated),
+      pendingVerifications,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Update profile error');
+    next(error);
+  }
+}
+
+/**
+ * Verify a pending email/phone change with the code that was sent to it.
+ * Changing the email also returns a new token, since the old one carries the old address.
+ */
+export async function verifyContactChange(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+    const channel = parseChannel(req.body?.channel);
+    const code = String(req.body?.code || '').trim();
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    if (!channel || !code) {
+      return res.status(400).json({
+        error: 'channel (email or phone) and code are required',
+      });
+    }
+
+    const verification = await prisma.contactVerification.findUnique({
+      where: { userId_channel: { userId, channel } },
+    });
+
+    if (!verification || verification.expiresAt < new Date()) {
+      return res.status(400).json({
+        error: 'Verification code is invalid or has expired',
+      });
+    }
+
+    // Claim an attempt before checking the code, so parallel guesses cannot all get in under the limit
+    const { count: claimed } = await prisma.contactVerification.updateMany({
+      where: { id: verification.id, attempts: { lt: MAX_CONTACT_CODE_ATTEMPTS } },
+      data: { attempts: { increment: 1 } },
+    });
+    if (claimed === 0) {
+      return res.status(429).json({
+        error: 'Too many incorrect codes. Request a new code.',
+      });
+    }
+
+    if (hashOneTimeToken(code) !== verification.codeHash) {
+      return res.status(400).json({
+        error: 'Incorrect verification code',
+      });
+    }
+
+    if (channel === 'EMAIL') {
+      const taken = await prisma.user.findUnique({ where: { email: verification.target } });
+      if (taken && taken.id !== userId) {
+        await prisma.contactVerification.delete({ where: { id: verification.id } });
+        return res.status(409).json({
+          error: 'User with this email already exists',
+        });
+      }
+    }
+
+    const [, user] = await prisma.$transaction([
+      prisma.contactVerification.delete({ where: { id: verification.id } }),
+      prisma.user.update({
+        where: { id: userId },
+        data: channel === 'EMAIL' ? { email: verification.target } : { phoneNumber: verification.target },
+        select: PROFILE_SELECT,
+      }),
+    ]);
+
+    logger.info({ userId, channel }, 'Contact change verified');
+
+    res.json({
+      user: toProfile(user),
+      ...(channel === 'EMAIL' && { token: await renewSession(req.user.sessionId, user) }),
+    });
+  } catch (error) {
+    logger.error({ error }, 'Verify contact change error');
+    next(error);
+  }
+}
+
+/**
+ * Send a new code for a pending email/phone change
+ */
+export async function resendContactCode(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+    const channel = parseChannel(req.body?.channel);
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    if (!channel) {
+      return res.status(400).json({
+        error: 'channel must be email or phone',
+      });
+    }
+
+    const verification = await prisma.contactVerification.findUnique({
+      where: { userId_channel: { userId, channel } },
+    });
+
+    if (!verification) {
+      return res.status(404).json({
+        error: 'No pending change to verify',
+      });
+    }
+
+    // Only one resend per interval, claimed atomically so parallel requests cannot each send a code
+    const cutoff = new Date(Date.now() - CONTACT_CODE_RESEND_SECONDS * 1000);
+    const { count: claimed } = await prisma.contactVerification.updateMany({
+      where: { id: verification.id, sentAt: { lte: cutoff } },
+      data: { sentAt: new Date() },
+    });
+    if (claimed === 0) {
+      return res.status(429).json({
+        error: `Please wait ${CONTACT_CODE_RESEND_SECONDS} seconds before requesting another code.`,
+      });
+    }
+
+    const pending = await startContactVerification(userId, channel, verification.target);
+
+    res.json({
+      pendingVerification: pending,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Resend contact code error');
+    next(error);
+  }
+}
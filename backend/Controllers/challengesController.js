@@ -33,6 +33,13 @@ function getSession(userId, challengeId, levelId) {
 const touch = s => { s.touchedAt = Date.now(); };
 
 // ---------------- helpers ----------------
+function notFoundError(message) {
+  const err = new Error(message);
+  err.status = 404; // picked up by Middlewares/error.js
+  err.code = 'NOT_FOUND';
+  return err;
+}
+
 const fillFlag = (s, flag) => String(s ?? '').replace(/\$\{flag\}/g, flag ?? '');
 
 function toContents(history, userMessage, systemInstruction) {
@@ -75,15 +82,42 @@ async function callGemini({ systemInstruction, contents }) {
   return (typeof resp?.text === 'function') ? await resp.text() : (resp?.text ?? '');
 }
 
+// Streaming variant: yields text chunks as Gemini produces them
+async function* streamGemini({ systemInstruction, contents }) {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) throw new Error('GEMINI_API_KEY is not set');
+
+  const ai = new GoogleGenAI({ apiKey });
+  const stream = await ai.models.generateContentStream({
+    model: "gemini-2.5-flash",
+    contents: contents,
+    config: {
+      systemInstruction: systemInstruction,
+    },
+  });
+
+  for await (const chunk of stream) {
+    const text = chunk?.text ?? '';
+    if (text) yield text;
+  }
+}
+
+function pushHistory(s, message, reply) {
+  s.history.push({ role: 'USER', content: message });
+  s.history.push({ role: 'MODEL', content: reply });
+  if (s.history.length > MAX_TURNS * 2) s.history.splice(0, s.history.length - MAX_TURNS * 2);
+  touch(s);
+}
+
 async function getChallengeAndLevel(challengeSlug, levelIndex) {
   const challenge = await prisma.challenge.findFirst({
     where: { slug: challengeSlug, isActive: true },
     include: { levels: { where: { isActive: true } } },
   });
-  if (!challenge) throw new Error(`Challenge not found: ${challengeSlug}`);
+  if (!challenge) throw notFoundError(`Challenge not found: ${challengeSlug}`);
 
   const level = challenge.levels.find(l => l.index === Number(levelIndex));
-  if (!level) throw new Error(`Level ${levelIndex} not found for ${challengeSlug}`);
+  if (!level) throw notFoundError(`Level ${levelIndex} not found for ${challengeSlug}`);
 
   return { challenge, level };
 }
@@ -154,7 +188,10 @@ async function genericHandler(req, res, next, challengeSlug) {
     // Flag submission path (no model call)
     if (submittedFlag) {
       if (flag && submittedFlag === flag) {
-        const { xpAwarded } = await awardXpAndMark(userId, level);
+        // Guests (no account yet) can solve levels, but XP is only recorded for real users.
+        // Their solves are resubmitted under the new account when they sign up.
+        const account = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+        const { xpAwarded } = account ? await awardXpAndMark(userId, level) : { xpAwarded: 0 };
         return res.json({
           status: 'passed',
           sessionKey: key,
@@ -188,10 +225,7 @@ async function genericHandler(req, res, next, challengeSlug) {
     const reply = await callGemini({ systemInstruction, contents });
 
     // Maintain history
-    s.history.push({ role: 'USER', content: message });
-    s.history.push({ role: 'MODEL', content: reply });
-    if (s.history.length > MAX_TURNS * 2) s.history.splice(0, s.history.length - MAX_TURNS * 2);
-    touch(s);
+    pushHistory(s, message, reply);
 
     return res.json({
       sessionKey: key,
@@ -205,6 +239,110 @@ async function genericHandler(req, res, next, challengeSlug) {
   }
 }
 
+// ---------------- streaming chat (SSE) ----------------
+// Body: { userId: "uid", level: 1, message: "txt" }
+// Events: `token` {text} per chunk, then `done` {sessionKey, challengeSlug, level, reply} or `error` {error}
+async function streamHandler(req, res, next, challengeSlug) {
+  const userId = String(req.body?.userId || '').trim();
+  const levelIndex = Number(req.body?.level);
+  const message = String(req.body?.message ?? '');
+
+  if (!userId) return res.status(400).json({ error: 'userId is required in body' });
+  if (!Number.isInteger(levelIndex) || levelIndex < 1)
+    return res.status(400).json({ error: 'level is required (1..n)' });
+  if (!message.trim()) return res.status(400).json({ error: 'message is required in body' });
+
+  let challenge, level;
+  try {
+    ({ challenge, level } = await getChallengeAndLevel(challengeSlug, levelIndex));
+  } catch (err) {
+    return next(err);
+  }
+
+  const flag = String(level.graderConfig?.flag || '').trim();
+  const systemInstruction = fillFlag(level.systemContext ?? '', flag);
+  const { key, s } = getSession(userId, challenge.id, level.id);
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+
+  const send = (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  // Client pressed stop / navigated away: stop pulling from the model
+  let clientGone = false;
+  res.on('close', () => { clientGone = true; });
+
+  let reply = '';
+  try {
+    const contents = toContents(s.history, message, systemInstruction);
+    for await (const text of streamGemini({ systemInstruction, contents })) {
+      if (clientGone) break;
+      reply += text;
+      send('token', { text });
+    }
+
+    // Keep whatever was generated so the conversation stays coherent after a stop
+    if (reply) pushHistory(s, message, reply);
+
+    if (!clientGone) {
+      send('done', { sessionKey: key, challengeSlug, level: level.index, reply });
+    }
+  } catch (err) {
+    console.error('[challenge stream error]', err);
+    if (!clientGone) send('error', { error: err.message || 'Generation failed' });
+  } finally {
+    res.end();
+  }
+}
+
+export const challengeStreamBySlug = (req, res, next) => streamHandler(req, res, next, req.params.slug);
+
+// ---------------- catalog ----------------
+// Public listing of active challenges/levels. Never exposes flags or system prompts.
+export async function listChallenges(req, res, next) {
+  try {
+    const challenges = await prisma.challenge.findMany({
+      where: { isActive: true },
+      include: { levels: { where: { isActive: true }, orderBy: { index: 'asc' } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const catalog = challenges
+      .filter(c => c.levels.length > 0)
+      .map(c => {
+        const cfg = c.graderConfig ?? {}; // { vulnerability_id, owasp_category }
+        const vulnerabilityId = Number(cfg.vulnerability_id);
+        return {
+          slug: c.slug,
+          title: c.title,
+          vulnerabilityId: Number.isInteger(vulnerabilityId) && vulnerabilityId > 0 ? vulnerabilityId : null,
+          // Fall back to the first level's category for challenges seeded before it was stored
+          owaspCategory: cfg.owasp_category ?? c.levels[0].graderConfig?.owasp_category ?? null,
+          levels: c.levels.map(l => ({
+            index: l.index,
+            title: l.title,
+            description: l.description,
+            difficulty: l.difficulty,
+            xpReward: l.xpReward,
+            owaspCategory: l.graderConfig?.owasp_category ?? null,
+          })),
+        };
+      });
+
+    return res.json({ challenges: catalog });
+  } catch (err) {
+    console.error('[challenge catalog error]', err);
+    return next(err);
+  }
+}
+
+// Any seeded challenge by slug: POST /api/challenges/:slug
+export const challengeBySlug = (req, res, next) => genericHandler(req, res, next, req.params.slug);
+
 // ---------------- Route exports (slugs must match your seed) ----------------
 export const challenge1 = (req, res, next) => genericHandler(req, res, next, 'prompt-injection');
 export const challenge2 = (req, res, next) => genericHandler(req, res, next, 'misinformation');
@@ -19,18 +19,21 @@ export async function getLeaderboard(req, res, next) {
         username: true,
         displayName: true,
         xpTotal: true,
+        learnScore: true,
       },
       orderBy: {
         xpTotal: 'desc',
       },
     });
 
-    // Transform users to leaderboard format
-    const leaderboard = users.map((user) => ({
-      id: user.id,
-      name: user.displayName || user.username || user.email.split('@')[0],
-      score: user.xpTotal || 0,
-    }));
+    // Transform users to leaderboard format (challenge XP plus Learn module score)
+    const leaderboard = users
+      .map((user) => ({
+        id: user.id,
+        name: user.displayName || user.username || user.email.split('@')[0],
+        score: (user.xpTotal || 0) + (user.learnScore || 0),
+      }))
+      .sort((a, b) => b.score - a.score);
 
     logger.info({ count: leaderboard.length }, 'Leaderboard fetched');
 
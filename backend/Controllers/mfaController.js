@@ -0,0 +1,402 @@
+// MFA Controller
+// TOTP enrolment, recovery codes and the second step of signing in
+
+import { PrismaClient } from '../generated/prisma/index.js';
+import { hashOneTimeToken, verifyMfaChallengeToken } from '../lib/auth.js';
+import { createSession } from '../lib/sessions.js';
+import { checkSecondFactor } from '../lib/mfa.js';
+import {
+  generateTotpSecret,
+  verifyTotp,
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  encryptSecret,
+  decryptSecret,
+} from '../lib/totp.js';
+import { logger } from '../lib/logger.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Record an MFA change in the audit log
+ */
+async function auditMfa(req, userId, action) {
+  await prisma.auditLog.create({
+    data: {
+      actorId: userId,
+      action,
+      targetType: 'User',
+      targetId: userId,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    },
+  });
+}
+
+/**
+ * Replace the user's recovery codes; returns the new codes in plain text (shown once)
+ */
+async function replaceRecoveryCodes(tx, userId) {
+  const codes = generateRecoveryCodes();
+  await tx.mfaRecoveryCode.deleteMany({ where: { userId } });
+  await tx.mfaRecoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashOneTimeToken(code) })),
+  });
+  return codes;
+}
+
+async function countRecoveryCodes(userId) {
+  return prisma.mfaRecoveryCode.count({ where: { userId, usedAt: null } });
+}
+
+/**
+ * Finish signing in with the code from the user's authenticator app (or a recovery code).
+ * Takes the `mfaToken` returned by /auth/signin when MFA is enabled.
+ */
+export async function verifyMfaSignin(req, res, next) {
+  try {
+    const { mfaToken, code } = req.body || {};
+
+    if (!mfaToken || !code) {
+      return res.status(400).json({
+        error: 'Sign-in token and code are required',
+      });
+    }
+
+    let userId;
+    try {
+      userId = verifyMfaChallengeToken(mfaToken);
+    } catch (error) {
+      return res.status(401).json({
+        error: error.message,
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user || !user.mfaEnabled || !user.mfaSecret) {
+      return res.status(401).json({
+        error: 'Sign-in step expired. Please sign in again.',
+      });
+    }
+
+    const failure = await checkSecondFactor(user, code);
+    if (failure) {
+      return res.status(failure.status).json({
+        error: failure.error,
+      });
+    }
+
+    const token = await createSession(user, req);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLoginAt: new Date() },
+    });
+
+    logger.info({ userId: user.id, email: user.email }, 'User signed in with MFA');
+
+    res.json({
+      message: 'Sign in successful',
+      user: {
+        id: user.id,
+        name: user.displayName || user.username || user.email,
+        email: user.email,
+        username: user.username,
+        role: user.role,
+      },
+      token,
+      recoveryCodesRemaining: await countRecoveryCodes(user.id),
+    });
+  } catch (error) {
+    logger.error({ error }, 'MFA sign in error');
+    next(error);
+  }
+}
+
+/**
+ * Whether MFA is on for the current user, and how many recovery codes are left
+ */
+export async function getMfaStatus(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { mfaEnabled: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    res.json({
+      enabled: user.mfaEnabled,
+      recoveryCodesRemaining: user.mfaEnabled ? await countRecoveryCodes(userId) : 0,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Get MFA status error');
+    next(error);
+  }
+}
+
+/**
+ * Start enrolment: create a new secret for the user's authenticator app.
+ * MFA is not enabled until a code from the app is confirmed with enableMfa.
+ */
+export async function startMfaSetup(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, mfaEnabled: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    if (user.mfaEnabled) {
+      return res.status(409).json({
+        error: 'Two-factor authentication is already enabled',
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await prisma.user.update({
+      where: { id: userId },
+      data: { mfaPendingSecret: encryptSecret(secret) },
+    });
+
+    res.json({
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email),
+    });
+  } catch (error) {
+    logger.error({ error }, 'Start MFA setup error');
+    next(error);
+  }
+}
+
+/**
+ * Confirm enrolment with a code from the app; returns the recovery codes (shown once)
+ */
+export async function enableMfa(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+    const { code } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    if (!code) {
+      return res.status(400).json({
+        error: 'Code is required',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { mfaEnabled: true, mfaPendingSecret: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    if (user.mfaEnabled) {
+      return res.status(409).json({
+        error: 'Two-factor authentication is already enabled',
+      });
+    }
+
+    if (!user.mfaPendingSecret) {
+      return res.status(400).json({
+        error: 'Start two-factor setup first',
+      });
+    }
+
+    const step = verifyTotp(decryptSecret(user.mfaPendingSecret), code);
+    if (step === null) {
+      return res.status(400).json({
+        error: 'Invalid authentication code. Check the time on your device and try again.',
+      });
+    }
+
+    const recoveryCodes = await prisma.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: userId },
+        data: {
+          mfaEnabled: true,
+          mfaSecret: user.mfaPendingSecret,
+          mfaPendingSecret: null,
+          mfaLastUsedStep: step,
+          mfaFailedAttempts: 0,
+          mfaLockedUntil: null,
+        },
+      });
+      return replaceRecoveryCodes(tx, userId);
+    });
+
+    await auditMfa(req, userId, 'user.mfa.enable');
+    logger.info({ userId }, 'MFA enabled');
+
+    res.json({
+      recoveryCodes,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Enable MFA error');
+    next(error);
+  }
+}
+
+/**
+ * Turn MFA off; needs a current code (or a recovery code)
+ */
+export async function disableMfa(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+    const { code } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    if (!code) {
+      return res.status(400).json({
+        error: 'Code is required',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      return res.status(400).json({
+        error: 'Two-factor authentication is not enabled',
+      });
+    }
+
+    const failure = await checkSecondFactor(user, code);
+    if (failure) {
+      return res.status(failure.status).json({
+        error: failure.error,
+      });
+    }
+
+    await prisma.$transaction([
+      prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      prisma.user.update({
+        where: { id: userId },
+        data: {
+          mfaEnabled: false,
+          mfaSecret: null,
+          mfaPendingSecret: null,
+          mfaLastUsedStep: null,
+          mfaFailedAttempts: 0,
+          mfaLockedUntil: null,
+        },
+      }),
+    ]);
+
+    await auditMfa(req, userId, 'user.mfa.disable');
+    logger.info({ userId }, 'MFA disabled');
+
+    res.json({
+      message: 'Two-factor authentication has been turned off',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Disable MFA error');
+    next(error);
+  }
+}
+
+/**
+ * Replace the recovery codes (the old ones stop working); needs a current code
+ */
+export async function regenerateRecoveryCodes(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+    const { code } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    if (!code) {
+      return res.status(400).json({
+        error: 'Code is required',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      return res.status(400).json({
+        error: 'Two-factor authentication is not enabled',
+      });
+    }
+
+    const failure = await checkSecondFactor(user, code);
+    if (failure) {
+      return res.status(failure.status).json({
+        error: failure.error,
+      });
+    }
+
+    const recoveryCodes = await prisma.$transaction((tx) => replaceRecoveryCodes(tx, userId));
+
+    await auditMfa(req, userId, 'user.mfa.recovery-codes.regenerate');
+    logger.info({ userId }, 'MFA recovery codes regenerated');
+
+    res.json({
+      recoveryCodes,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Regenerate recovery codes error');
+    next(error);
+  }
+}
@@ -0,0 +1,179 @@
+// Progress Controller
+// Stores Learn module progress synced from the frontend
+
+import { PrismaClient } from '../generated/prisma/index.js';
+import { logger } from '../lib/logger.js';
+import { calculateLearnScore } from '../lib/learnScores.js';
+import { validateModuleEntry, mergeCompletedModules, mergeModuleProgress } from '../lib/progressMerge.js';
+
+const prisma = new PrismaClient();
+
+// Concurrent syncs (two devices at once) retry their merge this many times before giving up
+const SYNC_ATTEMPTS = 5;
+
+/**
+ * Merge uploaded progress into the stored copy and write it back only if nobody else wrote in between
+ * (compared on updatedAt). Returns null if the user is gone, otherwise whether the write went through.
+ */
+async function mergeStoredProgress(tx, userId, completedModules, moduleProgress) {
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: { learnProgress: true, updatedAt: true },
+  });
+  if (!user) return null;
+
+  const stored = user.learnProgress || {};
+  const mergedModules = mergeCompletedModules(stored.completedModules, completedModules);
+  const learnProgress = {
+    completedModules: mergedModules,
+    moduleProgress: mergeModuleProgress(stored.moduleProgress, moduleProgress),
+  };
+  const learnScore = calculateLearnScore(mergedModules);
+
+  const { count } = await tx.user.updateMany({
+    where: { id: userId, updatedAt: user.updatedAt },
+    data: { learnProgress, learnScore },
+  });
+  return { written: count === 1, completedModules: mergedModules, learnScore };
+}
+
+/**
+ * Shape stored progress as UserProgressData
+ */
+function toProgressData(userId, learnProgress, learnScore) {
+  return {
+    userId,
+    completedModules: learnProgress?.completedModules || [],
+    totalScore: learnScore,
+    moduleProgress: learnProgress?.moduleProgress || {},
+  };
+}
+
+/**
+ * Sync progress - merges uploaded progress into the stored copy.
+ * Progress only moves forward, so an older device cannot undo newer work, and a device
+ * syncing at the same moment as another one merges again on top of its write.
+ */
+export async function syncProgress(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+    const { completedModules, moduleProgress } = req.body || {};
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    if (!Array.isArray(completedModules) || !completedModules.every(Number.isInteger)) {
+      return res.status(400).json({
+        error: 'completedModules must be an array of module ids',
+      });
+    }
+
+    if (moduleProgress !== undefined && (typeof moduleProgress !== 'object' || moduleProgress === null)) {
+      return res.status(400).json({
+        error: 'moduleProgress must be an object',
+      });
+    }
+
+    for (const [moduleId, entry] of Object.entries(moduleProgress || {})) {
+      const invalid = typeof entry === 'object' && entry !== null ? validateModuleEntry(moduleId, entry) : null;
+      if (invalid) {
+        return res.status(400).json({
+          error: invalid,
+        });
+      }
+    }
+
+    let result;
+    for (let attempt = 0; attempt < SYNC_ATTEMPTS && !result?.written; attempt++) {
+      result = await prisma.$transaction((tx) => mergeStoredProgress(tx, userId, completedModules, moduleProgress));
+
+      if (!result) {
+        return res.status(404).json({
+          error: 'User not found',
+        });
+      }
+    }
+
+    if (!result.written) {
+      logger.warn({ userId }, 'Progress sync gave up after concurrent writes');
+      return res.status(409).json({
+        error: 'Progress changed while syncing. Please try again.',
+      });
+    }
+
+    logger.info({ userId, completedModules: result.completedModules.length, learnScore: result.learnScore }, 'Progress synced');
+
+    res.json({
+      success: true,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Sync progress error');
+    next(error);
+  }
+}
+
+/**
+ * Reset the current user's progress (the frontend's "Reset Progress"); syncing cannot undo work otherwise
+ */
+export async function resetProgress(req, res, next) {
+  try {
+    const userId = req.user?.userId;
+
+    if (!userId) {
+      return res.status(401).json({
+        error: 'Unauthorized',
+      });
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        learnProgress: { completedModules: [], moduleProgress: {} },
+        learnScore: 0,
+      },
+    });
+
+    logger.info({ userId }, 'Progress reset');
+
+    res.json({
+      success: true,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Reset progress error');
+    next(error);
+  }
+}
+
+/**
+ * Get a user's synced progress (own progress only, unless admin)
+ */
+export async function getProgress(req, res, next) {
+  try {
+    const { userId } = req.params;
+
+    if (req.user?.userId !== userId && req.user?.role !== 'ADMIN') {
+      return res.status(403).json({
+        error: 'Insufficient permissions',
+      });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { learnProgress: true, learnScore: true },
+    });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+      });
+    }
+
+    res.json(toProgressData(userId, user.learnProgress, user.learnScore));
+  } catch (error) {
+    logger.error({ error }, 'Get progress error');
+    next(error);
+  }
+}
@@ -0,0 +1,130 @@
+// Session Controller
+// Lists the current user's signed-in devices and signs them out remotely
+
+import { PrismaClient } from '../generated/prisma/index.js';
+import { revokeUserSessions } from '../lib/sessions.js';
+import { logger } from '../lib/logger.js';
+
+const prisma = new PrismaClient();
+
+/**
+ * Record a sign-out from the sessions list in the audit log
+ */
+async function auditSessions(req, action, metadata) {
+  await prisma.auditLog.create({
+    data: {
+      actorId: req.user.userId,
+      action,
+      targetType: 'User',
+      targetId: req.user.userId,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+      metadata,
+    },
+  });
+}
+
+/**
+ * The current user's active sessions, most recently used first
+ */
+export async function listSessions(req, res, next) {
+  try {
+    const { userId, sessionId } = req.user;
+
+    const sessions = await prisma.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      select: { id: true, ip: true, userAgent: true, createdAt: true, lastSeenAt: true },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+
+    res.json({
+      sessions: sessions.map((session) => ({
+        ...session,
+        current: session.id === sessionId,
+      })),
+    });
+  } catch (error) {
+    logger.error({ error }, 'List sessions error');
+    next(error);
+  }
+}
+
+/**
+ * Sign out one session; its token stops working on the next request
+ */
+export async function revokeSession(req, res, next) {
+  try {
+    const { userId, sessionId } = req.user;
+
+    // Scoped to the user, so another user's session id simply is not found
+    const { count } = await prisma.session.updateMany({
+      where: { id: req.params.sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({
+        error: 'Session not found',
+      });
+    }
+
+    const current = req.params.sessionId === sessionId;
+    if (!current) {
+      await auditSessions(req, 'user.session.revoke', { sessionId: req.params.sessionId });
+    }
+
+    logger.info({ userId, current }, 'Session revoked');
+
+    res.json({
+      message: current ? 'Signed out' : 'Session signed out',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Revoke session error');
+    next(error);
+  }
+}
+
+/**
+ * Sign out every session except the one making the request
+ */
+export async function revokeOtherSessions(req, res, next) {
+  try {
+    const { userId, sessionId } = req.user;
+
+    const count = await revokeUserSessions(userId, { exceptSessionId: sessionId });
+    await auditSessions(req, 'user.session.revoke-others', { count });
+
+    logger.info({ userId, count }, 'Other sessions revoked');
+
+    res.json({
+      message: count === 1 ? 'Signed out 1 other session' : `Signed out ${count} other sessions`,
+      revoked: count,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Revoke other sessions error');
+    next(error);
+  }
+}
+
+/**
+ * Sign out the current session (the token used for this request)
+ */
+export async function logout(req, res, next) {
+  try {
+    const { userId, sessionId } = req.user;
+
+    await prisma.session.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    logger.info({ userId }, 'User signed out');
+
+    res.json({
+      message: 'Signed out',
+    });
+  } catch (error) {
+    logger.error({ error }, 'Logout error');
+    next(error);
+  }
+}
@@ -0,0 +1,308 @@
+// SSO Controller
+// Organisation single sign-on with OpenID Connect (authorization code + PKCE).
+// Users are provisioned on their first SSO sign in and signed in with the usual JWT afterwards.
+// An existing password account is only linked once its password is confirmed (POST /auth/sso/link).
+
+import { PrismaClient } from '../generated/prisma/index.js';
+import { getOidcSettings, discoverIssuer, exchangeAuthorizationCode, verifyIdToken } from '../lib/oidc.js';
+import { verifyPassword, generateMfaChallengeToken, generateSsoLinkToken, verifySsoLinkToken } from '../lib/auth.js';
+import { createSession } from '../lib/sessions.js';
+import { logger } from '../lib/logger.js';
+
+const prisma = new PrismaClient();
+
+// RFC 7636: 43-128 characters from the unreserved set
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9._~-]{43,128}$/;
+const USERNAME_PATTERN = /^[a-z0-9_.-]{3,30}$/;
+
+/**
+ * Pick a username for a new SSO user from their claims, or null if none is free
+ */
+async function suggestUsername(claims) {
+  const base = String(claims.preferred_username || claims.email || '')
+    .split('@')[0]
+    .toLowerCase()
+    .replace(/[^a-z0-9_.-]/g, '')
+    .slice(0, 30);
+  if (!USERNAME_PATTERN.test(base)) return null;
+
+  const taken = await prisma.user.findUnique({ where: { username: base }, select: { id: true } });
+  return taken ? null : base;
+}
+
+/**
+ * Find the user for an SSO identity, creating one on first sign in.
+ * Returns { user, event } on success (event is set when an account was created), { linkUser } when the email
+ * belongs to an existing password account that has to be confirmed first, otherwise { status, error }.
+ */
+async function findOrProvisionUser(issuer, claims) {
+  const identity = await prisma.ssoIdentity.findUnique({
+    where: { issuer_subject: { issuer, subject: claims.sub } },
+    include: { user: true },
+  });
+
+  if (identity) {
+    await prisma.ssoIdentity.update({
+      where: { id: identity.id },
+      data: { lastLoginAt: new Date() },
+    });
+    return { user: identity.user };
+  }
+
+  const email = typeof claims.email === 'string' ? claims.email.trim().toLowerCase() : '';
+  if (!email) {
+    return {
+      status: 400,
+      error: 'Your organisation did not share an email address. Ask your administrator to release the email claim.',
+    };
+  }
+
+  const existing = await prisma.user.findUnique({ where: { email } });
+  if (existing) {
+    // A matching email is not proof of owning the account (the provider may not check addresses),
+    // so the account's own password has to confirm the link
+    if (claims.email_verified !== true || !existing.passwordHash) {
+      return {
+        status: 409,
+        error: 'An account with this email already exists. Sign in the way you usually do.',
+      };
+    }
+    return { linkUser: existing };
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email,
+      username: await suggestUsername(claims),
+      displayName: typeof claims.name === 'string' && claims.name.trim() ? claims.name.trim() : null,
+      // No password: SSO users sign in through their organisation
+      ssoIdentities: {
+        create: { issuer, subject: claims.sub, lastLoginAt: new Date() },
+      },
+    },
+  });
+  return { user, event: 'user.sso.provision' };
+}
+
+/**
+ * Finish a sign in like /auth/signin: accounts with MFA get an mfaToken for POST /auth/mfa/verify,
+ * everyone else a session
+ */
+async function respondWithSignin(user, req, res, event) {
+  if (user.mfaEnabled) {
+    return res.json({
+      message: 'Enter the code from your authenticator app',
+      mfaRequired: true,
+      mfaToken: generateMfaChallengeToken(user.id),
+    });
+  }
+
+  const token = await createSession(user, req);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { lastLoginAt: new Date() },
+  });
+
+  logger.info({ userId: user.id, email: user.email, event }, 'User signed in with SSO');
+
+  res.json({
+    message: 'Sign in successful',
+    user: {
+      id: user.id,
+      name: user.displayName || user.username || user.email,
+      email: user.email,
+      username: user.username,
+      role: user.role,
+    },
+    token,
+  });
+}
+
+/**
+ * Whether SSO is available, and what the browser needs to start the redirect
+ */
+export async function getSsoConfig(req, res, next) {
+  try {
+    const settings = getOidcSettings();
+
+    if (!settings) {
+      return res.json({
+        enabled: false,
+      });
+    }
+
+    let document;
+    try {
+      ({ document } = await discoverIssuer(settings.issuer));
+    } catch (error) {
+      // Hide the SSO button rather than send users to a provider that is down or misconfigured
+      logger.warn({ error: error.message, issuer: settings.issuer }, 'OIDC discovery failed');
+      return res.json({
+        enabled: false,
+      });
+    }
+
+    res.json({
+      enabled: true,
+      issuer: settings.issuer,
+      authorizationEndpoint: document.authorization_endpoint,
+      clientId: settings.clientId,
+      redirectUri: settings.redirectUri,
+      scope: settings.scope,
+      displayName: settings.displayName,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Get SSO config error');
+    next(error);
+  }
+}
+
+/**
+ * Finish an SSO sign in: exchange the authorization code, verify the ID token,
+ * provision the user if needed and return a session like /auth/signin.
+ * Accounts with app MFA still get the mfaToken step, and an existing password account gets a linkToken
+ * to confirm with POST /auth/sso/link instead of being linked here.
+ */
+export async function completeSsoSignin(req, res, next) {
+  try {
+    const { code, codeVerifier, nonce } = req.body || {};
+    const settings = getOidcSettings();
+
+    if (!settings) {
+      return res.status(404).json({
+        error: 'Single sign-on is not configured',
+      });
+    }
+
+    if (!code || !codeVerifier || !nonce) {
+      return res.status(400).json({
+        error: 'Authorization code, code verifier and nonce are required',
+      });
+    }
+
+    if (!CODE_VERIFIER_PATTERN.test(codeVerifier)) {
+      return res.status(400).json({
+        error: 'Invalid code verifier',
+      });
+    }
+
+    let claims;
+    try {
+      const tokens = await exchangeAuthorizationCode(settings, { code, codeVerifier });
+      if (!tokens.id_token) {
+        throw new Error('Identity provider did not return an ID token');
+      }
+      claims = await verifyIdToken(settings, tokens.id_token, { nonce });
+    } catch (error) {
+      logger.warn({ error: error.message, issuer: settings.issuer }, 'SSO sign in rejected');
+      return res.status(401).json({
+        error: 'Single sign-on failed. Please try again.',
+      });
+    }
+
+    const result = await findOrProvisionUser(settings.issuer, claims);
+
+    if (result.linkUser) {
+      return res.json({
+        message: 'Enter your password to link your organisation sign-in to this account',
+        linkRequired: true,
+        linkToken: generateSsoLinkToken(result.linkUser.id, settings.issuer, claims.sub),
+        email: result.linkUser.email,
+      });
+    }
+
+    if (!result.user) {
+      return res.status(result.status).json({
+        error: result.error,
+      });
+    }
+
+    const { user, event } = result;
+    if (event) {
+      await prisma.auditLog.create({
+        data: {
+          actorId: user.id,
+          action: event,
+          targetType: 'User',
+          targetId: user.id,
+          ip: req.ip,
+          userAgent: req.headers['user-agent'],
+          metadata: { issuer: settings.issuer },
+        },
+      });
+    }
+
+    await respondWithSignin(user, req, res, event);
+  } catch (error) {
+    logger.error({ error }, 'SSO sign in error');
+    next(error);
+  }
+}
+
+/**
+ * Link an SSO identity to an existing account after its password is confirmed,
+ * then sign in like /auth/signin (including the MFA step)
+ */
+export async function linkSsoIdentity(req, res, next) {
+  try {
+    const { linkToken, password } = req.body || {};
+
+    if (!linkToken || !password) {
+      return res.status(400).json({
+        error: 'Link token and password are required',
+      });
+    }
+
+    let link;
+    try {
+      link = verifySsoLinkToken(linkToken);
+    } catch (error) {
+      return res.status(401).json({
+        error: error.message,
+      });
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: link.userId } });
+    if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+      return res.status(401).json({
+        error: 'Incorrect password',
+      });
+    }
+
+    const identity = await prisma.ssoIdentity.findUnique({
+      where: { issuer_subject: { issuer: link.issuer, subject: link.subject } },
+    });
+
+    if (identity && identity.userId !== user.id) {
+      return res.status(409).json({
+        error: 'This organisation sign-in is already linked to another account',
+      });
+    }
+
+    let event;
+    if (!identity) {
+      await prisma.ssoIdentity.create({
+        data: { userId: user.id, issuer: link.issuer, subject: link.subject, lastLoginAt: new Date() },
+      });
+      event = 'user.sso.link';
+
+      await prisma.auditLog.create({
+        data: {
+          actorId: user.id,
+          action: event,
+          targetType: 'User',
+          targetId: user.id,
+          ip: req.ip,
+          userAgent: req.headers['user-agent'],
+          metadata: { issuer: link.issuer },
+        },
+      });
+    }
+
+    await respondWithSignin(user, req, res, event);
+  } catch (error) {
+    logger.error({ error }, 'SSO link error');
+    next(error);
+  }
+}
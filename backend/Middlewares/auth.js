@@ -1,7 +1,8 @@
 // Authentication Middleware
-// Protects routes by verifying JWT tokens
+// Protects routes by verifying JWT tokens and the session they belong to
 
-import { verifyToken, extractTokenFromHeader } from '../lib/auth.js';
+import { extractTokenFromHeader } from '../lib/auth.js';
+import { verifySessionToken } from '../lib/sessions.js';
 import { logger } from '../lib/logger.js';
 
 /**
@@ -18,14 +19,15 @@ export async function authenticate(req, res, next) {
       });
     }
 
-    // Verify token
-    const decoded = verifyToken(token);
+    // Verify token (and that its session has not been revoked)
+    const decoded = await verifySessionToken(token, req);
 
     // Attach user info to request
     req.user = {
       userId: decoded.userId,
       email: decoded.email,
       role: decoded.role,
+      sessionId: decoded.sid,
     };
 
     next();
@@ -52,11 +54,12 @@ export async function optionalAuthenticate(req, res, next) {
     const token = extractTokenFromHeader(authHeader);
 
     if (token) {
-      const decoded = verifyToken(token);
+      const decoded = await verifySessionToken(token, req);
       req.user = {
         userId: decoded.userId,
         email: decoded.email,
         role: decoded.role,
+        sessionId: decoded.sid,
       };
     }
 
@@ -0,0 +1,15 @@
+// Account Routes
+
+import express from 'express';
+import { exportAccountData, deleteAccount } from '../Controllers/accountController.js';
+import { authenticate } from '../Middlewares/auth.js';
+
+const router = express.Router();
+
+/**
+ * Protected routes - a user can only export or delete their own account
+ */
+router.get('/export', authenticate, exportAccountData);
+router.delete('/', authenticate, deleteAccount);
+
+export default router;
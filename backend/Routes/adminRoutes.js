@@ -0,0 +1,17 @@
+// Admin Routes
+
+import express from 'express';
+import { listUsers, updateUserRole } from '../Controllers/adminController.js';
+import { authenticate, requireRole } from '../Middlewares/auth.js';
+
+const router = express.Router();
+
+/**
+ * Admin-only routes
+ */
+router.use(authenticate, requireRole('ADMIN'));
+
+router.get('/users', listUsers);
+router.patch('/users/:userId/role', updateUserRole);
+
+export default router;
@@ -6,7 +6,23 @@ import {
   signin,
   getProfile,
   verifyTokenEndpoint,
+  refreshToken,
+  requestPasswordReset,
+  confirmPasswordReset,
+  updateProfile,
+  verifyContactChange,
+  resendContactCode,
 } from '../Controllers/authController.js';
+import {
+  verifyMfaSignin,
+  getMfaStatus,
+  startMfaSetup,
+  enableMfa,
+  disableMfa,
+  regenerateRecoveryCodes,
+} from '../Controllers/mfaController.js';
+import { getSsoConfig, completeSsoSignin, linkSsoIdentity } from '../Controllers/ssoController.js';
+import { listSessions, revokeSession, revokeOtherSessions, logout } from '../Controllers/sessionController.js';
 import { authenticate } from '../Middlewares/auth.js';
 
 const router = express.Router();
@@ -16,12 +32,31 @@ const router = express.Router();
  */
 router.post('/signup', signup);
 router.post('/signin', signin);
+router.post('/password-reset/request', requestPasswordReset);
+router.post('/password-reset/confirm', confirmPasswordReset);
+router.post('/mfa/verify', verifyMfaSignin); // Second step of signin; takes the mfaToken from /signin
+router.get('/sso/config', getSsoConfig);
+router.post('/sso/callback', completeSsoSignin); // Code + PKCE verifier from the identity provider redirect
+router.post('/sso/link', linkSsoIdentity); // Password confirmation for the linkToken from /sso/callback
 
 /**
  * Protected routes
  */
 router.get('/verify', authenticate, verifyTokenEndpoint);
 router.get('/profile', authenticate, getProfile);
+router.patch('/profile', authenticate, updateProfile);
+router.post('/profile/verify', authenticate, verifyContactChange);
+router.post('/profile/verify/resend', authenticate, resendContactCode);
+router.post('/refresh', authenticate, refreshToken);
+router.post('/logout', authenticate, logout);
+router.get('/sessions', authenticate, listSessions);
+router.delete('/sessions', authenticate, revokeOtherSessions); // Every session except the current one
+router.delete('/sessions/:sessionId', authenticate, revokeSession);
+router.get('/mfa', authenticate, getMfaStatus);
+router.post('/mfa/setup', authenticate, startMfaSetup);
+router.post('/mfa/enable', authenticate, enableMfa);
+router.post('/mfa/disable', authenticate, disableMfa);
+router.post('/mfa/recovery-codes', authenticate, regenerateRecoveryCodes);
 
 export default router;
 
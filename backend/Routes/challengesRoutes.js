@@ -3,10 +3,20 @@
 import express from 'express';
 
 import { authenticate } from '../Middlewares/auth.js';
-import {  challenge1,challenge2, challenge3, challenge4 } from '../Controllers/challengesController.js';
+import {  challenge1,challenge2, challenge3, challenge4, listChallenges, challengeBySlug, challengeStreamBySlug } from '../Controllers/challengesController.js';
 
 const router = express.Router();
 
+/**
+ * Catalog of active challenges (slug, OWASP category, levels, difficulty, XP)
+ */
+router.get('/challenges', listChallenges);
+
+router.post('/challenges/:slug', challengeBySlug);
+
+// Same chat as above, streamed as server-sent events
+router.post('/challenges/:slug/stream', challengeStreamBySlug);
+
 /**
  * Private routes
  */
@@ -2,6 +2,9 @@ import express from 'express'
 import {main,metadata} from '../Controllers/main.js'
 import authRoutes from './authRoutes.js'
 import leaderboardRoutes from './leaderboardRoutes.js'
+import progressRoutes from './progressRoutes.js'
+import adminRoutes from './adminRoutes.js'
+import accountRoutes from './accountRoutes.js'
 import challengesRouter from './challengesRoutes.js'
 
 const router = express.Router()
@@ -15,6 +18,15 @@ router.use('/auth', authRoutes)
 // Leaderboard routes
 router.use('/leaderboard', leaderboardRoutes)
 
+// Learn progress sync routes
+router.use('/progress', progressRoutes)
+
+// Account data export and deletion
+router.use('/account', accountRoutes)
+
+// Admin routes (ADMIN role only)
+router.use('/admin', adminRoutes)
+
 // API routes
 router.post('/metadata',metadata)
 
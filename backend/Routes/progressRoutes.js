@@ -0,0 +1,16 @@
+// Progress Routes
+
+import express from 'express';
+import { syncProgress, resetProgress, getProgress } from '../Controllers/progressController.js';
+import { authenticate } from '../Middlewares/auth.js';
+
+const router = express.Router();
+
+/**
+ * Protected routes - progress always belongs to the signed-in user
+ */
+router.post('/sync', authenticate, syncProgress);
+router.delete('/', authenticate, resetProgress);
+router.get('/:userId', authenticate, getProgress);
+
+export default router;
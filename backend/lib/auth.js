@@ -7,6 +7,8 @@ import crypto from 'crypto';
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production';
 const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
 const BCRYPT_ROUNDS = 12;
+// How long a user has to enter their second factor after the password was accepted
+const MFA_CHALLENGE_EXPIRES_IN = '5m';
 
 /**
  * Hash a password using bcrypt
@@ -23,14 +25,15 @@ export async function verifyPassword(password, hash) {
 }
 
 /**
- * Generate a JWT token for a user
+ * Generate a JWT token for a user's session (`sessionId` is the Session row it belongs to, see lib/sessions.js)
  */
-export function generateToken(userId, email, role = 'USER') {
+export function generateToken(userId, email, role = 'USER', sessionId) {
   return jwt.sign(
     {
       userId,
       email,
       role,
+      sid: sessionId,
     },
     JWT_SECRET,
     {
@@ -43,11 +46,69 @@ export function generateToken(userId, email, role = 'USER') {
  * Verify and decode a JWT token
  */
 export function verifyToken(token) {
+  let decoded;
   try {
-    return jwt.verify(token, JWT_SECRET);
+    decoded = jwt.verify(token, JWT_SECRET);
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
+  // Purpose tokens (e.g. an MFA challenge) are not sessions
+  if (decoded.purpose) {
+    throw new Error('Invalid or expired token');
+  }
+  return decoded;
+}
+
+/**
+ * When a token expires (read from its `exp` claim without verifying it)
+ */
+export function getTokenExpiry(token) {
+  const decoded = jwt.decode(token);
+  return decoded?.exp ? new Date(decoded.exp * 1000) : null;
+}
+
+/**
+ * Generate a short-lived token proving the password step of an MFA sign in succeeded
+ */
+export function generateMfaChallengeToken(userId) {
+  return jwt.sign({ userId, purpose: 'mfa' }, JWT_SECRET, { expiresIn: MFA_CHALLENGE_EXPIRES_IN });
+}
+
+/**
+ * Verify an MFA challenge token and return the user id it was issued for
+ */
+export function verifyMfaChallengeToken(token) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET);
+    if (decoded.purpose === 'mfa' && decoded.userId) {
+      return decoded.userId;
+    }
+  } catch (error) {
+    // Reported below
+  }
+  throw new Error('Sign-in step expired. Please sign in again.');
+}
+
+/**
+ * Generate a short-lived token for linking an SSO identity to an existing account once its password is confirmed
+ */
+export function generateSsoLinkToken(userId, issuer, subject) {
+  return jwt.sign({ userId, issuer, subject, purpose: 'sso-link' }, JWT_SECRET, { expiresIn: MFA_CHALLENGE_EXPIRES_IN });
+}
+
+/**
+ * Verify an SSO link token and return the account and identity it was issued for
+ */
+export function verifySsoLinkToken(token) {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET);
+    if (decoded.purpose === 'sso-link' && decoded.userId && decoded.issuer && decoded.subject) {
+      return { userId: decoded.userId, issuer: decoded.issuer, subject: decoded.subject };
+    }
+  } catch (error) {
+    // Reported below
+  }
+  throw new Error('Linking step expired. Please sign in with your organisation again.');
 }
 
 /**
@@ -57,6 +118,20 @@ export function generateTokenHash() {
   return crypto.randomBytes(32).toString('hex');
 }
 
+/**
+ * Generate a 6-digit verification code (for codes people type in, e.g. email/phone changes)
+ */
+export function generateVerificationCode() {
+  return crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+}
+
+/**
+ * Hash a single-use token (e.g. password reset) for storage - only the hash is kept in the database
+ */
+export function hashOneTimeToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
 /**
  * Extract token from Authorization header
  */
@@ -0,0 +1,33 @@
+// Learn module scoring
+// Mirrors calculateTotalScore in the frontend (lib/userProgress.ts) so synced
+// progress is scored on the server instead of trusting a client-sent total.
+
+const MODULE_SCORES = {
+  1: 95,
+  2: 88,
+  3: 85,
+  4: 92,
+  5: 93,
+  6: 87,
+  7: 90,
+  8: 91,
+  9: 89,
+  10: 94,
+};
+
+/**
+ * Whether a module id belongs to the Learn catalog
+ */
+export function isLearnModule(moduleId) {
+  return Object.prototype.hasOwnProperty.call(MODULE_SCORES, moduleId);
+}
+
+/**
+ * Score for a set of completed Learn modules
+ */
+export function calculateLearnScore(completedModules) {
+  return [...new Set(completedModules)].reduce(
+    (total, moduleId) => total + (MODULE_SCORES[moduleId] || 0),
+    0
+  );
+}
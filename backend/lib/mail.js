@@ -0,0 +1,71 @@
+// Mail delivery
+// Pluggable transport so password reset (and future) emails work without an SMTP server.
+// MAIL_TRANSPORT=outbox (default) writes each message to MAIL_OUTBOX_DIR; MAIL_TRANSPORT=console logs it.
+// Production deployments register their own transport with setMailTransport().
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { logger } from './logger.js';
+
+const DEFAULT_OUTBOX_DIR = 'outbox';
+
+/**
+ * Write each message to a text file in the outbox directory
+ */
+export function createOutboxTransport(dir = process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR) {
+  return {
+    name: 'outbox',
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const safeTo = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeTo}.txt`);
+      const body = [
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        '',
+        message.text,
+        '',
+      ].join('\n');
+      await fs.writeFile(file, body, 'utf8');
+      logger.info({ to: message.to, file }, 'Mail written to outbox');
+    },
+  };
+}
+
+/**
+ * Log each message (dev only - the body may contain single-use links)
+ */
+export function createConsoleTransport() {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`\n--- mail to ${message.to} ---\nSubject: ${message.subject}\n\n${message.text}\n--- end mail ---\n`);
+    },
+  };
+}
+
+let transport = null;
+
+function getTransport() {
+  if (!transport) {
+    transport = process.env.MAIL_TRANSPORT === 'console'
+      ? createConsoleTransport()
+      : createOutboxTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replace the mail transport (any object with `async send({ to, subject, text })`)
+ */
+export function setMailTransport(next) {
+  transport = next;
+}
+
+/**
+ * Send an email through the configured transport
+ */
+export async function sendMail({ to, subject, text }) {
+  await getTransport().send({ to, subject, text });
+}
@@ -0,0 +1,81 @@
+// Checking a second factor (authenticator or recovery code) for an MFA-enabled user.
+// Shared by the MFA sign-in step and actions that ask for a code again (disabling MFA, deleting the account).
+
+import { PrismaClient } from '../generated/prisma/index.js';
+import { hashOneTimeToken } from './auth.js';
+import { verifyTotp, normalizeRecoveryCode, decryptSecret } from './totp.js';
+import { logger } from './logger.js';
+
+const prisma = new PrismaClient();
+
+const MAX_MFA_ATTEMPTS = 5;
+const MFA_LOCKOUT_MINUTES = Number(process.env.MFA_LOCKOUT_MINUTES) || 15;
+
+/**
+ * Check a second factor (authenticator code or unused recovery code) for an MFA-enabled user.
+ * Accepted codes cannot be reused; repeated failures lock MFA for MFA_LOCKOUT_MINUTES.
+ * Returns null on success, otherwise { status, error } for the response.
+ * `db` defaults to the shared client; the tests pass an in-memory one.
+ */
+export async function checkSecondFactor(user, code, db = prisma) {
+  // Claim an attempt before checking the code, so parallel guesses cannot all get in under the limit
+  const now = new Date();
+  const { count: claimed } = await db.user.updateMany({
+    where: {
+      id: user.id,
+      mfaFailedAttempts: { lt: MAX_MFA_ATTEMPTS },
+      OR: [{ mfaLockedUntil: null }, { mfaLockedUntil: { lte: now } }],
+    },
+    data: { mfaFailedAttempts: { increment: 1 } },
+  });
+  if (claimed === 0) {
+    const { mfaLockedUntil } = await db.user.findUnique({
+      where: { id: user.id },
+      select: { mfaLockedUntil: true },
+    });
+    // Not yet set when the last allowed attempt is still being checked
+    const minutes = mfaLockedUntil && mfaLockedUntil > now
+      ? Math.ceil((mfaLockedUntil.getTime() - now.getTime()) / 60000)
+      : MFA_LOCKOUT_MINUTES;
+    return {
+      status: 429,
+      error: `Too many incorrect codes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+    };
+  }
+
+  const reset = { mfaFailedAttempts: 0, mfaLockedUntil: null };
+
+  const step = verifyTotp(decryptSecret(user.mfaSecret), code, user.mfaLastUsedStep);
+  if (step !== null) {
+    // Only one request can claim a step, so the same code cannot be used twice in parallel
+    const { count } = await db.user.updateMany({
+      where: { id: user.id, OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }] },
+      data: { ...reset, mfaLastUsedStep: step },
+    });
+    if (count === 1) return null;
+  } else {
+    const { count } = await db.mfaRecoveryCode.updateMany({
+      where: { userId: user.id, codeHash: hashOneTimeToken(normalizeRecoveryCode(code)), usedAt: null },
+      data: { usedAt: new Date() },
+    });
+    if (count === 1) {
+      await db.user.update({ where: { id: user.id }, data: reset });
+      logger.info({ userId: user.id }, 'MFA recovery code used');
+      return null;
+    }
+  }
+
+  // The failed attempt stays counted; the one that used up the limit starts the lockout
+  const { count: locked } = await db.user.updateMany({
+    where: { id: user.id, mfaFailedAttempts: { gte: MAX_MFA_ATTEMPTS } },
+    data: { mfaFailedAttempts: 0, mfaLockedUntil: new Date(Date.now() + MFA_LOCKOUT_MINUTES * 60 * 1000) },
+  });
+  if (locked === 1) {
+    logger.warn({ userId: user.id }, 'MFA locked after too many incorrect codes');
+  }
+
+  return {
+    status: 400,
+    error: 'Invalid authentication code',
+  };
+}
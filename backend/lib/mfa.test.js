@@ -0,0 +1,122 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkSecondFactor } from './mfa.js';
+import { hashOneTimeToken } from './auth.js';
+import { encryptSecret } from './totp.js';
+
+// RFC 6238 SHA-1 seed (see totp.test.js); 081804 is its code at T=1111111109
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const NOW_SECONDS = 1111111109;
+const CURRENT_CODE = '081804';
+
+function compare(value, condition) {
+  if (condition === null || typeof condition !== 'object' || condition instanceof Date) {
+    return value?.valueOf() === condition?.valueOf();
+  }
+  return Object.entries(condition).every(([op, bound]) => {
+    if (value === null) return false;
+    if (op === 'lt') return value < bound;
+    if (op === 'lte') return value <= bound;
+    if (op === 'gte') return value >= bound;
+    throw new Error(`Unsupported filter ${op}`);
+  });
+}
+
+function matches(row, where) {
+  return Object.entries(where).every(([key, condition]) =>
+    key === 'OR' ? condition.some((option) => matches(row, option)) : compare(row[key], condition)
+  );
+}
+
+function apply(row, data) {
+  for (const [key, value] of Object.entries(data)) {
+    row[key] = value?.increment !== undefined ? row[key] + value.increment : value;
+  }
+}
+
+// Just enough of the Prisma client for checkSecondFactor, backed by arrays
+function createDb(rows) {
+  const table = (name) => ({
+    async updateMany({ where, data }) {
+      const found = rows[name].filter((row) => matches(row, where));
+      found.forEach((row) => apply(row, data));
+      return { count: found.length };
+    },
+    async update({ where, data }) {
+      const row = rows[name].find((r) => matches(r, where));
+      apply(row, data);
+      return { ...row };
+    },
+    async findUnique({ where }) {
+      const row = rows[name].find((r) => matches(r, where));
+      return row ? { ...row } : null;
+    },
+  });
+  return { user: table('user'), mfaRecoveryCode: table('mfaRecoveryCode') };
+}
+
+function setup(t) {
+  t.mock.timers.enable({ apis: ['Date'], now: NOW_SECONDS * 1000 });
+  const user = {
+    id: 'user_1',
+    mfaSecret: encryptSecret(SECRET),
+    mfaLastUsedStep: null,
+    mfaFailedAttempts: 0,
+    mfaLockedUntil: null,
+  };
+  const recoveryCodes = ['abcd-2345', 'efgh-6789'].map((code) => ({
+    userId: user.id,
+    codeHash: hashOneTimeToken(code),
+    usedAt: null,
+  }));
+  return { user, recoveryCodes, db: createDb({ user: [user], mfaRecoveryCode: recoveryCodes }) };
+}
+
+test('an authenticator code is accepted once', async (t) => {
+  const { user, db } = setup(t);
+  // Both requests read the user before either claimed the step
+  const snapshot = { ...user };
+
+  assert.equal(await checkSecondFactor(snapshot, CURRENT_CODE, db), null);
+  assert.equal(user.mfaLastUsedStep, Math.floor(NOW_SECONDS / 30));
+
+  const replay = await checkSecondFactor(snapshot, CURRENT_CODE, db);
+  assert.equal(replay?.status, 400);
+});
+
+test('a recovery code is accepted once, however it is typed', async (t) => {
+  const { user, recoveryCodes, db } = setup(t);
+
+  assert.equal(await checkSecondFactor(user, 'ABCD 2345', db), null);
+  assert.ok(recoveryCodes[0].usedAt);
+  assert.equal(recoveryCodes[1].usedAt, null);
+
+  const reused = await checkSecondFactor(user, 'abcd-2345', db);
+  assert.equal(reused?.status, 400);
+  assert.equal(await checkSecondFactor(user, 'efgh-6789', db), null);
+});
+
+test('an accepted code clears earlier failed attempts', async (t) => {
+  const { user, db } = setup(t);
+
+  await checkSecondFactor(user, '000000', db);
+  await checkSecondFactor(user, '000000', db);
+  assert.equal(user.mfaFailedAttempts, 2);
+
+  assert.equal(await checkSecondFactor(user, CURRENT_CODE, db), null);
+  assert.equal(user.mfaFailedAttempts, 0);
+});
+
+test('five wrong codes lock MFA, even for a correct code', async (t) => {
+  const { user, db } = setup(t);
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    assert.equal((await checkSecondFactor(user, '000000', db))?.status, 400);
+  }
+  assert.ok(user.mfaLockedUntil > new Date());
+
+  const locked = await checkSecondFactor(user, CURRENT_CODE, db);
+  assert.equal(locked?.status, 429);
+  assert.match(locked.error, /Try again in 15 minutes/);
+  assert.equal(user.mfaLastUsedStep, null);
+});
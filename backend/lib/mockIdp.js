@@ -0,0 +1,224 @@
+// Mock OpenID Connect identity provider for local development and tests
+// Run with `npm run mock-idp`, then start the API with
+//   OIDC_ISSUER=http://localhost:5300 OIDC_CLIENT_ID=usda-ai-redteam
+// The sign-in page lists demo users (or accepts any email) instead of asking for a password.
+// Supports only what the app uses: discovery, JWKS, and the authorization code flow with S256 PKCE.
+// Keys and codes live in memory, so restarting the provider invalidates outstanding sign ins.
+
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { fileURLToPath } from 'url';
+
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+
+const DEMO_USERS = [
+  { sub: 'mock-analyst', email: 'analyst@example.gov', name: 'Alex Analyst', preferred_username: 'alex.analyst' },
+  { sub: 'mock-engineer', email: 'engineer@example.gov', name: 'Sam Engineer', preferred_username: 'sam.engineer' },
+  { sub: 'mock-manager', email: 'manager@example.gov', name: 'Jordan Manager', preferred_username: 'jordan.manager' },
+];
+
+const base64Url = (buffer) => buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const escapeHtml = (value) => String(value).replace(/[&<>"']/g, (char) => (
+  { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]
+));
+
+/**
+ * Build the mock provider as an Express app (listen on it yourself, e.g. from a test)
+ */
+export function createMockIdp({
+  issuer = 'http://localhost:5300',
+  clientId = 'usda-ai-redteam',
+  clientSecret = null,
+  redirectUris = ['http://localhost:3000/auth/callback', 'http://localhost:5173/auth/callback'],
+} = {}) {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const kid = base64Url(crypto.randomBytes(8));
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid, use: 'sig', alg: 'RS256' };
+  const codes = new Map(); // code -> { redirectUri, codeChallenge, nonce, user, expiresAt }
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  // Redirect-time errors go back to the client, except when the client or redirect URI itself is wrong
+  const checkClient = (params) => params.client_id === clientId && redirectUris.includes(params.redirect_uri);
+
+  const redirectWith = (res, redirectUri, params) => {
+    const url = new URL(redirectUri);
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined) url.searchParams.set(key, value);
+    }
+    res.redirect(url.toString());
+  };
+
+  app.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      scopes_supported: ['openid', 'email', 'profile'],
+      token_endpoint_auth_methods_supported: clientSecret ? ['client_secret_post'] : ['none'],
+      claims_supported: ['sub', 'email', 'email_verified', 'name', 'preferred_username', 'nonce'],
+    });
+  });
+
+  app.get('/jwks', (_req, res) => {
+    res.json({ keys: [jwk] });
+  });
+
+  app.get('/authorize', (req, res) => {
+    const params = req.query;
+    if (!checkClient(params)) {
+      return res.status(400).send('Unknown client_id or redirect_uri');
+    }
+    if (params.response_type !== 'code' || !String(params.scope || '').split(' ').includes('openid')) {
+      return redirectWith(res, params.redirect_uri, { error: 'unsupported_response_type', state: params.state });
+    }
+    if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+      return redirectWith(res, params.redirect_uri, {
+        error: 'invalid_request',
+        error_description: 'PKCE with S256 is required',
+        state: params.state,
+      });
+    }
+
+    const hidden = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge']
+      .map((name) => `<input type="hidden" name="${name}" value="${escapeHtml(params[name] || '')}">`)
+      .join('');
+    const userButtons = DEMO_USERS.map((user) => `
+      <form method="post" action="/authorize">${hidden}
+        <input type="hidden" name="user" value="${user.sub}">
+        <button type="submit"><strong>${escapeHtml(user.name)}</strong><br><small>${escapeHtml(user.email)}</small></button>
+      </form>`).join('');
+
+    res.send(`<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Mock identity provider</title>
+  <style>
+    body { font-family: system-ui, sans-serif; max-width: 420px; margin: 48px auto; padding: 0 16px; color: #0a2342; }
+    button { width: 100%; padding: 10px; margin: 4px 0; text-align: left; cursor: pointer; }
+    input[type=email], input[type=text] { width: 100%; padding: 8px; margin: 4px 0; box-sizing: border-box; }
+    .note { color: #64748b; font-size: 14px; }
+  </style>
+</head>
+<body>
+  <h1>Mock identity provider</h1>
+  <p class="note">For local development only. Choose who to sign in as.</p>
+  ${userButtons}
+  <h2>Someone else</h2>
+  <form method="post" action="/authorize">${hidden}
+    <input type="email" name="email" placeholder="Email address" required>
+    <input type="text" name="name" placeholder="Full name (optional)">
+    <button type="submit">Sign in</button>
+  </form>
+  <form method="post" action="/authorize">${hidden}
+    <input type="hidden" name="deny" value="1">
+    <button type="submit">Cancel</button>
+  </form>
+</body>
+</html>`);
+  });
+
+  app.post('/authorize', (req, res) => {
+    const params = req.body;
+    if (!checkClient(params)) {
+      return res.status(400).send('Unknown client_id or redirect_uri');
+    }
+    if (params.deny) {
+      return redirectWith(res, params.redirect_uri, { error: 'access_denied', state: params.state || undefined });
+    }
+
+    let user = DEMO_USERS.find((candidate) => candidate.sub === params.user);
+    if (!user && params.email) {
+      const email = String(params.email).trim().toLowerCase();
+      user = {
+        // Stable per email, so signing in again finds the same account
+        sub: `mock-${crypto.createHash('sha256').update(email).digest('hex').slice(0, 16)}`,
+        email,
+        name: String(params.name || '').trim() || undefined,
+        preferred_username: email.split('@')[0],
+      };
+    }
+    if (!user) {
+      return redirectWith(res, params.redirect_uri, { error: 'access_denied', state: params.state || undefined });
+    }
+
+    const code = base64Url(crypto.randomBytes(24));
+    codes.set(code, {
+      redirectUri: params.redirect_uri,
+      codeChallenge: params.code_challenge,
+      nonce: params.nonce || undefined,
+      user,
+      expiresAt: Date.now() + CODE_TTL_MS,
+    });
+    redirectWith(res, params.redirect_uri, { code, state: params.state || undefined });
+  });
+
+  app.post('/token', (req, res) => {
+    const params = req.body;
+    res.setHeader('Cache-Control', 'no-store');
+    const fail = (error, description) => res.status(400).json({ error, error_description: description });
+
+    if (params.grant_type !== 'authorization_code') {
+      return fail('unsupported_grant_type', 'Only authorization_code is supported');
+    }
+    if (params.client_id !== clientId || (clientSecret && params.client_secret !== clientSecret)) {
+      return res.status(401).json({ error: 'invalid_client' });
+    }
+
+    // Codes work once, even when the rest of the request is wrong
+    const grant = codes.get(params.code);
+    codes.delete(params.code);
+    if (!grant || grant.expiresAt < Date.now()) {
+      return fail('invalid_grant', 'Authorization code is invalid or has expired');
+    }
+    if (grant.redirectUri !== params.redirect_uri) {
+      return fail('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+    const challenge = base64Url(crypto.createHash('sha256').update(String(params.code_verifier || '')).digest());
+    if (challenge !== grant.codeChallenge) {
+      return fail('invalid_grant', 'PKCE verification failed');
+    }
+
+    const { sub, ...profile } = grant.user;
+    const idToken = jwt.sign(
+      { ...profile, email_verified: true, nonce: grant.nonce },
+      privateKey,
+      { algorithm: 'RS256', keyid: kid, issuer, audience: clientId, subject: sub, expiresIn: ID_TOKEN_TTL_SECONDS }
+    );
+
+    res.json({
+      access_token: base64Url(crypto.randomBytes(24)),
+      token_type: 'Bearer',
+      expires_in: ID_TOKEN_TTL_SECONDS,
+      id_token: idToken,
+    });
+  });
+
+  return app;
+}
+
+/* ------------------------------ run ------------------------------ */
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.MOCK_IDP_PORT) || 5300;
+  const issuer = process.env.MOCK_IDP_ISSUER || `http://localhost:${port}`;
+  const app = createMockIdp({
+    issuer,
+    clientId: process.env.MOCK_IDP_CLIENT_ID || undefined,
+    clientSecret: process.env.MOCK_IDP_CLIENT_SECRET || null,
+    redirectUris: process.env.MOCK_IDP_REDIRECT_URIS?.split(',').map((uri) => uri.trim()),
+  });
+  app.listen(port, () => {
+    console.log(`Mock identity provider listening on ${issuer}`);
+  });
+}
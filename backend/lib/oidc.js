@@ -0,0 +1,132 @@
+// OpenID Connect client for organisation single sign-on
+// The browser runs the authorization code + PKCE redirect; the backend exchanges the code and
+// verifies the ID token, so users only ever get this API's own JWT.
+// Configured by issuer URL (OIDC_ISSUER); endpoints and signing keys come from the issuer's discovery document.
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+
+const DISCOVERY_CACHE_MS = 10 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+const ID_TOKEN_ALGORITHMS = ['RS256', 'ES256'];
+// Allowance for clock differences between this server and the identity provider
+const CLOCK_TOLERANCE_SECONDS = 60;
+
+let discoveryCache = null; // { issuer, document, jwks, fetchedAt }
+
+/**
+ * SSO settings from the environment, or null when SSO is not configured.
+ * Read on each call so a .env loaded after import still applies.
+ */
+export function getOidcSettings() {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/+$/, '');
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+
+  const appUrl = process.env.APP_URL || 'http://localhost:3000';
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || null, // Optional: PKCE alone is enough for public clients
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${appUrl}/auth/callback`,
+    scope: process.env.OIDC_SCOPES || 'openid email profile',
+    displayName: process.env.OIDC_DISPLAY_NAME || 'Organisation SSO',
+  };
+}
+
+async function fetchJson(url, init = {}) {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const reason = body.error_description || body.error || response.statusText;
+    throw new Error(`Identity provider request failed (${response.status}): ${reason}`);
+  }
+  return body;
+}
+
+/**
+ * The issuer's discovery document and signing keys (cached; `refresh` refetches, e.g. after key rotation)
+ */
+export async function discoverIssuer(issuer, { refresh = false } = {}) {
+  const fresh = discoveryCache
+    && discoveryCache.issuer === issuer
+    && Date.now() - discoveryCache.fetchedAt < DISCOVERY_CACHE_MS;
+  if (fresh && !refresh) return discoveryCache;
+
+  const document = await fetchJson(`${issuer}/.well-known/openid-configuration`);
+  if (document.issuer?.replace(/\/+$/, '') !== issuer) {
+    throw new Error('Identity provider discovery document is for a different issuer');
+  }
+  if (!document.authorization_endpoint || !document.token_endpoint || !document.jwks_uri) {
+    throw new Error('Identity provider discovery document is missing required endpoints');
+  }
+
+  const jwks = await fetchJson(document.jwks_uri);
+  discoveryCache = { issuer, document, jwks, fetchedAt: Date.now() };
+  return discoveryCache;
+}
+
+/**
+ * Exchange an authorization code (with its PKCE verifier) for tokens
+ */
+export async function exchangeAuthorizationCode(settings, { code, codeVerifier }) {
+  const { document } = await discoverIssuer(settings.issuer);
+  const params = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: settings.redirectUri,
+    client_id: settings.clientId,
+    code_verifier: codeVerifier,
+  });
+  if (settings.clientSecret) {
+    params.set('client_secret', settings.clientSecret);
+  }
+
+  return fetchJson(document.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: params.toString(),
+  });
+}
+
+function findSigningKey(jwks, kid) {
+  const keys = Array.isArray(jwks?.keys) ? jwks.keys : [];
+  const match = keys.find((key) => (kid ? key.kid === kid : true) && (!key.use || key.use === 'sig'));
+  return match ? crypto.createPublicKey({ key: match, format: 'jwk' }) : null;
+}
+
+/**
+ * Verify an ID token's signature, issuer, audience, expiry and nonce; returns its claims
+ */
+export async function verifyIdToken(settings, idToken, { nonce }) {
+  const header = jwt.decode(idToken, { complete: true })?.header;
+  if (!header) {
+    throw new Error('Identity provider returned a malformed ID token');
+  }
+
+  let { document, jwks } = await discoverIssuer(settings.issuer);
+  let key = findSigningKey(jwks, header.kid);
+  if (!key) {
+    // The provider may have rotated its keys since they were cached
+    ({ document, jwks } = await discoverIssuer(settings.issuer, { refresh: true }));
+    key = findSigningKey(jwks, header.kid);
+  }
+  if (!key) {
+    throw new Error('ID token is signed with an unknown key');
+  }
+
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ID_TOKEN_ALGORITHMS,
+    issuer: document.issuer, // As published, which may differ from OIDC_ISSUER by a trailing slash
+    audience: settings.clientId,
+    clockTolerance: CLOCK_TOLERANCE_SECONDS,
+  });
+
+  if (!nonce || claims.nonce !== nonce) {
+    throw new Error('ID token nonce does not match this sign-in');
+  }
+  if (!claims.sub) {
+    throw new Error('ID token has no subject');
+  }
+  return claims;
+}
@@ -0,0 +1,78 @@
+// Learn progress merge rules
+// Progress only moves forward: syncing merges the uploaded copy into the stored one instead of replacing it,
+// so an older device cannot undo newer work. Kept free of the database so the rules can be tested on their own.
+
+import { isLearnModule } from './learnScores.js';
+
+const SECTIONS = ['overview', 'quickExplainer', 'mitigation', 'interactiveLab', 'quiz'];
+// Date.prototype.toISOString() output, which is what the frontend stores and what sorts by time as a string
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
+
+/**
+ * Whether a value is a toISOString() date.
+ * The round trip rejects dates that do not exist (e.g. February 30th), which Date would roll over.
+ */
+export function isIsoDate(value) {
+  return typeof value === 'string' && ISO_DATE_PATTERN.test(value)
+    && !Number.isNaN(Date.parse(value)) && new Date(value).toISOString().slice(0, 19) === value.slice(0, 19);
+}
+
+/**
+ * Why an uploaded module record cannot be stored, or null if it is fine
+ */
+export function validateModuleEntry(moduleId, entry) {
+  const { quizScore, lastAccessedDate } = entry;
+  if (quizScore != null && !(typeof quizScore === 'number' && quizScore >= 0 && quizScore <= 100)) {
+    return `moduleProgress.${moduleId}.quizScore must be a number from 0 to 100`;
+  }
+  if (lastAccessedDate != null && !isIsoDate(lastAccessedDate)) {
+    return `moduleProgress.${moduleId}.lastAccessedDate must be an ISO date`;
+  }
+  return null;
+}
+
+/**
+ * Merge two records of one module section by section (mirrors mergeModuleProgress in the
+ * frontend's lib/userProgress.ts): a section done on either copy stays done, and the best
+ * quiz score and latest access win.
+ */
+function mergeModule(moduleId, a, b) {
+  const sectionsCompleted = {};
+  for (const section of SECTIONS) {
+    sectionsCompleted[section] = a.sectionsCompleted?.[section] === true || b.sectionsCompleted?.[section] === true;
+  }
+  const completed = a.completed === true || b.completed === true;
+  const scores = [a.quizScore, b.quizScore].filter((score) => typeof score === 'number');
+  const dates = [a.lastAccessedDate, b.lastAccessedDate].filter((date) => typeof date === 'string');
+
+  return {
+    moduleId: Number(moduleId),
+    sectionsCompleted,
+    progress: completed ? 100 : Math.max(Number(a.progress) || 0, Number(b.progress) || 0),
+    quizScore: scores.length > 0 ? Math.max(...scores) : null,
+    completed,
+    lastAccessedDate: dates.sort().at(-1) ?? null,
+  };
+}
+
+/**
+ * Union of two completedModules lists, keeping only Learn modules, in id order
+ */
+export function mergeCompletedModules(stored = [], incoming = []) {
+  return [...new Set([...stored, ...incoming])]
+    .filter(isLearnModule)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Merge two moduleProgress maps module by module
+ */
+export function mergeModuleProgress(stored = {}, incoming = {}) {
+  const merged = { ...stored };
+  for (const [moduleId, entry] of Object.entries(incoming)) {
+    if (!isLearnModule(moduleId) || typeof entry !== 'object' || entry === null) continue;
+
+    merged[moduleId] = mergeModule(moduleId, merged[moduleId] || {}, entry);
+  }
+  return merged;
+}
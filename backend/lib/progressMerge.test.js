@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isIsoDate, validateModuleEntry, mergeCompletedModules, mergeModuleProgress } from './progressMerge.js';
+
+const NO_SECTIONS = { overview: false, quickExplainer: false, mitigation: false, interactiveLab: false, quiz: false };
+
+test('isIsoDate accepts toISOString output only', () => {
+  assert.equal(isIsoDate('2026-10-19T08:30:00.000Z'), true);
+  assert.equal(isIsoDate('2026-10-19T08:30:00Z'), true);
+  assert.equal(isIsoDate(new Date().toISOString()), true);
+
+  assert.equal(isIsoDate('2026-02-30T08:30:00.000Z'), false);
+  assert.equal(isIsoDate('2026-10-19'), false);
+  assert.equal(isIsoDate('2026-10-19T08:30:00+02:00'), false);
+  assert.equal(isIsoDate('Mon Oct 19 2026'), false);
+  assert.equal(isIsoDate(1760862600000), false);
+  assert.equal(isIsoDate(null), false);
+});
+
+test('validateModuleEntry rejects out-of-range scores and malformed dates', () => {
+  assert.equal(validateModuleEntry('1', {}), null);
+  assert.equal(validateModuleEntry('1', { quizScore: null, lastAccessedDate: null }), null);
+  assert.equal(validateModuleEntry('1', { quizScore: 0, lastAccessedDate: '2026-10-19T08:30:00.000Z' }), null);
+  assert.equal(validateModuleEntry('1', { quizScore: 100 }), null);
+
+  assert.match(validateModuleEntry('1', { quizScore: 101 }), /moduleProgress\.1\.quizScore/);
+  assert.match(validateModuleEntry('1', { quizScore: -1 }), /quizScore/);
+  assert.match(validateModuleEntry('1', { quizScore: '90' }), /quizScore/);
+  assert.match(validateModuleEntry('2', { lastAccessedDate: 'yesterday' }), /moduleProgress\.2\.lastAccessedDate/);
+});
+
+test('mergeCompletedModules keeps the union of Learn modules in order', () => {
+  assert.deepEqual(mergeCompletedModules([3, 1], [2, 3]), [1, 2, 3]);
+  assert.deepEqual(mergeCompletedModules([1], [99, 0]), [1]);
+  assert.deepEqual(mergeCompletedModules(undefined, [4]), [4]);
+  assert.deepEqual(mergeCompletedModules([5], undefined), [5]);
+});
+
+test('a section done on either copy stays done', () => {
+  const merged = mergeModuleProgress(
+    { 1: { sectionsCompleted: { ...NO_SECTIONS, overview: true, quiz: true }, progress: 40 } },
+    { 1: { sectionsCompleted: { ...NO_SECTIONS, mitigation: true }, progress: 20 } }
+  );
+
+  assert.deepEqual(merged[1].sectionsCompleted, { ...NO_SECTIONS, overview: true, mitigation: true, quiz: true });
+  assert.equal(merged[1].progress, 40);
+  assert.equal(merged[1].completed, false);
+  assert.equal(merged[1].moduleId, 1);
+});
+
+test('a completed module stays completed at 100% progress', () => {
+  const merged = mergeModuleProgress(
+    { 2: { completed: true, progress: 100 } },
+    { 2: { completed: false, progress: 60 } }
+  );
+
+  assert.equal(merged[2].completed, true);
+  assert.equal(merged[2].progress, 100);
+});
+
+test('the best quiz score and the latest access win', () => {
+  const merged = mergeModuleProgress(
+    { 3: { quizScore: 90, lastAccessedDate: '2026-10-19T08:30:00.000Z' } },
+    { 3: { quizScore: 70, lastAccessedDate: '2026-10-20T08:30:00.000Z' } }
+  );
+
+  assert.equal(merged[3].quizScore, 90);
+  assert.equal(merged[3].lastAccessedDate, '2026-10-20T08:30:00.000Z');
+
+  const unscored = mergeModuleProgress({}, { 3: { progress: 10 } });
+  assert.equal(unscored[3].quizScore, null);
+  assert.equal(unscored[3].lastAccessedDate, null);
+});
+
+test('modules outside the Learn catalog and malformed entries are ignored', () => {
+  const stored = { 1: { completed: true, progress: 100 } };
+  const merged = mergeModuleProgress(stored, { 99: { progress: 50 }, 4: null, 5: 'done' });
+
+  assert.deepEqual(Object.keys(merged), ['1']);
+  assert.equal(merged[1], stored[1]);
+});
@@ -33,6 +33,10 @@ function xpFor(d) {
     default: return 50;
   }
 }
+// The Play page shows one challenge per Learn module (1-10); a family without one could never be opened
+function isModuleId(value) {
+  return Number.isInteger(value) && value >= 1 && value <= 10;
+}
 function toIndexedLevels(levelsObj) {
   return Object.entries(levelsObj || {})
     .map(([k, v]) => {
@@ -62,7 +66,13 @@ if (json?.challenges?.level3) {
 }
 
 /* ------------------------------ upserts ------------------------------ */
-async function upsertChallenge({ slug, title }) {
+async function upsertChallenge({ slug, title, meta }) {
+  // Challenge-wide metadata served by the catalog endpoint
+  const graderConfig = {
+    vulnerability_id: meta.vulnerability_id ?? null, // frontend module id (Play page card)
+    owasp_category: meta.owasp_category ?? null,
+  };
+
   const existing = await prisma.challenge.findFirst({ where: { slug } });
   if (!existing) {
     return prisma.challenge.create({
@@ -70,7 +80,7 @@ async function upsertChallenge({ slug, title }) {
         slug,
         title,
         isActive: true,
-        graderConfig: null, // challenge-wide config unused for now
+        graderConfig,
       },
     });
   }
@@ -79,6 +89,7 @@ async function upsertChallenge({ slug, title }) {
     data: {
       title,
       isActive: true,
+      graderConfig,
     },
   });
 }
@@ -149,6 +160,14 @@ async function main() {
     return;
   }
 
+  // Check every family before writing anything, so a bad entry never leaves a half-seeded catalog
+  const unreachable = familyKeys.filter((key) => !isModuleId(families[key]?.vulnerability_id));
+  if (unreachable.length) {
+    throw new Error(
+      `Challenge families without a valid vulnerability_id (Learn module 1-10): ${unreachable.join(', ')}`
+    );
+  }
+
   for (const familyKey of familyKeys) {
     const levelsObj = families[familyKey];
     const levels = toIndexedLevels(levelsObj);
@@ -157,7 +176,12 @@ async function main() {
     const slug = kebab(familyKey);     // e.g. "prompt_injection" -> "prompt-injection"
     const title = titleize(familyKey); // e.g. "Prompt Injection"
 
-    const challenge = await upsertChallenge({ slug, title });
+    const meta = {
+      vulnerability_id: levelsObj.vulnerability_id,
+      owasp_category: levelsObj.owasp_category,
+    };
+
+    const challenge = await upsertChallenge({ slug, title, meta });
 
     // Upsert present levels
     const presentIndexes = new Set();
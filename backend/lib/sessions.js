@@ -0,0 +1,97 @@
+// Server-side session records
+// Every JWT carries the id of a Session row (`sid`). The token is only accepted while its session
+// exists and has not been revoked, so signing out elsewhere takes effect on the next request.
+
+import crypto from 'crypto';
+import { PrismaClient } from '../generated/prisma/index.js';
+import { generateToken, getTokenExpiry, verifyToken } from './auth.js';
+
+const prisma = new PrismaClient();
+
+// Last-seen data is written at most this often per session, not on every request
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+const USER_AGENT_MAX_LENGTH = 512;
+
+function requestDevice(req) {
+  return {
+    ip: req.ip || null,
+    userAgent: req.headers['user-agent']?.slice(0, USER_AGENT_MAX_LENGTH) || null,
+  };
+}
+
+/**
+ * Start a session for a user who just signed in; returns its token
+ */
+export async function createSession(user, req) {
+  // The id goes into the token, so it is chosen before the row exists
+  const sessionId = crypto.randomUUID();
+  const token = generateToken(user.id, user.email, user.role, sessionId);
+
+  // Expired sessions are no use to anyone; tidy them up as new ones start
+  await prisma.session.deleteMany({
+    where: { userId: user.id, expiresAt: { lt: new Date() } },
+  });
+  await prisma.session.create({
+    data: {
+      id: sessionId,
+      userId: user.id,
+      ...requestDevice(req),
+      expiresAt: getTokenExpiry(token),
+    },
+  });
+  return token;
+}
+
+/**
+ * Issue a new token for an existing session (refresh, or after the user's email changed)
+ */
+export async function renewSession(sessionId, user) {
+  const token = generateToken(user.id, user.email, user.role, sessionId);
+  await prisma.session.update({
+    where: { id: sessionId },
+    data: { expiresAt: getTokenExpiry(token) },
+  });
+  return token;
+}
+
+/**
+ * Verify a token and check that its session is still active; returns the decoded token.
+ * Throws 'Invalid or expired token' (like verifyToken) for revoked sessions and tokens without one.
+ */
+export async function verifySessionToken(token, req) {
+  const decoded = verifyToken(token);
+  if (!decoded.sid) {
+    throw new Error('Invalid or expired token');
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { id: decoded.sid },
+    select: { userId: true, lastSeenAt: true, revokedAt: true },
+  });
+  if (!session || session.revokedAt || session.userId !== decoded.userId) {
+    throw new Error('Invalid or expired token');
+  }
+
+  if (Date.now() - session.lastSeenAt.getTime() > LAST_SEEN_INTERVAL_MS) {
+    await prisma.session.update({
+      where: { id: decoded.sid },
+      data: { lastSeenAt: new Date(), ...requestDevice(req) },
+    });
+  }
+  return decoded;
+}
+
+/**
+ * Revoke a user's active sessions, optionally keeping one (e.g. the current device); returns how many were revoked
+ */
+export async function revokeUserSessions(userId, { exceptSessionId } = {}) {
+  const { count } = await prisma.session.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
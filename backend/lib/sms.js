@@ -0,0 +1,63 @@
+// SMS delivery
+// Pluggable transport so phone verification codes work without an SMS provider.
+// SMS_TRANSPORT=outbox (default) writes each message to MAIL_OUTBOX_DIR; SMS_TRANSPORT=console logs it.
+// Production deployments register their own transport with setSmsTransport().
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { logger } from './logger.js';
+
+const DEFAULT_OUTBOX_DIR = 'outbox';
+
+/**
+ * Write each message to a text file in the outbox directory (next to outgoing mail)
+ */
+export function createOutboxSmsTransport(dir = process.env.MAIL_OUTBOX_DIR || DEFAULT_OUTBOX_DIR) {
+  return {
+    name: 'outbox',
+    async send(message) {
+      await fs.mkdir(dir, { recursive: true });
+      const safeTo = message.to.replace(/[^0-9+]/g, '_');
+      const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-sms-${safeTo}.txt`);
+      await fs.writeFile(file, `To: ${message.to}\nDate: ${new Date().toUTCString()}\n\n${message.text}\n`, 'utf8');
+      logger.info({ to: message.to, file }, 'SMS written to outbox');
+    },
+  };
+}
+
+/**
+ * Log each message (dev only - the body contains verification codes)
+ */
+export function createConsoleSmsTransport() {
+  return {
+    name: 'console',
+    async send(message) {
+      console.log(`\n--- sms to ${message.to} ---\n${message.text}\n--- end sms ---\n`);
+    },
+  };
+}
+
+let transport = null;
+
+function getTransport() {
+  if (!transport) {
+    transport = process.env.SMS_TRANSPORT === 'console'
+      ? createConsoleSmsTransport()
+      : createOutboxSmsTransport();
+  }
+  return transport;
+}
+
+/**
+ * Replace the SMS transport (any object with `async send({ to, text })`)
+ */
+export function setSmsTransport(next) {
+  transport = next;
+}
+
+/**
+ * Send a text message through the configured transport
+ */
+export async function sendSms({ to, text }) {
+  await getTransport().send({ to, text });
+}
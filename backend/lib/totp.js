@@ -0,0 +1,156 @@
+// TOTP (RFC 6238) for multi-factor authentication
+// Codes are 6 digits over 30-second steps with HMAC-SHA1, which every authenticator app supports.
+// Secrets are encrypted with AES-256-GCM before they are stored; set MFA_ENCRYPTION_KEY in production
+// (any long random string - it is hashed to a 256-bit key). Without it the JWT secret is used.
+
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const SECRET_BYTES = 20;
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next step too, for clock drift between phone and server
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+export const MFA_ISSUER = process.env.MFA_ISSUER || 'USDA AI Red Team';
+
+const ENCRYPTION_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.MFA_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-in-production')
+  .digest();
+
+function base32Encode(buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(text) {
+  const clean = text.replace(/[\s=-]/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 secret');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a new base32 TOTP secret
+ */
+export function generateTotpSecret() {
+  return base32Encode(crypto.randomBytes(SECRET_BYTES));
+}
+
+/**
+ * The code for a secret at a given time step
+ */
+function codeForStep(secret, step) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+/**
+ * The current time step
+ */
+export function currentTotpStep(now = Date.now()) {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/**
+ * Check a code against a secret.
+ * Returns the matching time step, or null. Steps at or before `lastUsedStep` are refused so a code works once.
+ */
+export function verifyTotp(secret, code, lastUsedStep = null) {
+  const normalized = String(code || '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const now = currentTotpStep();
+  for (let step = now - DRIFT_STEPS; step <= now + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = codeForStep(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * otpauth:// URI that authenticator apps read from the enrolment QR code
+ */
+export function buildOtpauthUri(secret, accountName) {
+  const label = encodeURIComponent(`${MFA_ISSUER}:${accountName}`);
+  // Spaces must be %20 rather than "+" for some authenticator apps
+  const params = Object.entries({
+    secret,
+    issuer: MFA_ISSUER,
+    algorithm: 'SHA1',
+    digits: DIGITS,
+    period: STEP_SECONDS,
+  }).map(([key, value]) => `${key}=${encodeURIComponent(value)}`);
+  return `otpauth://totp/${label}?${params.join('&')}`;
+}
+
+/**
+ * Generate single-use recovery codes (shown to the user once; store only their hashes)
+ */
+export function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(crypto.randomBytes(5)).toLowerCase();
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+}
+
+/**
+ * Normalize a recovery code as typed (case, spaces and dashes do not matter)
+ */
+export function normalizeRecoveryCode(code) {
+  const clean = String(code || '').toLowerCase().replace(/[\s-]/g, '');
+  return clean.length === 8 ? `${clean.slice(0, 4)}-${clean.slice(4)}` : clean;
+}
+
+/**
+ * Encrypt a TOTP secret for storage
+ */
+export function encryptSecret(secret) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('base64')).join('.');
+}
+
+/**
+ * Decrypt a stored TOTP secret
+ */
+export function decryptSecret(stored) {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  currentTotpStep,
+  verifyTotp,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+  encryptSecret,
+  decryptSecret,
+} from './totp.js';
+
+// The SHA-1 seed from RFC 6238 appendix B ("12345678901234567890"), base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+// RFC 6238 appendix B lists 8-digit codes; 6-digit codes are their last six digits
+const RFC_VECTORS = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130'],
+];
+
+const atTime = (t, seconds) => t.mock.timers.enable({ apis: ['Date'], now: seconds * 1000 });
+
+for (const [seconds, code] of RFC_VECTORS) {
+  test(`verifyTotp accepts the RFC 6238 code at T=${seconds}`, (t) => {
+    atTime(t, seconds);
+    assert.equal(verifyTotp(RFC_SECRET, code), currentTotpStep());
+  });
+}
+
+test('verifyTotp allows one step of clock drift either way', (t) => {
+  const step = Math.floor(1111111109 / 30);
+  atTime(t, 1111111109 + 30);
+  assert.equal(verifyTotp(RFC_SECRET, '081804'), step);
+  t.mock.timers.setTime((1111111109 - 30) * 1000);
+  assert.equal(verifyTotp(RFC_SECRET, '081804'), step);
+  t.mock.timers.setTime((1111111109 + 60) * 1000);
+  assert.equal(verifyTotp(RFC_SECRET, '081804'), null);
+});
+
+test('verifyTotp refuses steps at or before the last used one', (t) => {
+  atTime(t, 1111111109);
+  const step = verifyTotp(RFC_SECRET, '081804');
+  assert.equal(step, currentTotpStep());
+
+  assert.equal(verifyTotp(RFC_SECRET, '081804', step), null);
+  assert.equal(verifyTotp(RFC_SECRET, '081804', step + 1), null);
+  assert.equal(verifyTotp(RFC_SECRET, '081804', step - 1), step);
+});
+
+test('verifyTotp ignores spaces and rejects anything but six digits', (t) => {
+  atTime(t, 59);
+  assert.equal(verifyTotp(RFC_SECRET, '287 082'), 1);
+  assert.equal(verifyTotp(RFC_SECRET, '94287082'), null);
+  assert.equal(verifyTotp(RFC_SECRET, '28708a'), null);
+  assert.equal(verifyTotp(RFC_SECRET, ''), null);
+  assert.equal(verifyTotp(RFC_SECRET, null), null);
+});
+
+test('generateRecoveryCodes returns ten distinct codes already in normalized form', () => {
+  const codes = generateRecoveryCodes();
+
+  assert.equal(codes.length, 10);
+  assert.equal(new Set(codes).size, codes.length);
+  for (const code of codes) {
+    assert.match(code, /^[a-z2-7]{4}-[a-z2-7]{4}$/);
+    assert.equal(normalizeRecoveryCode(code), code);
+  }
+});
+
+test('normalizeRecoveryCode matches a recovery code however it is typed', () => {
+  for (const typed of ['abcd-2345', 'ABCD-2345', 'abcd2345', ' abcd 2345 ', 'ab-cd-23-45']) {
+    assert.equal(normalizeRecoveryCode(typed), 'abcd-2345');
+  }
+  assert.equal(normalizeRecoveryCode('abc'), 'abc');
+  assert.equal(normalizeRecoveryCode(undefined), '');
+});
+
+test('encryptSecret round-trips and uses a fresh IV each time', () => {
+  const first = encryptSecret(RFC_SECRET);
+  const second = encryptSecret(RFC_SECRET);
+
+  assert.notEqual(first, second);
+  assert.equal(decryptSecret(first), RFC_SECRET);
+  assert.equal(decryptSecret(second), RFC_SECRET);
+
+  const [iv, tag, encrypted] = first.split('.');
+  const tampered = Buffer.from(encrypted, 'base64');
+  tampered[0] ^= 1;
+  assert.throws(() => decryptSecret([iv, tag, tampered.toString('base64')].join('.')));
+});
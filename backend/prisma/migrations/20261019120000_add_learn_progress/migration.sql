@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "learnProgress" JSONB,
+ADD COLUMN     "learnScore" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "ContactChannel" AS ENUM ('EMAIL', 'PHONE');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "phoneNumber" TEXT;
+
+-- CreateTable
+CREATE TABLE "ContactVerification" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "channel" "ContactChannel" NOT NULL,
+    "target" TEXT NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContactVerification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContactVerification_userId_channel_key" ON "ContactVerification"("userId", "channel");
+
+-- AddForeignKey
+ALTER TABLE "ContactVerification" ADD CONSTRAINT "ContactVerification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ContactVerification" ADD COLUMN     "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
@@ -1,7 +1,9 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Header } from "./components/shared/Header";
 import { Footer } from "./components/shared/Footer";
 import { AuthModal } from "./components/auth/AuthModal";
+import { AccountMigrationDialog } from "./components/auth/AccountMigrationDialog";
+import { CommandPalette } from "./components/shared/CommandPalette";
 import { LandingPage } from "./pages/LandingPage";
 import { DashboardPage } from "./pages/DashboardPage";
 import { LearnPage } from "./pages/LearnPage";
@@ -11,16 +13,44 @@ import { LeaderboardPage } from "./pages/LeaderboardPage";
 import { ProfilePage } from "./pages/ProfilePage";
 import { SimulationPage } from "./pages/SimulationPage";
 import { VulnerabilitiesPage } from "./pages/VulnerabilitiesPage";
+import { AdminPage } from "./pages/AdminPage";
 import { UserProvider, useUser } from "./context/UserContext";
 import { Toaster } from "./components/ui/sonner";
-
-type Page = "home" | "learn" | "modules" | "play" | "leaderboard" | "profile" | "simulation" | "vulnerabilities";
+import { toast } from "sonner@2.0.3";
+import { type Page, type Route, type NavigateFn, toRoute, getCurrentRoute, commitRoute, parseRoute } from "./lib/routes";
+import { readSsoCallback, getSsoReturnPath } from "./lib/sso";
+import { isGuestRoute } from "./lib/guestSession";
 
 function AppContent() {
-  const { user, loading, userProgress, updateProgress, completeQuiz } = useUser();
+  const { user, loading, userProgress, updateProgress, completeQuiz, sessionExpired, resolveSessionExpiry, startGuest } = useUser();
   const [showAuthModal, setShowAuthModal] = useState(false);
-  const [currentPage, setCurrentPage] = useState<Page>("home");
-  const [moduleData, setModuleData] = useState<any>(null);
+  const [route, setRoute] = useState<Route>(() => getCurrentRoute());
+  const currentPage = route.page;
+  // Destination (page + payload) a logged-out user asked for, restored after sign-in
+  const pendingRouteRef = useRef<Route | null>(null);
+  // Token from a password reset email link (/?reset_token=...)
+  const [resetToken, setResetToken] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("reset_token")
+  );
+
+  // Response from the identity provider after "Sign in with organisation SSO" (/auth/callback?code=...)
+  const [ssoCallback, setSsoCallback] = useState(() => readSsoCallback());
+
+  // Open the "new password" form for reset links, and drop the token from the address bar
+  useEffect(() => {
+    if (!resetToken) return;
+    window.history.replaceState(null, "", window.location.pathname);
+    setShowAuthModal(true);
+  }, []);
+
+  // Finish SSO sign in, then resume the page it was started from.
+  // The callback URL is not a route, so the initial route commit replaces it (and its code) with home.
+  useEffect(() => {
+    if (!ssoCallback) return;
+    const returnPath = getSsoReturnPath();
+    if (returnPath) pendingRouteRef.current = parseRoute(returnPath);
+    setShowAuthModal(true);
+  }, []);
   
   // Theme state
   const [isDarkMode, setIsDarkMode] = useState(() => {
@@ -58,54 +88,103 @@ function AppContent() {
     return () => window.removeEventListener("keydown", handleKeyDown);
   }, []);
 
+  // Keep the route in sync with browser back/forward
+  useEffect(() => {
+    // Normalise the initial URL (e.g. unknown paths or /play/1 -> /play/1/level/1)
+    commitRoute(route, true);
+
+    const handlePopState = () => {
+      setRoute(getCurrentRoute());
+    };
+
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, []);
+
   const toggleTheme = () => {
     setIsDarkMode(!isDarkMode);
   };
 
   // Protected pages that require authentication
-  const protectedPages: Page[] = ["learn", "modules", "play", "leaderboard", "profile", "simulation", "vulnerabilities"];
+  const protectedPages: Page[] = ["learn", "modules", "play", "leaderboard", "profile", "simulation", "vulnerabilities", "admin"];
 
-  // Check authentication state
+  // Check authentication state (guests count as signed in for the pages they may use)
   const isAuthenticated = user !== null;
+  const isGuest = !!user?.isAnonymous;
 
-  const handleNavigate = (page: string, data?: any) => {
-    const targetPage = page as Page;
+  // Commit a route without any auth checks
+  const goToRoute = (nextRoute: Route) => {
+    commitRoute(nextRoute);
+    setRoute(nextRoute);
+    // Smooth scroll to top with a slight delay for page transition
+    setTimeout(() => {
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    }, 50);
+  };
+
+  const handleNavigate: NavigateFn = (page, ...args) => {
+    const nextRoute = toRoute(page, ...args);
     
     // Check if page is protected and user is not authenticated
-    if (protectedPages.includes(targetPage) && !isAuthenticated) {
+    if (protectedPages.includes(page) && !isAuthenticated) {
+      // Remember where the user was headed so we can resume after sign-in
+      pendingRouteRef.current = nextRoute;
       setShowAuthModal(true);
       return;
     }
 
-    setCurrentPage(targetPage);
-    if (data) {
-      setModuleData(data);
+    // Guests are asked to create an account for anything past the Learn modules and first levels
+    if (isGuest && !isGuestRoute(nextRoute)) {
+      pendingRouteRef.current = nextRoute;
+      setShowAuthModal(true);
+      toast.info("Create a free account to unlock this.");
+      return;
     }
-    // Smooth scroll to top with a slight delay for page transition
-    setTimeout(() => {
-      window.scrollTo({ top: 0, behavior: 'smooth' });
-    }, 50);
+
+    // Admin links are only shown to admins, but the palette or a stale link may still ask
+    if (page === "admin" && user?.role !== "ADMIN") {
+      toast.error("The admin area is only available to instructors.");
+      return;
+    }
+
+    goToRoute(nextRoute);
   };
 
   const handleCloseAuthModal = () => {
     setShowAuthModal(false);
+    setResetToken(null);
+    setSsoCallback(null);
   };
 
   const handleOpenAuthModal = () => {
+    // Explicit login (header/landing button) has no destination to resume
+    pendingRouteRef.current = null;
     setShowAuthModal(true);
   };
 
   const handleLoginSuccess = () => {
-    // After successful login, redirect to leaderboard
+    // After successful login, resume the originally requested page (or go home)
     setShowAuthModal(false)
-    handleNavigate("home");
+    setResetToken(null);
+    setSsoCallback(null);
+    // A deep link the modal was guarding may already have been cleared by the auth effect below
+    const destination = pendingRouteRef.current || (!isAuthenticated && protectedPages.includes(currentPage) ? route : { page: "home" });
+    pendingRouteRef.current = null;
+    goToRoute(destination);
+  };
+
+  const handleStartGuest = () => {
+    startGuest();
+    goToRoute({ page: "learn" });
+    toast.success("You're exploring as a guest. Create an account any time to keep your progress.");
   };
 
   const handleLogout = () => {
     // Close auth modal if it's open
     setShowAuthModal(false);
+    pendingRouteRef.current = null;
     // Navigate to landing page
-    setCurrentPage("home");
+    goToRoute({ page: "home" });
   };
 
   const handleModuleComplete = (moduleId: number, score: number) => {
@@ -124,15 +203,28 @@ function AppContent() {
   };
 
   // Show auth modal if trying to access protected page without auth
-  // But don't show modal when user just logged out (redirecting to home)
+  // But don't show modal when user just logged out (redirecting to home), or before the stored session is checked
   useEffect(() => {
+    if (loading) return;
+
     if (protectedPages.includes(currentPage) && !isAuthenticated && currentPage !== "home") {
+      // Deep link to a protected page: resume it once the user signs in
+      pendingRouteRef.current = route;
       setShowAuthModal(true);
-    } else if (currentPage === "home" && !isAuthenticated) {
-      // Explicitly close modal when on landing page
+    } else if (isGuest && !isGuestRoute(route)) {
+      // Deep link past what guests can use: offer sign up, then resume it
+      pendingRouteRef.current = route;
+      goToRoute({ page: "home" });
+      setShowAuthModal(true);
+    } else if (currentPage === "home" && !isAuthenticated && !resetToken && !ssoCallback) {
+      // Explicitly close modal when on landing page (unless a reset or SSO link opened it)
+      setShowAuthModal(false);
+    } else if (isAuthenticated && pendingRouteRef.current === route) {
+      // Signed in on the page the modal was guarding: it is theirs to see now
+      pendingRouteRef.current = null;
       setShowAuthModal(false);
     }
-  }, [currentPage, isAuthenticated]);
+  }, [route, isAuthenticated, isGuest, loading]);
 
   // Show loading screen while checking auth state
   if (loading) {
@@ -183,14 +275,26 @@ function AppContent() {
         />
       )}
 
+      {/* Command Palette (Ctrl/Cmd+K) - Only available when authenticated */}
+      {isAuthenticated && (
+        <CommandPalette
+          onNavigate={handleNavigate}
+          isDarkMode={isDarkMode}
+          onToggleTheme={toggleTheme}
+          onLogout={handleLogout}
+        />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 relative z-10">
-        {!isAuthenticated && currentPage === "home" && (
+        {/* Logged-out visitors always see the landing page; deep links to protected pages open the auth modal on top */}
+        {!isAuthenticated && (
           <LandingPage 
             onNavigate={handleNavigate}
             isDarkMode={isDarkMode}
             onToggleTheme={toggleTheme}
             onOpenAuthModal={handleOpenAuthModal}
+            onStartGuest={handleStartGuest}
           />
         )}
         
@@ -207,10 +311,10 @@ function AppContent() {
           />
         )}
         
-        {isAuthenticated && currentPage === "modules" && (
+        {isAuthenticated && route.page === "modules" && (
           <ModulePage
             onNavigate={handleNavigate}
-            vulnerabilityId={moduleData?.vulnerabilityId}
+            vulnerabilityId={route.vulnerabilityId}
             onModuleComplete={handleModuleComplete}
             onSectionUpdate={handleModuleSectionUpdate}
             onQuizComplete={handleQuizComplete}
@@ -218,17 +322,22 @@ function AppContent() {
           />
         )}
         
-        {isAuthenticated && currentPage === "play" && (
-          <PlayPage onNavigate={handleNavigate} />
+        {isAuthenticated && route.page === "play" && (
+          <PlayPage
+            onNavigate={handleNavigate}
+            vulnerabilityId={route.vulnerabilityId}
+            level={route.level}
+          />
         )}
         
         {isAuthenticated && currentPage === "leaderboard" && (
           <LeaderboardPage onNavigate={handleNavigate} />
         )}
         
-        {isAuthenticated && currentPage === "profile" && user && (
+        {isAuthenticated && route.page === "profile" && user && (
           <ProfilePage 
             onNavigate={handleNavigate}
+            userId={route.userId}
           />
         )}
         
@@ -242,17 +351,39 @@ function AppContent() {
             completedModules={userProgress.completedModules}
           />
         )}
+
+        {isAuthenticated && currentPage === "admin" && (
+          <AdminPage onNavigate={handleNavigate} />
+        )}
       </main>
 
       {/* Footer */}
       <Footer />
 
       {/* Auth Modal */}
-      <AuthModal 
-        isOpen={showAuthModal} 
-        onClose={handleCloseAuthModal}
-        onLoginSuccess={handleLoginSuccess}
-      />
+      {sessionExpired ? (
+        // Re-authenticate in place: pending requests are replayed, dismissing signs out
+        <AuthModal
+          isOpen
+          mode="session-expired"
+          onClose={() => {
+            resolveSessionExpiry(false);
+            handleLogout();
+          }}
+          onLoginSuccess={() => resolveSessionExpiry(true)}
+        />
+      ) : (
+        <AuthModal 
+          isOpen={showAuthModal} 
+          onClose={handleCloseAuthModal}
+          onLoginSuccess={handleLoginSuccess}
+          resetToken={resetToken}
+          ssoCallback={ssoCallback}
+        />
+      )}
+
+      {/* Move device-only accounts to the server once it is reachable */}
+      {user && !sessionExpired && <AccountMigrationDialog />}
     </div>
   );
 }
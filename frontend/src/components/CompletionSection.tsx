@@ -1,9 +1,10 @@
 import { Card } from "./ui/card";
 import { Button } from "./ui/button";
 import { Award, ArrowRight, Home, Trophy } from "lucide-react";
+import { type NavigateFn } from "../lib/routes";
 
 interface CompletionSectionProps {
-  onNavigate?: (page: string) => void;
+  onNavigate?: NavigateFn;
   isCompleted?: boolean;
 }
 
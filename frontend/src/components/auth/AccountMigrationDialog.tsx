@@ -0,0 +1,204 @@
+// Offers to move a device-only account to the server
+// Shown once the backend is reachable for users who signed up while it was not
+
+import { useState } from "react";
+import { Dialog, DialogContent, DialogTitle, DialogDescription } from "../ui/dialog";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Alert, AlertDescription } from "../ui/alert";
+import { CloudUpload, X, Loader2, AlertCircle } from "lucide-react";
+import { useUser } from "../../context/UserContext";
+import { useAccountMigration } from "../../hooks/useAccountMigration";
+import { migrateFrontendAccount, type MigrationMode } from "../../lib/accountMigration";
+import { toast } from "sonner@2.0.3";
+import { PasswordStrengthMeter } from "./PasswordStrengthMeter";
+import { validatePassword } from "../../../../shared/passwordPolicy";
+
+export function AccountMigrationDialog() {
+  const { user, setUser, userProgress } = useUser();
+  const { shouldOffer, dismiss } = useAccountMigration();
+  const [mode, setMode] = useState<MigrationMode>("create");
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const switchMode = (next: MigrationMode) => {
+    setMode(next);
+    setError(null);
+    setConfirmPassword("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const passwordError = mode === "create"
+      ? validatePassword(password, { email: user?.email, username: user?.email?.split("@")[0] })
+      : null;
+    if (passwordError) {
+      setError(passwordError);
+      return;
+    }
+
+    if (mode === "create" && password !== confirmPassword) {
+      setError("Passwords do not match");
+      return;
+    }
+
+    setLoading(true);
+    const result = await migrateFrontendAccount(mode, password, userProgress);
+    setLoading(false);
+
+    if (!result.success || !result.user) {
+      setError(result.error || "Could not move your account. Please try again.");
+      return;
+    }
+
+    setPassword("");
+    setConfirmPassword("");
+    setUser({
+      uid: result.user.id,
+      id: undefined,
+      email: result.user.email,
+      displayName: result.user.name || result.user.email.split("@")[0],
+      photoURL: user?.photoURL || null,
+      emailVerified: true,
+      isAnonymous: false,
+      role: result.user.role || "USER",
+    });
+    toast.success("Your account and progress are now saved on the server.");
+  };
+
+  return (
+    <Dialog open={shouldOffer} onOpenChange={(open: boolean) => {
+      if (!open && !loading) {
+        dismiss();
+      }
+    }}>
+      <DialogContent
+        showClose={false}
+        className="sm:max-w-md p-0 gap-0 overflow-hidden bg-card border-2 border-border transition-colors duration-200"
+      >
+        {/* Header */}
+        <div className="bg-[#0A2342] dark:bg-[#1E293B] text-white p-6 pb-8 transition-colors duration-200 relative">
+          <button
+            onClick={dismiss}
+            className="absolute right-4 top-4 rounded-full p-1.5 text-[#E2E8F0] hover:text-teal hover:bg-white/10 transition-all duration-200"
+            aria-label="Close"
+            title="Close"
+            disabled={loading}
+          >
+            <X className="h-5 w-5" />
+          </button>
+
+          <div className="flex items-center gap-3 mb-3">
+            <div className="bg-white/10 rounded-lg p-2 transition-colors duration-200">
+              <CloudUpload className="h-6 w-6 text-white" />
+            </div>
+            <DialogTitle className="text-white text-2xl">Save Your Progress</DialogTitle>
+          </div>
+          <DialogDescription className="text-white/90 text-sm">
+            Your account was created while the server was offline, so it only exists on this device.
+            Move it to the server to earn XP and appear on the leaderboard.
+          </DialogDescription>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 bg-card transition-colors duration-200">
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="migrate-email">Email Address</Label>
+              <Input id="migrate-email" type="email" value={user?.email || ""} readOnly />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="migrate-password">
+                {mode === "create" ? "Choose a Server Password" : "Server Account Password"}
+              </Label>
+              <Input
+                id="migrate-password"
+                type="password"
+                placeholder={mode === "create" ? "At least 8 characters" : "Enter your password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={loading}
+                required
+              />
+              {mode === "create" && (
+                <PasswordStrengthMeter
+                  password={password}
+                  email={user?.email}
+                  username={user?.email?.split("@")[0]}
+                />
+              )}
+            </div>
+
+            {mode === "create" && (
+              <div className="space-y-2">
+                <Label htmlFor="migrate-confirm-password">Confirm Password</Label>
+                <Input
+                  id="migrate-confirm-password"
+                  type="password"
+                  placeholder="Confirm your password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  disabled={loading}
+                  required
+                />
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-teal hover:bg-teal/90 text-white dark:text-white transition-colors duration-200"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Uploading Progress...
+                </>
+              ) : mode === "create" ? (
+                "Create Server Account"
+              ) : (
+                "Link Account"
+              )}
+            </Button>
+
+            <div className="text-center text-sm text-muted-foreground">
+              {mode === "create" ? "Already have a server account?" : "No server account yet?"}{" "}
+              <button
+                type="button"
+                onClick={() => switchMode(mode === "create" ? "link" : "create")}
+                className="text-teal hover:underline"
+                disabled={loading}
+              >
+                {mode === "create" ? "Link it instead" : "Create one"}
+              </button>
+            </div>
+
+            <div className="text-center">
+              <button
+                type="button"
+                onClick={dismiss}
+                className="text-sm text-muted-foreground hover:underline"
+                disabled={loading}
+              >
+                Not now
+              </button>
+            </div>
+          </form>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,28 +2,55 @@
 // Firebase OAuth is configured via environment variables (see README.md)
 // Secrets must be stored in .env file, NEVER in this code
 
-import { useState } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "../ui/dialog";
 import { Button } from "../ui/button";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { Separator } from "../ui/separator";
 import { Alert, AlertDescription } from "../ui/alert";
-import { Shield, X, Mail, Loader2, AlertCircle } from "lucide-react";
+import { Shield, X, Mail, Loader2, AlertCircle, KeyRound, Smartphone, Building2 } from "lucide-react";
 import { useUser, type User } from "../../context/UserContext";
 import { toast } from "sonner@2.0.3";
-import { hybridSignup, hybridSignin } from "../../lib/hybridAuth";
-
-type AuthState = "signin" | "signup" | "forgot";
+import { hybridSignup, hybridSignin, hybridVerifyMfa, type UserAccount } from "../../lib/hybridAuth";
+import { claimGuestProgress } from "../../lib/guestSession";
+import { startSsoSignIn, completeSsoSignIn, linkSsoAccount, type SsoCallback } from "../../lib/sso";
+import { useQuery } from "../../hooks/useQuery";
+import {
+  requestPasswordReset,
+  confirmPasswordReset,
+  fetchSsoConfig,
+  queryKeys,
+  NetworkError,
+  TimeoutError,
+} from "../../utils/api";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "../ui/input-otp";
+import { PasswordStrengthMeter } from "./PasswordStrengthMeter";
+import { validatePassword } from "../../../../shared/passwordPolicy";
+
+// "forgot": request a reset email; "reset": set a new password with the emailed token
+// "mfa": second step of signing in to an account with two-factor authentication
+// "sso-link": confirm an existing account's password before an SSO sign in is linked to it
+type AuthState = "signin" | "signup" | "forgot" | "reset" | "mfa" | "sso-link";
+
+const MFA_CODE_LENGTH = 6;
+
+// "session-expired": re-authenticate the current user without leaving the page
+export type AuthModalMode = "default" | "session-expired";
 
 interface AuthModalProps {
   isOpen: boolean;
   onClose: () => void;
   onLoginSuccess?: () => void;
+  mode?: AuthModalMode;
+  resetToken?: string | null; // From a password reset link; opens the "new password" form
+  ssoCallback?: SsoCallback | null; // From the identity provider redirect; finishes an SSO sign in
 }
 
-export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
-  const { setUser } = useUser();
+export function AuthModal({ isOpen, onClose, onLoginSuccess, mode = "default", resetToken, ssoCallback }: AuthModalProps) {
+  const { user, setUser, userProgress, loading: userLoading } = useUser();
+  const isSessionExpired = mode === "session-expired";
+  const isGuest = !!user?.isAnonymous;
   const [authState, setAuthState] = useState<AuthState>("signin");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -33,8 +60,161 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
     password: "",
     confirmPassword: "",
     mobileNumber: "",
+    resetToken: "",
   });
+  // Shown above the "new password" form after a reset email was requested
+  const [resetNotice, setResetNotice] = useState<string | null>(null);
+  // Second sign-in step: the short-lived token from the password step, and the code typed
+  const [mfaToken, setMfaToken] = useState<string | null>(null);
+  const [mfaCode, setMfaCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  // SSO sign in into an existing account: the link token waiting for that account's password
+  const [ssoLink, setSsoLink] = useState<{ token: string; email: string } | null>(null);
+  // Redirecting away would lose the page a session-expired user is trying to keep
+  const { data: ssoConfig } = useQuery(queryKeys.ssoConfig, fetchSsoConfig, { enabled: isOpen && !isSessionExpired });
+  const handledSsoCallbackRef = useRef<SsoCallback | null>(null);
+
+  // Arriving from a reset link goes straight to choosing a new password
+  useEffect(() => {
+    if (isOpen && resetToken) {
+      setAuthState("reset");
+      setError(null);
+      setResetNotice(null);
+      setFormData((prev) => ({ ...prev, resetToken, password: "", confirmPassword: "" }));
+    }
+  }, [isOpen, resetToken]);
+
+  // Guests usually open the modal to create the account that keeps their progress
+  useEffect(() => {
+    if (isOpen && isGuest && !resetToken) {
+      setAuthState("signup");
+      setError(null);
+    }
+  }, [isOpen, isGuest]);
+
+  // Guest progress follows the guest into the account they sign up or sign in to
+  const claimGuestWork = async (userId: string, isBackendAuth: boolean) => {
+    if (!isGuest) return;
+    const { solvesClaimed } = await claimGuestProgress(userId, userProgress, !!isBackendAuth);
+    if (solvesClaimed > 0) {
+      toast.success(`${solvesClaimed} challenge level${solvesClaimed === 1 ? "" : "s"} from your guest session added to your account.`);
+    }
+  };
+
+  // Re-authentication is always a sign in as the same account
+  useEffect(() => {
+    if (isOpen && isSessionExpired) {
+      setAuthState("signin");
+      setError(null);
+      setFormData((prev) => ({ ...prev, email: user?.email || prev.email, password: "" }));
+    }
+  }, [isOpen, isSessionExpired]);
+
+  // Shared by the password step and the two-factor step
+  const completeSignIn = async (account: UserAccount, isBackendAuth: boolean) => {
+    // Get user ID from localStorage token or from result
+    const userId = account.id || localStorage.getItem('usda_token') || '';
+
+    const userData: User = {
+      uid: userId,
+      id: undefined,
+      email: account.email,
+      displayName: account.displayName || account.email.split('@')[0],
+      photoURL: null,
+      emailVerified: true,
+      isAnonymous: false,
+      role: account.role || "USER",
+    };
+
+    await claimGuestWork(userId, isBackendAuth);
+    setUser(userData);
+    toast.success(`Welcome back, ${account.displayName || account.email}!`);
+
+    // Reset form data
+    setFormData({
+      fullName: "",
+      email: "",
+      password: "",
+      confirmPassword: "",
+      mobileNumber: "",
+      resetToken: "",
+    });
+    setMfaToken(null);
+    setMfaCode("");
+    setSsoLink(null);
+    setError(null);
+    setLoading(false);
+
+    // Session resumed - closing here would count as dismissing (signing out)
+    if (isSessionExpired) {
+      onLoginSuccess?.();
+      return;
+    }
+
+    // Close modal first
+    onClose();
+
+    // Call success callback after a brief delay to ensure modal closes
+    if (onLoginSuccess) {
+      setTimeout(() => {
+        onLoginSuccess();
+      }, 100);
+    }
+  };
+
+  // Shared by the password step, SSO and SSO linking when the account wants a second factor
+  const startMfaStep = (token: string) => {
+    setMfaToken(token);
+    setMfaCode("");
+    setUseRecoveryCode(false);
+    setAuthState("mfa");
+    setLoading(false);
+  };
+
+  // Back from the identity provider: finish signing in once the stored session has been checked
+  useEffect(() => {
+    if (!isOpen || !ssoCallback || userLoading || handledSsoCallbackRef.current === ssoCallback) return;
+    handledSsoCallbackRef.current = ssoCallback;
+    setAuthState("signin");
+    setError(null);
+    setLoading(true);
+
+    completeSsoSignIn(ssoCallback).then(async (result) => {
+      if (result.mfaToken) {
+        startMfaStep(result.mfaToken);
+        return;
+      }
+
+      // The email belongs to an existing account: its password confirms the link
+      if (result.ssoLink) {
+        setSsoLink(result.ssoLink);
+        setFormData((prev) => ({ ...prev, email: result.ssoLink!.email, password: "" }));
+        setAuthState("sso-link");
+        setLoading(false);
+        return;
+      }
+
+      if (!result.success || !result.user) {
+        setError(result.error || "Single sign-on failed. Please try again.");
+        setLoading(false);
+        return;
+      }
+      await completeSignIn(result.user, true);
+    });
+  }, [isOpen, ssoCallback, userLoading]);
 
+  const handleSsoSignIn = async () => {
+    if (!ssoConfig?.enabled) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await startSsoSignIn(ssoConfig);
+      // The page is navigating away; keep the spinner until it does
+    } catch (error: any) {
+      setError(error?.message || "Single sign-on is not available right now");
+      setLoading(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -52,6 +232,11 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
 
         const result = await hybridSignin(formData.email, formData.password);
 
+        if (result.mfaToken) {
+          startMfaStep(result.mfaToken);
+          return;
+        }
+
         if (!result.success || !result.user) {
           setError(result.error || "Sign in failed. Please try again.");
           toast.error(result.error || "Sign in failed");
@@ -59,42 +244,64 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
           return;
         }
 
-        // Get user ID from localStorage token or from result
-        const userId = result.user.id || localStorage.getItem('usda_token') || '';
-        
-        const userData: User = {
-          uid: userId,
-          id: undefined,
-          email: result.user.email,
-          displayName: result.user.displayName || result.user.email.split('@')[0],
-          photoURL: null,
-          emailVerified: true,
-          isAnonymous: false,
-        };
+        await completeSignIn(result.user, !!result.isBackendAuth);
+      } else if (authState === "sso-link") {
+        if (!ssoLink) {
+          setAuthState("signin");
+          setLoading(false);
+          return;
+        }
 
-        setUser(userData);
-        toast.success(`Welcome back, ${result.user.displayName || result.user.email}!`);
-        
-        // Reset form data
-        setFormData({
-          fullName: "",
-          email: "",
-          password: "",
-          confirmPassword: "",
-          mobileNumber: "",
-        });
-        setError(null);
-        setLoading(false);
-        
-        // Close modal first
-        onClose();
+        if (!formData.password) {
+          setError("Please enter your password");
+          setLoading(false);
+          return;
+        }
 
-        // Call success callback after a brief delay to ensure modal closes
-        if (onLoginSuccess) {
-          setTimeout(() => {
-            onLoginSuccess();
-          }, 100);
+        const result = await linkSsoAccount(ssoLink.token, formData.password);
+
+        if (result.mfaToken) {
+          setSsoLink(null);
+          startMfaStep(result.mfaToken);
+          return;
+        }
+
+        if (!result.success || !result.user) {
+          setError(result.error || "Could not link your account. Please try again.");
+          setFormData((prev) => ({ ...prev, password: "" }));
+          setLoading(false);
+          return;
+        }
+
+        await completeSignIn(result.user, true);
+      } else if (authState === "mfa") {
+        if (!mfaToken) {
+          setAuthState("signin");
+          setLoading(false);
+          return;
+        }
+
+        if (!mfaCode.trim()) {
+          setError(useRecoveryCode ? "Please enter a recovery code" : "Please enter the 6-digit code");
+          setLoading(false);
+          return;
         }
+
+        const result = await hybridVerifyMfa(mfaToken, mfaCode.trim());
+
+        if (!result.success || !result.user) {
+          setError(result.error || "Verification failed. Please try again.");
+          setMfaCode("");
+          setLoading(false);
+          return;
+        }
+
+        if (result.recoveryCodesRemaining !== undefined && useRecoveryCode) {
+          toast.warning(result.recoveryCodesRemaining === 0
+            ? "That was your last recovery code. Create new ones on your profile page."
+            : `Recovery code used. ${result.recoveryCodesRemaining} left.`);
+        }
+        await completeSignIn(result.user, true);
       } else if (authState === "signup") {
         // Email/password signup
         if (!formData.email || !formData.password) {
@@ -103,8 +310,12 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
           return;
         }
 
-        if (formData.password.length < 8) {
-          setError("Password must be at least 8 characters long");
+        const passwordError = validatePassword(formData.password, {
+          email: formData.email,
+          username: formData.email.split("@")[0],
+        });
+        if (passwordError) {
+          setError(passwordError);
           setLoading(false);
           return;
         }
@@ -140,8 +351,10 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
           photoURL: null,
           emailVerified: true,
           isAnonymous: false,
+          role: result.user.role || "USER",
         };
 
+        await claimGuestWork(userId, !!result.isBackendAuth);
         setUser(userData);
         toast.success(`Welcome, ${result.user.displayName || result.user.email}! Account created successfully.`);
         
@@ -152,6 +365,7 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
           password: "",
           confirmPassword: "",
           mobileNumber: "",
+          resetToken: "",
         });
         setError(null);
         setLoading(false);
@@ -166,31 +380,87 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
           }, 100);
         }
       } else if (authState === "forgot") {
-        // Forgot password (mock for now)
-        toast.success(`Password reset link sent to ${formData.email}`);
+        if (!formData.email) {
+          setError("Please enter your email address");
+          setLoading(false);
+          return;
+        }
+
+        const result = await requestPasswordReset(formData.email);
+        setResetNotice(`${result.message} Open the link in the email, or paste the reset code below.`);
+        setFormData({ ...formData, password: "", confirmPassword: "", resetToken: "" });
+        setAuthState("reset");
+        setLoading(false);
+      } else if (authState === "reset") {
+        if (!formData.resetToken || !formData.password) {
+          setError("Please fill in all required fields");
+          setLoading(false);
+          return;
+        }
+
+        // The server also compares the password with the account's email and username
+        const passwordError = validatePassword(formData.password);
+        if (passwordError) {
+          setError(passwordError);
+          setLoading(false);
+          return;
+        }
+
+        if (formData.password !== formData.confirmPassword) {
+          setError("Passwords do not match");
+          setLoading(false);
+          return;
+        }
+
+        const result = await confirmPasswordReset(formData.resetToken.trim(), formData.password);
+        toast.success(result.message);
+
+        // Back to sign in with the new password
+        setFormData({ ...formData, password: "", confirmPassword: "", resetToken: "" });
+        setResetNotice(null);
         setAuthState("signin");
+        setLoading(false);
       }
     } catch (error: any) {
       console.error("Authentication error:", error);
-      setError(error.message || "Authentication failed. Please try again.");
-      toast.error(error.message || "Authentication failed");
+      // Password reset has no device-only fallback
+      const message = (authState === "forgot" || authState === "reset")
+        && (error instanceof NetworkError || error instanceof TimeoutError)
+        ? "Password reset needs the training server, which can't be reached right now. Please try again later."
+        : error.message || "Authentication failed. Please try again.";
+      setError(message);
+      toast.error(message);
       setLoading(false);
     }
   };
 
   const getTitle = () => {
+    if (isSessionExpired && authState === "signin") return "Session Expired";
     switch (authState) {
       case "signin": return "Welcome Back";
       case "signup": return "Create Your Account";
       case "forgot": return "Reset Your Password";
+      case "reset": return "Choose a New Password";
+      case "mfa": return "Two-Factor Authentication";
+      case "sso-link": return "Link Your Account";
     }
   };
 
   const getSubtitle = () => {
+    if (isSessionExpired && authState === "signin") {
+      return "Sign in again to pick up where you left off. Your work on this page is kept.";
+    }
     switch (authState) {
       case "signin": return "Sign in to continue your AI Red Team training";
-      case "signup": return "Join USDA AI Center of Excellence training program";
+      case "signup": return isGuest
+        ? "Create an account to keep your guest progress and earn XP"
+        : "Join USDA AI Center of Excellence training program";
       case "forgot": return "Enter your email to receive a password reset link";
+      case "reset": return "Reset links and codes work once and expire after 30 minutes";
+      case "mfa": return useRecoveryCode
+        ? "Enter one of the recovery codes you saved when you turned on two-factor authentication"
+        : "Enter the 6-digit code from your authenticator app";
+      case "sso-link": return "An account with this email already exists. Enter its password once to sign in with your organisation from now on.";
     }
   };
 
@@ -249,6 +519,7 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
                     value={formData.email}
                     onChange={(e) => setFormData({ ...formData, email: e.target.value })}
                     disabled={loading}
+                    readOnly={isSessionExpired && !!user?.email}
                     required
                   />
                 </div>
@@ -293,17 +564,52 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
                   )}
                 </Button>
 
-                <div className="text-center text-sm text-muted-foreground">
-                  Don't have an account?{" "}
-                  <button
-                    type="button"
-                    onClick={() => setAuthState("signup")}
-                    className="text-teal hover:underline"
-                    disabled={loading}
-                  >
-                    Sign Up
-                  </button>
-                </div>
+                {/* Organisation SSO (only when the backend has an identity provider configured) */}
+                {ssoConfig?.enabled && !isSessionExpired && (
+                  <>
+                    <div className="flex items-center gap-3">
+                      <Separator className="flex-1" />
+                      <span className="text-xs text-muted-foreground">or</span>
+                      <Separator className="flex-1" />
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={handleSsoSignIn}
+                      disabled={loading}
+                      className="w-full"
+                    >
+                      <Building2 className="mr-2 h-4 w-4" />
+                      Sign in with {ssoConfig.displayName || "Organisation SSO"}
+                    </Button>
+                  </>
+                )}
+
+                {isSessionExpired ? (
+                  <div className="text-center text-sm text-muted-foreground">
+                    Not you?{" "}
+                    <button
+                      type="button"
+                      onClick={onClose}
+                      className="text-teal hover:underline"
+                      disabled={loading}
+                    >
+                      Sign out instead
+                    </button>
+                  </div>
+                ) : (
+                  <div className="text-center text-sm text-muted-foreground">
+                    Don't have an account?{" "}
+                    <button
+                      type="button"
+                      onClick={() => setAuthState("signup")}
+                      className="text-teal hover:underline"
+                      disabled={loading}
+                    >
+                      Sign Up
+                    </button>
+                  </div>
+                )}
               </>
             )}
 
@@ -347,8 +653,14 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
                     value={formData.password}
                     onChange={(e) => setFormData({ ...formData, password: e.target.value })}
                     disabled={loading}
+                    autoComplete="new-password"
                     required
                   />
+                  <PasswordStrengthMeter
+                    password={formData.password}
+                    email={formData.email}
+                    username={formData.email.split("@")[0]}
+                  />
                 </div>
 
                 {/* Confirm Password Field */}
@@ -418,6 +730,16 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
                   <Mail className="mr-2 h-4 w-4" />
                   Send Reset Link
                 </Button>
+                <div className="text-center text-sm text-muted-foreground">
+                  <button
+                    type="button"
+                    onClick={() => setAuthState("reset")}
+                    className="text-teal hover:underline"
+                    disabled={loading}
+                  >
+                    Already have a reset code?
+                  </button>
+                </div>
                 <div className="text-center text-sm text-muted-foreground">
                   <button
                     type="button"
@@ -431,6 +753,251 @@ export function AuthModal({ isOpen, onClose, onLoginSuccess }: AuthModalProps) {
               </>
             )}
 
+            {/* New Password Form */}
+            {authState === "reset" && (
+              <>
+                {resetNotice && (
+                  <Alert className="mb-2">
+                    <Mail className="h-4 w-4" />
+                    <AlertDescription>{resetNotice}</AlertDescription>
+                  </Alert>
+                )}
+
+                {/* Reset code - prefilled when arriving from the email link */}
+                <div className="space-y-2">
+                  <Label htmlFor="reset-token">Reset Code</Label>
+                  <Input
+                    id="reset-token"
+                    type="text"
+                    placeholder="Paste the code from the email"
+                    value={formData.resetToken}
+                    onChange={(e) => setFormData({ ...formData, resetToken: e.target.value })}
+                    disabled={loading}
+                    readOnly={!!resetToken && formData.resetToken === resetToken}
+                    autoComplete="one-time-code"
+                    required
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="reset-password">New Password</Label>
+                  <Input
+                    id="reset-password"
+                    type="password"
+                    placeholder="At least 8 characters"
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                    disabled={loading}
+                    autoComplete="new-password"
+                    required
+                  />
+                  <PasswordStrengthMeter password={formData.password} />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="reset-confirm-password">Confirm New Password</Label>
+                  <Input
+                    id="reset-confirm-password"
+                    type="password"
+                    placeholder="Confirm your new password"
+                    value={formData.confirmPassword}
+                    onChange={(e) => setFormData({ ...formData, confirmPassword: e.target.value })}
+                    disabled={loading}
+                    autoComplete="new-password"
+                    required
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-teal hover:bg-teal/90 text-white dark:text-white transition-colors duration-200"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Saving...
+                    </>
+                  ) : (
+                    <>
+                      <KeyRound className="mr-2 h-4 w-4" />
+                      Set New Password
+                    </>
+                  )}
+                </Button>
+                <div className="text-center text-sm text-muted-foreground">
+                  <button
+                    type="button"
+                    onClick={() => setAuthState("forgot")}
+                    className="text-teal hover:underline"
+                    disabled={loading}
+                  >
+                    Send a new link
+                  </button>
+                </div>
+                <div className="text-center text-sm text-muted-foreground">
+                  <button
+                    type="button"
+                    onClick={() => setAuthState("signin")}
+                    className="text-teal hover:underline"
+                    disabled={loading}
+                  >
+                    ← Back to Sign In
+                  </button>
+                </div>
+              </>
+            )}
+
+            {/* Two-Factor Step */}
+            {authState === "mfa" && (
+              <>
+                {useRecoveryCode ? (
+                  <div className="space-y-2">
+                    <Label htmlFor="mfa-recovery-code">Recovery Code</Label>
+                    <Input
+                      id="mfa-recovery-code"
+                      type="text"
+                      placeholder="xxxx-xxxx"
+                      value={mfaCode}
+                      onChange={(e) => setMfaCode(e.target.value)}
+                      disabled={loading}
+                      autoComplete="off"
+                      autoFocus
+                      required
+                    />
+                  </div>
+                ) : (
+                  <div className="flex justify-center">
+                    <InputOTP
+                      maxLength={MFA_CODE_LENGTH}
+                      value={mfaCode}
+                      onChange={setMfaCode}
+                      disabled={loading}
+                      inputMode="numeric"
+                      pattern="^[0-9]+$"
+                      autoComplete="one-time-code"
+                      autoFocus
+                    >
+                      <InputOTPGroup>
+                        {Array.from({ length: MFA_CODE_LENGTH }, (_, index) => (
+                          <InputOTPSlot key={index} index={index} />
+                        ))}
+                      </InputOTPGroup>
+                    </InputOTP>
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  disabled={loading || (!useRecoveryCode && mfaCode.length !== MFA_CODE_LENGTH)}
+                  className="w-full bg-teal hover:bg-teal/90 text-white dark:text-white transition-colors duration-200"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    <>
+                      <Smartphone className="mr-2 h-4 w-4" />
+                      Verify
+                    </>
+                  )}
+                </Button>
+                <div className="text-center text-sm text-muted-foreground">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setUseRecoveryCode(!useRecoveryCode);
+                      setMfaCode("");
+                      setError(null);
+                    }}
+                    className="text-teal hover:underline"
+                    disabled={loading}
+                  >
+                    {useRecoveryCode ? "Use your authenticator app" : "Can't use your app? Use a recovery code"}
+                  </button>
+                </div>
+                <div className="text-center text-sm text-muted-foreground">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setMfaToken(null);
+                      setMfaCode("");
+                      setAuthState("signin");
+                    }}
+                    className="text-teal hover:underline"
+                    disabled={loading}
+                  >
+                    ← Back to Sign In
+                  </button>
+                </div>
+              </>
+            )}
+
+            {/* Link SSO to an existing account */}
+            {authState === "sso-link" && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="sso-link-email">Email Address</Label>
+                  <Input
+                    id="sso-link-email"
+                    type="email"
+                    value={formData.email}
+                    disabled={loading}
+                    readOnly
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sso-link-password">Password</Label>
+                  <Input
+                    id="sso-link-password"
+                    type="password"
+                    placeholder="Enter your password"
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                    disabled={loading}
+                    autoComplete="current-password"
+                    autoFocus
+                    required
+                  />
+                </div>
+
+                <Button
+                  type="submit"
+                  disabled={loading}
+                  className="w-full bg-teal hover:bg-teal/90 text-white dark:text-white transition-colors duration-200"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Linking...
+                    </>
+                  ) : (
+                    <>
+                      <Building2 className="mr-2 h-4 w-4" />
+                      Link and Sign In
+                    </>
+                  )}
+                </Button>
+                <div className="text-center text-sm text-muted-foreground">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSsoLink(null);
+                      setFormData({ ...formData, password: "" });
+                      setError(null);
+                      setAuthState("signin");
+                    }}
+                    className="text-teal hover:underline"
+                    disabled={loading}
+                  >
+                    ← Back to Sign In
+                  </button>
+                </div>
+              </>
+            )}
+
             <div className="pt-2 text-center text-xs text-muted-foreground">
               By continuing, you agree to our{" "}
               <a href="#" className="text-teal hover:underline">
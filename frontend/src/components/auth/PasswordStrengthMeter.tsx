@@ -0,0 +1,48 @@
+// Live password strength meter and policy checklist
+// Uses the same policy module as the backend, so what passes here passes on the server
+
+import { CheckCircle2, Circle } from "lucide-react";
+import { evaluatePassword, type PasswordContext } from "../../../../shared/passwordPolicy";
+
+interface PasswordStrengthMeterProps extends PasswordContext {
+  password: string;
+}
+
+const SEGMENT_COUNT = 4;
+
+// Indexed by score (0-4)
+const SCORE_COLORS = ["var(--destructive)", "var(--destructive)", "var(--warning)", "#00a7a7", "var(--success)"];
+
+export function PasswordStrengthMeter({ password, email, username }: PasswordStrengthMeterProps) {
+  if (!password) return null;
+
+  const { score, label, checks } = evaluatePassword(password, { email, username });
+
+  return (
+    <div className="space-y-2" aria-live="polite">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {Array.from({ length: SEGMENT_COUNT }, (_, index) => (
+            <div
+              key={index}
+              className="h-1.5 flex-1 rounded-full bg-muted transition-colors duration-200"
+              style={index < Math.max(score, 1) ? { backgroundColor: SCORE_COLORS[score] } : undefined}
+            />
+          ))}
+        </div>
+        <span className="text-xs whitespace-nowrap" style={{ color: SCORE_COLORS[score] }}>{label}</span>
+      </div>
+      <ul className="grid gap-1">
+        {checks.map((check) => (
+          <li
+            key={check.id}
+            className={`flex items-center gap-2 text-xs ${check.met ? "text-success" : "text-muted-foreground"}`}
+          >
+            {check.met ? <CheckCircle2 className="h-3 w-3" /> : <Circle className="h-3 w-3" />}
+            {check.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
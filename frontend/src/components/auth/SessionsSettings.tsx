@@ -0,0 +1,173 @@
+// Active sessions panel for the profile page
+// Lists the devices signed in to this account and signs them out remotely.
+// A signed-out device's token is rejected by the server on its next request.
+
+import { useState } from "react";
+import { Card } from "../ui/card";
+import { Button } from "../ui/button";
+import { Badge } from "../ui/badge";
+import { useQuery } from "../../hooks/useQuery";
+import { useUser } from "../../context/UserContext";
+import { getTimeElapsed } from "../../lib/moduleUtils";
+import { fetchSessions, revokeSession, revokeOtherSessions, queryKeys, type ActiveSession } from "../../utils/api";
+import { toast } from "sonner@2.0.3";
+import { MonitorSmartphone, Monitor, Smartphone, LogOut, Loader2 } from "lucide-react";
+
+interface SessionsSettingsProps {
+  hasBackendSession: boolean;
+  onLogout?: () => void; // After signing out this device from the list
+}
+
+const MOBILE_PATTERN = /Android|iPhone|iPad|iPod|Mobile/i;
+
+// Good enough to recognise your own devices; the full user agent is shown on hover
+function describeDevice(userAgent?: string | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge"
+    : /OPR\/|Opera/.test(userAgent) ? "Opera"
+    : /Firefox\//.test(userAgent) ? "Firefox"
+    : /Chrome\/|CriOS\//.test(userAgent) ? "Chrome"
+    : /Safari\//.test(userAgent) ? "Safari"
+    : null;
+  const os =
+    /Windows/.test(userAgent) ? "Windows"
+    : /iPhone|iPad|iPod/.test(userAgent) ? "iOS"
+    : /Android/.test(userAgent) ? "Android"
+    : /Mac OS X|Macintosh/.test(userAgent) ? "macOS"
+    : /CrOS/.test(userAgent) ? "ChromeOS"
+    : /Linux/.test(userAgent) ? "Linux"
+    : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || "Unknown device";
+}
+
+export function SessionsSettings({ hasBackendSession, onLogout }: SessionsSettingsProps) {
+  const { logout } = useUser();
+  const { data: sessions, isLoading, error } = useQuery(queryKeys.sessions, fetchSessions, {
+    enabled: hasBackendSession,
+  });
+  // Session id being signed out, or "others"
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const otherSessions = sessions?.filter((session) => !session.current) ?? [];
+
+  const handleRevoke = async (session: ActiveSession) => {
+    setRevoking(session.id);
+    try {
+      if (session.current) {
+        // Signing out here is a normal logout
+        await logout();
+        onLogout?.();
+        return;
+      }
+      await revokeSession(session.id);
+      toast.success(`Signed out ${describeDevice(session.userAgent)}`);
+    } catch (error: any) {
+      toast.error(error?.message || "Could not sign out that session. Please try again.");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setRevoking("others");
+    try {
+      const result = await revokeOtherSessions();
+      toast.success(result.message);
+    } catch (error: any) {
+      toast.error(error?.message || "Could not sign out other sessions. Please try again.");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Card className="p-6 border-2 border-border">
+      <div className="flex items-center gap-2 mb-2">
+        <MonitorSmartphone className="h-5 w-5 text-primary" />
+        <h3 className="text-primary">Sessions</h3>
+      </div>
+
+      {!hasBackendSession ? (
+        <p className="text-sm text-muted-foreground">
+          Session management is available for server accounts. Your account is stored in this browser only.
+        </p>
+      ) : isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading...
+        </div>
+      ) : error || !sessions ? (
+        <p className="text-sm text-muted-foreground">Could not load your sessions. Please try again later.</p>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Devices signed in to your account. If you don't recognise one, sign it out and change your password.
+          </p>
+
+          <div className="space-y-3">
+            {sessions.map((session) => {
+              const DeviceIcon = MOBILE_PATTERN.test(session.userAgent || "") ? Smartphone : Monitor;
+              return (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between gap-3 p-3 border border-border rounded-lg"
+                >
+                  <div className="flex items-center gap-3 min-w-0">
+                    <DeviceIcon className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium truncate" title={session.userAgent || undefined}>
+                          {describeDevice(session.userAgent)}
+                        </p>
+                        {session.current && (
+                          <Badge variant="outline" className="bg-teal/10 border-teal/20" style={{ color: "#00a7a7" }}>
+                            This device
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-sm text-muted-foreground truncate">
+                        {session.ip ? `${session.ip} · ` : ""}
+                        {session.current ? "Active now" : `Last active ${getTimeElapsed(new Date(session.lastSeenAt).getTime())}`}
+                        {" · "}Signed in {new Date(session.createdAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRevoke(session)}
+                    disabled={revoking !== null}
+                    className="gap-2 flex-shrink-0"
+                  >
+                    {revoking === session.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <LogOut className="h-4 w-4" />
+                    )}
+                    Sign Out
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          {otherSessions.length > 0 && (
+            <Button
+              variant="outline"
+              onClick={handleRevokeOthers}
+              disabled={revoking !== null}
+              className="gap-2"
+            >
+              {revoking === "others" ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+              Sign Out All Other Sessions
+            </Button>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
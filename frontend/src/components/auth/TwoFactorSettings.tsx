@@ -0,0 +1,269 @@
+// Two-factor authentication settings for the profile page
+// Enrolment (QR code + confirmation code), recovery codes, and turning it off again.
+// Only server accounts can use it; device-only accounts have nothing to protect on the server.
+
+import { useState } from "react";
+import QRCode from "qrcode";
+import { Card } from "../ui/card";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Badge } from "../ui/badge";
+import { Alert, AlertDescription } from "../ui/alert";
+import { VerificationCodeForm } from "./VerificationCodeForm";
+import { useQuery } from "../../hooks/useQuery";
+import { downloadFile } from "../../lib/accountData";
+import {
+  fetchMfaStatus,
+  startMfaSetup,
+  enableMfa,
+  disableMfa,
+  regenerateRecoveryCodes,
+  queryKeys,
+  type MfaSetup,
+} from "../../utils/api";
+import { toast } from "sonner@2.0.3";
+import { Smartphone, KeyRound, Copy, Download, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+
+interface TwoFactorSettingsProps {
+  hasBackendSession: boolean;
+}
+
+// Changes to an enabled setup need a current code
+type CodeAction = "disable" | "regenerate";
+
+export function TwoFactorSettings({ hasBackendSession }: TwoFactorSettingsProps) {
+  const { data: status, isLoading } = useQuery(queryKeys.mfaStatus, fetchMfaStatus, { enabled: hasBackendSession });
+  const [setup, setSetup] = useState<(MfaSetup & { qrDataUrl: string }) | null>(null);
+  const [starting, setStarting] = useState(false);
+  // Shown once, right after enabling or regenerating
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [codeAction, setCodeAction] = useState<CodeAction | null>(null);
+  const [actionCode, setActionCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleStartSetup = async () => {
+    setStarting(true);
+    try {
+      const next = await startMfaSetup();
+      const qrDataUrl = await QRCode.toDataURL(next.otpauthUri, { margin: 1, width: 192 });
+      setSetup({ ...next, qrDataUrl });
+    } catch (error: any) {
+      toast.error(error?.message || "Could not start two-factor setup. Please try again.");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleEnable = async (code: string) => {
+    try {
+      const codes = await enableMfa(code);
+      setSetup(null);
+      setRecoveryCodes(codes);
+      toast.success("Two-factor authentication is on");
+    } catch (error: any) {
+      toast.error(error?.message || "Could not verify the code");
+      throw error;
+    }
+  };
+
+  const handleCodeAction = async () => {
+    if (!codeAction || !actionCode.trim()) return;
+    setSubmitting(true);
+    try {
+      if (codeAction === "disable") {
+        const result = await disableMfa(actionCode.trim());
+        setRecoveryCodes(null);
+        toast.success(result.message);
+      } else {
+        setRecoveryCodes(await regenerateRecoveryCodes(actionCode.trim()));
+        toast.success("New recovery codes created. The old ones no longer work.");
+      }
+      setCodeAction(null);
+      setActionCode("");
+    } catch (error: any) {
+      toast.error(error?.message || "Could not verify the code");
+      setActionCode("");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const copyRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast.success("Copied to clipboard");
+  };
+
+  const downloadRecoveryCodes = () => {
+    if (!recoveryCodes) return;
+    downloadFile(
+      "usda-ai-redteam-recovery-codes.txt",
+      `USDA AI Red Team recovery codes\nEach code works once.\n\n${recoveryCodes.join("\n")}\n`
+    );
+  };
+
+  return (
+    <Card className="p-6 border-2 border-border">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2">
+          <Smartphone className="h-5 w-5 text-primary" />
+          <h3 className="text-primary">Two-Factor Authentication</h3>
+        </div>
+        {status?.enabled && (
+          <Badge variant="outline" className="bg-teal/10 border-teal/20" style={{ color: "#00a7a7" }}>
+            On
+          </Badge>
+        )}
+      </div>
+
+      {!hasBackendSession ? (
+        <p className="text-sm text-muted-foreground">
+          Two-factor authentication is available for server accounts. Your account is stored in this browser only.
+        </p>
+      ) : isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading...
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {recoveryCodes && (
+            <Alert>
+              <KeyRound className="h-4 w-4" />
+              <AlertDescription>
+                <div className="space-y-3">
+                  <p>
+                    Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+                    authenticator app. They will not be shown again.
+                  </p>
+                  <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+                    {recoveryCodes.map((code) => (
+                      <span key={code}>{code}</span>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button size="sm" variant="outline" onClick={copyRecoveryCodes} className="gap-2">
+                      <Copy className="h-4 w-4" />
+                      Copy
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={downloadRecoveryCodes} className="gap-2">
+                      <Download className="h-4 w-4" />
+                      Download
+                    </Button>
+                    <Button size="sm" onClick={() => setRecoveryCodes(null)}>
+                      I've saved them
+                    </Button>
+                  </div>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {status?.enabled ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Signing in asks for a code from your authenticator app.{" "}
+                {status.recoveryCodesRemaining === 1
+                  ? "1 recovery code left."
+                  : `${status.recoveryCodesRemaining} recovery codes left.`}
+              </p>
+
+              {codeAction ? (
+                <div className="space-y-2">
+                  <Label htmlFor="mfa-action-code">
+                    {codeAction === "disable"
+                      ? "Enter a code from your app (or a recovery code) to turn two-factor authentication off"
+                      : "Enter a code from your app (or a recovery code) to create new recovery codes"}
+                  </Label>
+                  <Input
+                    id="mfa-action-code"
+                    type="text"
+                    autoComplete="one-time-code"
+                    placeholder="123456"
+                    value={actionCode}
+                    onChange={(e) => setActionCode(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleCodeAction()}
+                    disabled={submitting}
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      size="sm"
+                      variant={codeAction === "disable" ? "destructive" : "default"}
+                      onClick={handleCodeAction}
+                      disabled={!actionCode.trim() || submitting}
+                    >
+                      {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                      {codeAction === "disable" ? "Turn Off" : "Create New Codes"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setCodeAction(null);
+                        setActionCode("");
+                      }}
+                      disabled={submitting}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-3">
+                  <Button variant="outline" onClick={() => setCodeAction("regenerate")} className="gap-2">
+                    <KeyRound className="h-4 w-4" />
+                    New Recovery Codes
+                  </Button>
+                  <Button variant="outline" onClick={() => setCodeAction("disable")} className="gap-2">
+                    <ShieldOff className="h-4 w-4" />
+                    Turn Off
+                  </Button>
+                </div>
+              )}
+            </>
+          ) : setup ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Scan this QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator
+                or 1Password.
+              </p>
+              <img
+                src={setup.qrDataUrl}
+                alt="QR code for your authenticator app"
+                width={192}
+                height={192}
+                className="rounded-md border border-border bg-white p-2"
+              />
+              <div className="text-sm">
+                <p className="text-muted-foreground">Can't scan it? Enter this key instead:</p>
+                <p className="font-mono" style={{ wordBreak: "break-all" }}>{setup.secret}</p>
+                <a href={setup.otpauthUri} className="text-teal hover:underline">
+                  Open in an authenticator app on this device
+                </a>
+              </div>
+              <VerificationCodeForm
+                label="Enter the 6-digit code from the app"
+                description="Two-factor authentication turns on once the code is confirmed."
+                onVerify={handleEnable}
+              />
+              <Button variant="outline" size="sm" onClick={() => setSetup(null)}>
+                Cancel
+              </Button>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Protect your account with a code from an authenticator app each time you sign in.
+              </p>
+              <Button onClick={handleStartSetup} disabled={starting} className="gap-2">
+                {starting ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+                Set Up Two-Factor Authentication
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
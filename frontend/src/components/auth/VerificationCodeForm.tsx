@@ -0,0 +1,85 @@
+// 6-digit code entry for email/phone changes
+// Codes are sent by the backend's mail/SMS transports (or logged by the mock backend)
+
+import { useState } from "react";
+import { Button } from "../ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "../ui/input-otp";
+import { Loader2 } from "lucide-react";
+
+const CODE_LENGTH = 6;
+
+interface VerificationCodeFormProps {
+  label: string;
+  description?: string;
+  onVerify: (code: string) => Promise<void>;
+  onResend?: () => Promise<void>;
+}
+
+export function VerificationCodeForm({ label, description, onVerify, onResend }: VerificationCodeFormProps) {
+  const [code, setCode] = useState("");
+  const [verifying, setVerifying] = useState(false);
+  const [resending, setResending] = useState(false);
+
+  const submit = async (value: string) => {
+    if (value.length !== CODE_LENGTH || verifying) return;
+    setVerifying(true);
+    try {
+      await onVerify(value);
+    } catch (error) {
+      // Reported by the caller; let the user try again
+      setCode("");
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const resend = async () => {
+    if (!onResend) return;
+    setResending(true);
+    try {
+      await onResend();
+      setCode("");
+    } catch (error) {
+      // Reported by the caller
+    } finally {
+      setResending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm">{label}</p>
+        {description && <p className="text-xs text-muted-foreground">{description}</p>}
+      </div>
+      <InputOTP
+        maxLength={CODE_LENGTH}
+        value={code}
+        onChange={setCode}
+        onComplete={submit}
+        disabled={verifying}
+        inputMode="numeric"
+        pattern="^[0-9]+$"
+        autoComplete="one-time-code"
+      >
+        <InputOTPGroup>
+          {Array.from({ length: CODE_LENGTH }, (_, index) => (
+            <InputOTPSlot key={index} index={index} />
+          ))}
+        </InputOTPGroup>
+      </InputOTP>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={() => submit(code)} disabled={code.length !== CODE_LENGTH || verifying}>
+          {verifying && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Verify
+        </Button>
+        {onResend && (
+          <Button size="sm" variant="outline" onClick={resend} disabled={resending || verifying}>
+            {resending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Resend code
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
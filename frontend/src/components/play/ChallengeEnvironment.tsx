@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card } from "../ui/card";
 import { Button } from "../ui/button";
 import { Textarea } from "../ui/textarea";
@@ -17,6 +17,7 @@ import {
   ChevronLeft,
   Loader2,
   Sparkles,
+  Square,
 } from "lucide-react";
 import { type ChallengeLevel } from "../../lib/challengeProgress";
 import { HintsPanel } from "./HintsPanel";
@@ -24,17 +25,25 @@ import { ResultsPanel } from "./ResultsPanel";
 import { AlternativeSolutionsModal } from "./AlternativeSolutionsModal";
 import { SolutionRevealModal } from "./SolutionRevealModal";
 import { useUser } from "../../context/UserContext";
+import { recordGuestSolve } from "../../lib/guestSession";
 import { 
   getChallengeMetadata, 
-  sendChallengeMessage, 
-  submitChallengeFlag 
+  streamChallengeMessage,
+  submitChallengeFlag,
+  AbortError,
+  TimeoutError,
+  NetworkError,
+  ResponseValidationError,
 } from "../../utils/api";
+import { DegradedNotice } from "../shared/DegradedNotice";
 import { toast } from "sonner@2.0.3";
 
 interface ChallengeEnvironmentProps {
   challenge?: ChallengeLevel;
   vulnerabilityTitle: string;
   vulnerabilityId: number;
+  challengeSlug: string; // Catalog slug used for every challenge API call
+  levelNumbers?: number[]; // Active levels offered in the level switcher
   onComplete: (score: number, timeSpent: number) => void;
   onExit: () => void;
   onLevelSelect?: (level: number) => void;
@@ -45,6 +54,8 @@ export function ChallengeEnvironment({
   challenge,
   vulnerabilityTitle,
   vulnerabilityId,
+  challengeSlug,
+  levelNumbers = [1, 2, 3],
   onComplete,
   onExit,
   onLevelSelect,
@@ -71,6 +82,31 @@ export function ChallengeEnvironment({
   const [initializing, setInitializing] = useState(true);
   const [challengeMetadata, setChallengeMetadata] = useState<any>(null);
   const [xpAwarded, setXpAwarded] = useState(0);
+  // In-flight chat request, cancelled when the user leaves or switches level
+  const chatAbortRef = useRef<AbortController | null>(null);
+  // Set when the abort came from the stop button rather than leaving the level
+  const stopRequestedRef = useRef(false);
+  // Reply text received so far while the AI is still generating
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
+  // Set when the server's challenge data was unusable and local data is shown instead
+  const [degradedReason, setDegradedReason] = useState<string | null>(null);
+
+  // Describe an API failure for the user (cancellations are silent)
+  const describeError = (error: unknown, fallback: string): string => {
+    if (error instanceof TimeoutError) return "The AI took too long to respond. Please try again.";
+    if (error instanceof NetworkError) return "Could not reach the challenge server. Check your connection.";
+    if (error instanceof ResponseValidationError) return "The challenge server sent a reply this page could not read.";
+    if (error instanceof Error && error.message) return error.message;
+    return fallback;
+  };
+
+  // Abort any pending chat request when the level changes or the component unmounts
+  useEffect(() => {
+    return () => {
+      chatAbortRef.current?.abort();
+      chatAbortRef.current = null;
+    };
+  }, [challengeSlug, challenge?.level]);
 
   // Initialize challenge session and fetch metadata
   useEffect(() => {
@@ -80,6 +116,8 @@ export function ChallengeEnvironment({
       return;
     }
 
+    const controller = new AbortController();
+
     const initializeChallenge = async () => {
       if (!user?.uid && !user?.id) {
         toast.error("Please log in to start challenges");
@@ -99,11 +137,13 @@ export function ChallengeEnvironment({
         setFlagInput("");
         setSolutionRevealed(false);
         setTimeElapsed(0);
+        setDegradedReason(null);
         
         const metadata = await getChallengeMetadata(
-          vulnerabilityId,
+          challengeSlug,
           levelNumber,
-          userId
+          userId,
+          { signal: controller.signal }
         );
         
         setChallengeMetadata(metadata);
@@ -115,9 +155,16 @@ export function ChallengeEnvironment({
             content: `Challenge initialized: ${metadata.level.title}. ${metadata.level.description}`,
           },
         ]);
-      } catch (error: any) {
+      } catch (error) {
+        // Level switched or user left before the session was ready
+        if (error instanceof AbortError) return;
+
         console.error("Failed to initialize challenge:", error);
-        toast.error(error.message || "Failed to initialize challenge");
+        if (error instanceof ResponseValidationError) {
+          setDegradedReason(error.message);
+        } else {
+          toast.error(describeError(error, "Failed to initialize challenge"));
+        }
         // Fallback to local challenge data
         setMessages([
           {
@@ -131,7 +178,9 @@ export function ChallengeEnvironment({
     };
 
     initializeChallenge();
-  }, [vulnerabilityId, challenge?.level, user]);
+
+    return () => controller.abort();
+  }, [challengeSlug, challenge?.level, user?.uid, user?.id]); // Not `user`: re-authenticating must keep the transcript
 
   // Track time elapsed
   useEffect(() => {
@@ -161,33 +210,71 @@ export function ChallengeEnvironment({
     setLoadingChat(true);
     setLoading(true);
 
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    stopRequestedRef.current = false;
+
+    let partialReply = "";
+
     try {
-      const response = await sendChallengeMessage(
-        vulnerabilityId,
+      const response = await streamChallengeMessage(
+        challengeSlug,
         levelNumber,
         userId,
-        userMessage
+        userMessage,
+        (text) => {
+          partialReply += text;
+          setStreamingReply(partialReply);
+        },
+        { signal: controller.signal }
       );
 
       // Add AI response to messages
-      newMessages.push({ role: "assistant", content: response.reply });
+      newMessages.push({ role: "assistant", content: response.reply || partialReply });
       setMessages(newMessages);
-    } catch (error: any) {
+    } catch (error) {
+      if (error instanceof AbortError) {
+        // User left the level - nothing to report
+        if (!stopRequestedRef.current) return;
+
+        // Stopped by the user - keep what was generated so far
+        if (partialReply) {
+          newMessages.push({ role: "assistant", content: partialReply });
+        }
+        newMessages.push({ role: "system", content: "Generation stopped." });
+        setMessages(newMessages);
+        return;
+      }
+
       console.error("Failed to send message:", error);
-      toast.error(error.message || "Failed to get AI response");
+      const message = describeError(error, "Failed to get AI response. Please try again.");
+      toast.error(message);
       
       // Show error message in chat
+      if (partialReply) {
+        newMessages.push({ role: "assistant", content: partialReply });
+      }
       newMessages.push({
         role: "system",
-        content: `Error: ${error.message || "Failed to get AI response. Please try again."}`,
+        content: `Error: ${message}`,
       });
       setMessages(newMessages);
     } finally {
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+      }
+      setStreamingReply(null);
       setLoadingChat(false);
       setLoading(false);
     }
   };
 
+  // Abort the reply that is currently being generated
+  const handleStopGeneration = () => {
+    stopRequestedRef.current = true;
+    chatAbortRef.current?.abort();
+  };
+
   const handleSubmitFlag = async () => {
     if (solutionRevealed || loadingFlag || !challenge) return; // Disable submissions after solution reveal or while loading
 
@@ -209,7 +296,7 @@ export function ChallengeEnvironment({
 
     try {
       const response = await submitChallengeFlag(
-        vulnerabilityId,
+        challengeSlug,
         levelNumber,
         userId,
         flag
@@ -224,6 +311,10 @@ export function ChallengeEnvironment({
         
         if (response.xpAwarded) {
           toast.success(`Flag correct! +${response.xpAwarded} XP awarded`);
+        } else if (user.isAnonymous) {
+          // XP is awarded once the guest creates an account
+          recordGuestSolve({ challengeSlug, level: levelNumber, flag });
+          toast.success("Flag correct! Create an account to keep this solve and earn XP.");
         }
         
         setShowResults(true);
@@ -252,15 +343,16 @@ export function ChallengeEnvironment({
           ]);
         }
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Failed to submit flag:", error);
-      toast.error(error.message || "Failed to submit flag");
+      const message = describeError(error, "Failed to submit flag. Please try again.");
+      toast.error(message);
       
       setMessages([
         ...messages,
         {
           role: "system",
-          content: `Error: ${error.message || "Failed to submit flag. Please try again."}`,
+          content: `Error: ${message}`,
         },
       ]);
     } finally {
@@ -476,7 +568,7 @@ export function ChallengeEnvironment({
               <Card className="p-6 border-2 border-border bg-card transition-colors duration-200">
                 <h4 className="text-card-foreground mb-4">Switch Level</h4>
                 <div className="grid grid-cols-3 gap-3">
-                  {[1, 2, 3].map((level) => {
+                  {levelNumbers.map((level) => {
                     const isActive = challenge.level === level;
                     return (
                       <Button
@@ -522,6 +614,13 @@ export function ChallengeEnvironment({
           {/* Right Panel - Interactive Simulation */}
           {challenge && (
             <div className="lg:col-span-2">
+              {degradedReason && (
+                <DegradedNotice
+                  className="mb-4"
+                  title="Running with local challenge data"
+                  description={`The challenge server returned data this page could not use (${degradedReason}). Level details come from the offline copy and may be out of date.`}
+                />
+              )}
               <Card className="p-6 border-2 border-border bg-card h-full flex flex-col transition-colors duration-200">
               {/* Header */}
               <div className="flex items-center justify-between mb-6 pb-4 border-b border-border">
@@ -576,8 +675,21 @@ export function ChallengeEnvironment({
                   </div>
                 ))}
                 
+                {/* Reply streaming in */}
+                {loadingChat && streamingReply && (
+                  <div className="mb-3">
+                    <div className="flex gap-2 mb-1">
+                      <span className="text-xs text-card-foreground">AI:</span>
+                    </div>
+                    <div className="pl-4 text-card-foreground">
+                      {streamingReply}
+                      <span className="animate-pulse">▍</span>
+                    </div>
+                  </div>
+                )}
+
                 {/* AI Thinking Loading Skeleton */}
-                {loadingChat && (
+                {loadingChat && !streamingReply && (
                   <div className="mb-3 animate-in fade-in duration-200">
                     <div className="flex gap-2 mb-2">
                       <span className="text-xs text-card-foreground">AI:</span>
@@ -617,17 +729,24 @@ export function ChallengeEnvironment({
                     }}
                     className="min-h-[80px] resize-none font-mono"
                   />
-                  <Button
-                    onClick={handleSendMessage}
-                    disabled={loadingChat}
-                    className="self-end px-6 bg-primary hover:bg-primary/90"
-                  >
-                    {loadingChat ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : (
+                  {loadingChat ? (
+                    <Button
+                      onClick={handleStopGeneration}
+                      variant="outline"
+                      className="self-end px-6"
+                      title="Stop generating"
+                      aria-label="Stop generating"
+                    >
+                      <Square className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      onClick={handleSendMessage}
+                      className="self-end px-6 bg-primary hover:bg-primary/90"
+                    >
                       <Send className="h-4 w-4" />
-                    )}
-                  </Button>
+                    </Button>
+                  )}
                 </div>
 
                 {/* Flag Submission */}
@@ -0,0 +1,248 @@
+import { useState, useEffect } from "react";
+import { defaultFilter } from "cmdk@1.1.1";
+import {
+  CommandDialog,
+  CommandInput,
+  CommandList,
+  CommandEmpty,
+  CommandGroup,
+  CommandItem,
+  CommandShortcut,
+  CommandSeparator,
+} from "../ui/command";
+import {
+  BookOpen,
+  Target,
+  FileText,
+  Sun,
+  Moon,
+  LogOut,
+  RotateCcw,
+  History,
+} from "lucide-react";
+import { vulnerabilities } from "../../lib/vulnerabilities";
+import { getLastViewedModule } from "../../lib/moduleUtils";
+import { type StaticPage, type NavigateFn } from "../../lib/routes";
+import { useUser } from "../../context/UserContext";
+import { useChallengeCatalog } from "../../hooks/useChallengeCatalog";
+import { toast } from "sonner@2.0.3";
+
+interface CommandPaletteProps {
+  onNavigate: NavigateFn;
+  isDarkMode: boolean;
+  onToggleTheme: () => void;
+  onLogout?: () => void;
+}
+
+// Every page that can be opened without a payload
+const pageItems: { label: string; page: StaticPage }[] = [
+  { label: "Home", page: "home" },
+  { label: "Learn", page: "learn" },
+  { label: "Play", page: "play" },
+  { label: "Leaderboard", page: "leaderboard" },
+  { label: "Profile", page: "profile" },
+  { label: "Simulation", page: "simulation" },
+  { label: "Vulnerabilities", page: "vulnerabilities" },
+];
+
+// Only listed for instructors
+const adminPageItems: { label: string; page: StaticPage }[] = [
+  { label: "Admin", page: "admin" },
+];
+
+/**
+ * Global Ctrl/Cmd+K palette for jumping to pages, modules and challenge levels
+ */
+export function CommandPalette({
+  onNavigate,
+  isDarkMode,
+  onToggleTheme,
+  onLogout,
+}: CommandPaletteProps) {
+  const { user, logout, resetProgress } = useUser();
+  const [open, setOpen] = useState(false);
+  const [lastViewedId, setLastViewedId] = useState<number | null>(null);
+  // Only seeded challenges and their active levels can be played
+  const { catalog } = useChallengeCatalog();
+
+  // Toggle with Ctrl+K / Cmd+K
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  // Re-read recent activity every time the palette opens
+  useEffect(() => {
+    if (open) {
+      setLastViewedId(getLastViewedModule()?.id ?? null);
+    }
+  }, [open]);
+
+  // Most recently used module (and its challenges) first, catalog order otherwise
+  const byRecency = (a: number, b: number) =>
+    Number(b === lastViewedId) - Number(a === lastViewedId);
+
+  const sortedModules = [...vulnerabilities].sort((a, b) => byRecency(a.id, b.id));
+
+  const sortedChallenges = catalog
+    .flatMap((entry) => {
+      const vulnerability = vulnerabilities.find((v) => v.id === entry.vulnerabilityId);
+      return vulnerability ? [{ vulnerabilityId: vulnerability.id, entry, vulnerabilityTitle: vulnerability.shortTitle }] : [];
+    })
+    .sort((a, b) => byRecency(a.vulnerabilityId, b.vulnerabilityId))
+    .flatMap(({ vulnerabilityId, entry, vulnerabilityTitle }) =>
+      entry.levels.map((catalogLevel) => ({
+        vulnerabilityId,
+        level: { level: catalogLevel.index, title: catalogLevel.title, difficulty: catalogLevel.difficulty.toLowerCase() },
+        vulnerabilityTitle,
+      }))
+    );
+
+  const lastViewedModule = vulnerabilities.find((v) => v.id === lastViewedId);
+
+  const moduleValue = (title: string) => `module ${title}`;
+  const challengeValue = (vulnerabilityTitle: string, level: { level: number; title: string }) =>
+    `challenge ${vulnerabilityTitle} level ${level.level} ${level.title}`;
+
+  // Items for the most recently used module, kept on top of the results while searching
+  const recentValues = new Set(
+    lastViewedModule
+      ? [
+          `resume ${lastViewedModule.title}`,
+          moduleValue(lastViewedModule.title),
+          ...sortedChallenges
+            .filter(({ vulnerabilityId }) => vulnerabilityId === lastViewedModule.id)
+            .map(({ vulnerabilityTitle, level }) => challengeValue(vulnerabilityTitle, level)),
+        ]
+      : []
+  );
+
+  // cmdk sorts matches by score, which would otherwise undo the recency order as soon as the user types
+  const filterByRecency = (value: string, search: string, keywords?: string[]) => {
+    const score = defaultFilter(value, search, keywords);
+    return score > 0 && recentValues.has(value) ? score + 1 : score;
+  };
+
+  // Close the palette before running the selected command
+  const run = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const handleLogout = async () => {
+    try {
+      await logout();
+      if (onLogout) onLogout();
+    } catch (error) {
+      console.error("Logout error:", error);
+    }
+  };
+
+  const handleResetProgress = () => {
+    if (!window.confirm("Reset all module progress? This cannot be undone.")) return;
+    resetProgress();
+    toast.success("Progress reset");
+  };
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={setOpen}
+      title="Command Palette"
+      description="Jump to a page, module or challenge level"
+      filter={filterByRecency}
+    >
+      <CommandInput placeholder="Search modules, challenges, pages and actions..." />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        {lastViewedModule && (
+          <>
+            <CommandGroup heading="Recent">
+              <CommandItem
+                value={`resume ${lastViewedModule.title}`}
+                onSelect={() => run(() => onNavigate("modules", { vulnerabilityId: lastViewedModule.id }))}
+              >
+                <History />
+                <span>Resume {lastViewedModule.title}</span>
+              </CommandItem>
+            </CommandGroup>
+            <CommandSeparator />
+          </>
+        )}
+
+        <CommandGroup heading="Modules">
+          {sortedModules.map((vulnerability) => (
+            <CommandItem
+              key={vulnerability.id}
+              value={moduleValue(vulnerability.title)}
+              keywords={[vulnerability.shortTitle, vulnerability.category]}
+              onSelect={() => run(() => onNavigate("modules", { vulnerabilityId: vulnerability.id }))}
+            >
+              <BookOpen />
+              <span>{vulnerability.title}</span>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        <CommandSeparator />
+
+        <CommandGroup heading="Challenges">
+          {sortedChallenges.map(({ vulnerabilityId, level, vulnerabilityTitle }) => (
+            <CommandItem
+              key={`${vulnerabilityId}-${level.level}`}
+              value={challengeValue(vulnerabilityTitle, level)}
+              keywords={[level.difficulty]}
+              onSelect={() => run(() => onNavigate("play", { vulnerabilityId, level: level.level }))}
+            >
+              <Target />
+              <span>
+                {vulnerabilityTitle} · Level {level.level}: {level.title}
+              </span>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        <CommandSeparator />
+
+        <CommandGroup heading="Pages">
+          {(user?.role === "ADMIN" ? [...pageItems, ...adminPageItems] : pageItems).map((item) => (
+            <CommandItem
+              key={item.page}
+              value={`page ${item.label}`}
+              onSelect={() => run(() => onNavigate(item.page))}
+            >
+              <FileText />
+              <span>{item.label}</span>
+            </CommandItem>
+          ))}
+        </CommandGroup>
+
+        <CommandSeparator />
+
+        <CommandGroup heading="Actions">
+          <CommandItem value="toggle theme dark light mode" onSelect={() => run(onToggleTheme)}>
+            {isDarkMode ? <Sun /> : <Moon />}
+            <span>Toggle Theme</span>
+            <CommandShortcut>{isDarkMode ? "Light" : "Dark"}</CommandShortcut>
+          </CommandItem>
+          <CommandItem value="reset progress" onSelect={() => run(handleResetProgress)}>
+            <RotateCcw />
+            <span>Reset Progress</span>
+          </CommandItem>
+          <CommandItem value="log out sign out" onSelect={() => run(handleLogout)}>
+            <LogOut />
+            <span>Log Out</span>
+          </CommandItem>
+        </CommandGroup>
+      </CommandList>
+    </CommandDialog>
+  );
+}
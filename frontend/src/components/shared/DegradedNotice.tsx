@@ -0,0 +1,31 @@
+import { Alert, AlertDescription, AlertTitle } from "../ui/alert";
+import { Button } from "../ui/button";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+
+interface DegradedNoticeProps {
+  title: string;
+  description: string;
+  onRetry?: () => void;
+  className?: string;
+}
+
+/**
+ * Inline notice for a panel running on fallback data because the server response was unusable
+ */
+export function DegradedNotice({ title, description, onRetry, className }: DegradedNoticeProps) {
+  return (
+    <Alert className={`border-2 border-amber-300 bg-amber-50 dark:bg-amber-950/20 ${className || ""}`}>
+      <AlertTriangle className="text-amber-600" />
+      <AlertTitle className="text-amber-900 dark:text-amber-200">{title}</AlertTitle>
+      <AlertDescription>
+        <p>{description}</p>
+        {onRetry && (
+          <Button onClick={onRetry} variant="outline" size="sm" className="gap-2 mt-2">
+            <RefreshCw className="h-3 w-3" />
+            Try again
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
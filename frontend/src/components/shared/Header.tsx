@@ -2,13 +2,13 @@ import { Shield, LogOut, Sun, Moon } from "lucide-react";
 import { Button } from "../ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "../ui/avatar";
 import { useUser } from "../../context/UserContext";
+import { SyncStatusIndicator } from "./SyncStatusIndicator";
 import { toast } from "sonner@2.0.3";
-
-type Page = "home" | "learn" | "modules" | "play" | "leaderboard" | "profile";
+import { type Page, type StaticPage, type NavigateFn, toRoute, pathForRoute } from "../../lib/routes";
 
 interface HeaderProps {
   currentPage: Page;
-  onNavigate: (page: Page) => void;
+  onNavigate: NavigateFn;
   isAuthenticated: boolean;
   onLogout?: () => void;
   isDarkMode: boolean;
@@ -46,11 +46,13 @@ export function Header({
     }
   };
 
-  const navItems: { label: string; page: Page }[] = [
+  const navItems: { label: string; page: StaticPage }[] = [
     { label: "Home", page: "home" },
     { label: "Learn", page: "learn" },
     { label: "Play", page: "play" },
     { label: "Leaderboard", page: "leaderboard" },
+    // Instructors manage content and users from the admin page
+    ...(user?.role === "ADMIN" ? [{ label: "Admin", page: "admin" as const }] : []),
   ];
 
   return (
@@ -105,9 +107,15 @@ export function Header({
               {/* Navigation Links */}
               <nav className="flex items-center gap-6">
                 {navItems.map((item) => (
-                  <button
+                  <a
                     key={item.page}
-                    onClick={() => onNavigate(item.page)}
+                    href={pathForRoute(toRoute(item.page))}
+                    onClick={(e) => {
+                      // Let modified clicks (new tab/window) fall through to the browser
+                      if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+                      e.preventDefault();
+                      onNavigate(item.page);
+                    }}
                     className={`relative text-white hover:text-teal transition-colors duration-200 ${
                       currentPage === item.page ? "text-teal" : ""
                     }`}
@@ -118,7 +126,7 @@ export function Header({
                     {currentPage === item.page && (
                       <span className="absolute -bottom-1 left-0 right-0 h-0.5 bg-teal opacity-60"></span>
                     )}
-                  </button>
+                  </a>
                 ))}
               </nav>
 
@@ -127,6 +135,20 @@ export function Header({
 
               {/* User Controls */}
               <div className="flex items-center gap-3">
+                {/* Guests can turn their session into an account at any time */}
+                {user?.isAnonymous && onOpenAuthModal && (
+                  <Button
+                    size="sm"
+                    onClick={onOpenAuthModal}
+                    className="bg-[#2E8540] hover:bg-[#1B5E20] text-white transition-colors duration-200"
+                  >
+                    Create Account
+                  </Button>
+                )}
+
+                {/* Progress sync (signed-in server accounts only) */}
+                <SyncStatusIndicator />
+
                 {/* Theme Toggle */}
                 <button
                   onClick={onToggleTheme}
@@ -174,8 +196,8 @@ export function Header({
                   onClick={handleLogout}
                   className="p-2 rounded-full h-8 w-8 flex items-center justify-center transition-colors duration-200"
                   style={{ color: '#E8F0F2' }}
-                  title="Sign Out"
-                  aria-label="Sign Out"
+                  title={user?.isAnonymous ? "Leave Guest Mode" : "Sign Out"}
+                  aria-label={user?.isAnonymous ? "Leave Guest Mode" : "Sign Out"}
                   onMouseEnter={(e) => {
                     e.currentTarget.style.color = '#EF4444';
                   }}
@@ -0,0 +1,50 @@
+// Progress sync status for the header
+// Shows whether Learn progress is saved to the server; when it is not, clicking retries.
+
+import { Cloud, CloudAlert, CloudOff, CloudUpload, Loader2 } from "lucide-react";
+import { useUser } from "../../context/UserContext";
+import { getTimeElapsed } from "../../lib/moduleUtils";
+import { type SyncStatus } from "../../lib/progressSync";
+
+const STATUS_LABELS: Record<Exclude<SyncStatus, "off">, string> = {
+  syncing: "Syncing progress...",
+  pending: "Saving progress...",
+  synced: "Progress saved to your account",
+  offline: "Offline: progress is saved on this device and will sync when you reconnect",
+  error: "Progress could not be synced. Click to try again.",
+};
+
+export function SyncStatusIndicator() {
+  const { syncStatus, lastSyncedAt, syncNow } = useUser();
+
+  // Guests and device-only accounts have nothing to sync
+  if (syncStatus === "off") return null;
+
+  const Icon =
+    syncStatus === "syncing" ? Loader2
+    : syncStatus === "pending" ? CloudUpload
+    : syncStatus === "offline" ? CloudOff
+    : syncStatus === "error" ? CloudAlert
+    : Cloud;
+  const label =
+    syncStatus === "synced" && lastSyncedAt
+      ? `${STATUS_LABELS.synced} (${getTimeElapsed(new Date(lastSyncedAt).getTime())})`
+      : STATUS_LABELS[syncStatus];
+  const canRetry = syncStatus === "offline" || syncStatus === "error";
+
+  return (
+    <button
+      onClick={canRetry ? syncNow : undefined}
+      className="rounded-full p-2 h-8 w-8 flex items-center justify-center transition-colors duration-200"
+      style={{
+        color: syncStatus === "error" ? "#FCA5A5" : "#E8F0F2",
+        cursor: canRetry ? "pointer" : "default",
+      }}
+      aria-label={label}
+      title={label}
+      aria-live="polite"
+    >
+      <Icon className={`h-5 w-5${syncStatus === "syncing" ? " animate-spin" : ""}`} />
+    </button>
+  );
+}
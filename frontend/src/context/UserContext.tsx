@@ -1,15 +1,42 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from "react";
 import { 
   type UserProgress, 
   loadProgressFromStorage, 
   saveProgressToStorage,
+  clearProgressFromStorage,
   updateModuleSection,
   completeModuleQuiz,
-  calculateTotalScore
+  calculateTotalScore,
+  mergeProgress,
+  hasProgressBeyond,
+  createEmptyProgress,
+  loadLegacyProgress,
+  discardLegacyProgress
 } from "../lib/userProgress";
 import { toast } from "sonner@2.0.3";
-import { getHybridCurrentUser, verifyHybridToken, clearHybridAuth } from "../lib/hybridAuth";
+import { getHybridCurrentUser, verifyHybridToken, clearHybridAuth, hybridLogout } from "../lib/hybridAuth";
 import { getUserData, clearAuth } from "../lib/auth";
+import { createTabChannel } from "../lib/tabSync";
+import { startGuestSession, getGuestSession, clearGuestSession, type GuestSession } from "../lib/guestSession";
+import { pullProgress, pushProgress, isOfflineError, SYNC_DEBOUNCE_MS, type SyncStatus } from "../lib/progressSync";
+import {
+  setUnauthorizedHandler,
+  getTokenExpiry,
+  refreshAuthToken,
+  clearAuthToken,
+  isBackendToken,
+  resetUserProgress,
+  type UserRole,
+} from "../utils/api";
+
+// Refresh (or warn) this long before the backend token expires
+const SESSION_REFRESH_LEAD_MS = 5 * 60 * 1000;
+// Users who clicked or typed this recently are refreshed without being asked
+const ACTIVE_WINDOW_MS = 15 * 60 * 1000;
+// setTimeout fires immediately for delays above 2^31-1 ms
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+// Coming back to the tab pulls progress from other devices, at most this often
+const FOCUS_SYNC_INTERVAL_MS = 30 * 1000;
 
 // User Type with backend user ID
 export interface User {
@@ -19,7 +46,8 @@ export interface User {
   displayName: string | null;
   photoURL: string | null;
   emailVerified: boolean;
-  isAnonymous: boolean;
+  isAnonymous: boolean; // Guest without credentials (see lib/guestSession)
+  role: UserRole; // Device-only accounts are always USER
 }
 
 interface UserContextType {
@@ -27,34 +55,46 @@ interface UserContextType {
   loading: boolean;
   setUser: (user: User | null) => void;
   logout: () => Promise<void>;
+  startGuest: () => void;
   userProgress: UserProgress;
   updateProgress: (moduleId: number, section: keyof UserProgress['moduleProgress'][number]['sectionsCompleted']) => void;
   completeQuiz: (moduleId: number, score: number) => void;
-  resetProgress: () => void;
+  resetProgress: (options?: { localOnly?: boolean }) => void;
+  syncStatus: SyncStatus;
+  lastSyncedAt: string | null;
+  syncNow: () => void;
+  sessionExpired: boolean;
+  resolveSessionExpiry: (reauthenticated: boolean) => void;
 }
 
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
+// Changes announced to the other open tabs
+type TabSyncMessage =
+  | { type: "login"; user: User }
+  | { type: "logout" }
+  | { type: "progress"; userId: string; progress: UserProgress }
+  | { type: "progress-reset"; userId: string };
+
+const tabChannel = createTabChannel<TabSyncMessage>("usda-ai-redteam-session");
+
+const toGuestUser = (session: GuestSession): User => ({
+  uid: session.id,
+  id: undefined,
+  email: null,
+  displayName: "Guest",
+  photoURL: null,
+  emailVerified: false,
+  isAnonymous: true,
+  role: "USER",
+});
+
 export function UserProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUserState] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   
-  // User progress state with real-time updates
-  const [userProgress, setUserProgress] = useState<UserProgress>(() => {
-    const stored = loadProgressFromStorage();
-    if (stored) {
-      return stored;
-    }
-    // Default initial state
-    return {
-      completedModules: [],
-      totalScore: 0,
-      rank: 0,
-      lastActivityDate: new Date().toISOString(),
-      moduleProgress: {},
-      quizScores: {},
-    };
-  });
+  // User progress state with real-time updates (loaded once we know whose it is)
+  const [userProgress, setUserProgress] = useState<UserProgress>(createEmptyProgress);
 
   // Check authentication state on mount and when token changes
   useEffect(() => {
@@ -69,7 +109,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
             // Get user ID from result or localStorage token
             const userId = currentUser.id || localStorage.getItem('usda_token') || '';
             
-            setUser({
+            setUserState({
               uid: String(userId),
               id: typeof currentUser.id === 'number' ? currentUser.id : undefined,
               email: currentUser.email,
@@ -77,21 +117,23 @@ export function UserProvider({ children }: { children: ReactNode }) {
               photoURL: null,
               emailVerified: true,
               isAnonymous: false,
+              role: currentUser.role || 'USER',
             });
           } else {
             // No user found, clear auth
             clearHybridAuth();
-            setUser(null);
+            setUserState(null);
           }
         } else {
-          // Token invalid, clear auth
+          // Token invalid, clear auth (a guest session carries on without one)
           clearHybridAuth();
-          setUser(null);
+          const guest = getGuestSession();
+          setUserState(guest ? toGuestUser(guest) : null);
         }
       } catch (error) {
         console.error("Auth check error:", error);
         clearHybridAuth();
-        setUser(null);
+        setUserState(null);
       } finally {
         setLoading(false);
       }
@@ -100,11 +142,217 @@ export function UserProvider({ children }: { children: ReactNode }) {
     checkAuth();
   }, []);
 
-  // Persist progress to localStorage whenever it changes
+  // Sign-ins (including re-authentication) are shared with other tabs, which use the same stored token
+  const setUser = (nextUser: User | null) => {
+    setUserState(nextUser);
+    tabChannel.post(nextUser ? { type: "login", user: nextUser } : { type: "logout" });
+  };
+
+  // Latest user for callbacks registered outside React (e.g. the API 401 handler)
+  const userRef = useRef<User | null>(null);
+  useEffect(() => {
+    userRef.current = user;
+  }, [user]);
+
+  // Session expiry: the page stays mounted while the user signs in again
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [tokenExpiry, setTokenExpiry] = useState<number | null>(null);
+  // Resolves the 401 that opened the "session expired" modal so the request can be replayed
+  const reauthResolverRef = useRef<((reauthenticated: boolean) => void) | null>(null);
+  const lastActivityRef = useRef(Date.now());
+
+  // A 401 from any API call pauses the request until the user signs in again
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      if (!userRef.current) {
+        clearHybridAuth();
+        setUserState(null);
+        return false;
+      }
+      // Guests have no session to renew; the request just fails
+      if (userRef.current.isAnonymous) {
+        return false;
+      }
+      return new Promise<boolean>((resolve) => {
+        reauthResolverRef.current = resolve;
+        setSessionExpired(true);
+      });
+    });
+    return () => setUnauthorizedHandler(null);
+  }, []);
+
+  // Called by the "session expired" modal: replay pending requests, or sign out if dismissed
+  const resolveSessionExpiry = (reauthenticated: boolean) => {
+    setSessionExpired(false);
+    reauthResolverRef.current?.(reauthenticated);
+    reauthResolverRef.current = null;
+
+    if (!reauthenticated) {
+      clearHybridAuth();
+      setUser(null);
+      toast.info("You have been signed out.");
+    }
+  };
+
+  // Track activity so active users are refreshed instead of interrupted
+  useEffect(() => {
+    const markActive = () => {
+      lastActivityRef.current = Date.now();
+    };
+    window.addEventListener("pointerdown", markActive);
+    window.addEventListener("keydown", markActive);
+    return () => {
+      window.removeEventListener("pointerdown", markActive);
+      window.removeEventListener("keydown", markActive);
+    };
+  }, []);
+
+  // Re-read the token expiry whenever the signed-in user changes (sign in, re-auth)
   useEffect(() => {
-    saveProgressToStorage(userProgress);
+    setTokenExpiry(user ? getTokenExpiry() : null);
+  }, [user]);
+
+  // Refresh or warn shortly before the token expires, and ask to sign in again once it has
+  useEffect(() => {
+    if (!user || !tokenExpiry || sessionExpired) return;
+
+    const refreshSession = async () => {
+      try {
+        await refreshAuthToken();
+        setTokenExpiry(getTokenExpiry());
+      } catch (error) {
+        console.error("Session refresh failed:", error);
+      }
+    };
+
+    const untilRefresh = Math.max(tokenExpiry - SESSION_REFRESH_LEAD_MS - Date.now(), 0);
+    const untilExpiry = Math.max(tokenExpiry - Date.now(), 0);
+    if (untilExpiry > MAX_TIMER_DELAY_MS) return;
+
+    const refreshTimer = setTimeout(() => {
+      if (Date.now() - lastActivityRef.current < ACTIVE_WINDOW_MS) {
+        refreshSession();
+        return;
+      }
+      toast.warning("Your session is about to expire.", {
+        duration: SESSION_REFRESH_LEAD_MS,
+        action: { label: "Stay signed in", onClick: refreshSession },
+      });
+    }, untilRefresh);
+
+    const expiryTimer = setTimeout(() => {
+      clearAuthToken();
+      setSessionExpired(true);
+    }, untilExpiry);
+
+    return () => {
+      clearTimeout(refreshTimer);
+      clearTimeout(expiryTimer);
+    };
+  }, [user, tokenExpiry, sessionExpired]);
+
+  // Progress merged in from another tab, which must not be announced back to it
+  const remoteProgressRef = useRef<UserProgress | null>(null);
+
+  // Whose progress is in state: the signed-in user or guest. Nothing is stored while signed out.
+  const progressUserRef = useRef<User | null>(null);
+
+  // Load the stored progress of whoever signs in, so people sharing a browser only see their own
+  useEffect(() => {
+    const previous = progressUserRef.current;
+    progressUserRef.current = user;
+
+    if (!user) {
+      // A guest's progress ends with the guest session
+      if (previous?.isAnonymous) clearProgressFromStorage(previous.uid);
+      setUserProgress(createEmptyProgress());
+      toast.dismiss("legacy-progress");
+      return;
+    }
+
+    const stored = loadProgressFromStorage(user.uid) ?? createEmptyProgress();
+    if (previous?.isAnonymous && !user.isAnonymous) {
+      // Work done as a guest carries over to the account they signed up or signed in to
+      clearProgressFromStorage(previous.uid);
+      setUserProgress(prev => mergeProgress(stored, prev));
+    } else {
+      setUserProgress(stored);
+    }
+
+    // Progress saved before each person had their own could be a previous user's, so only import it on request
+    if (!user.isAnonymous && loadLegacyProgress()) {
+      const userId = user.uid;
+      toast.info("This browser has Learn progress saved before progress was kept per person. It may belong to someone else who used this computer.", {
+        id: "legacy-progress",
+        duration: Infinity,
+        action: {
+          label: "Import it",
+          onClick: () => {
+            const legacy = loadLegacyProgress();
+            if (!legacy || progressUserRef.current?.uid !== userId) return;
+            discardLegacyProgress();
+            setUserProgress(prev => mergeProgress(prev, legacy));
+          },
+        },
+        cancel: { label: "Discard", onClick: discardLegacyProgress },
+      });
+    }
+  }, [user?.uid]);
+
+  // Persist progress whenever it changes, merged with anything another tab saved meanwhile.
+  // Empty progress is not written, so a reset (or deleted account) leaves nothing behind.
+  useEffect(() => {
+    const owner = progressUserRef.current;
+    if (!owner) return;
+
+    const stored = loadProgressFromStorage(owner.uid);
+    if (stored || userProgress.completedModules.length > 0 || Object.keys(userProgress.moduleProgress).length > 0) {
+      saveProgressToStorage(owner.uid, stored ? mergeProgress(stored, userProgress) : userProgress);
+    }
+    if (userProgress !== remoteProgressRef.current) {
+      tabChannel.post({ type: "progress", userId: owner.uid, progress: userProgress });
+    }
   }, [userProgress]);
 
+  // Follow sign-in, sign-out and progress changes made in other tabs
+  useEffect(() => {
+    return tabChannel.subscribe((message) => {
+      switch (message.type) {
+        case "login":
+          setUserState(message.user);
+          // The other tab stored a fresh token, so requests waiting on re-authentication can be replayed
+          if (reauthResolverRef.current) {
+            setSessionExpired(false);
+            reauthResolverRef.current(true);
+            reauthResolverRef.current = null;
+          }
+          break;
+        case "logout":
+          setSessionExpired(false);
+          reauthResolverRef.current?.(false);
+          reauthResolverRef.current = null;
+          if (userRef.current) {
+            toast.info("You signed out in another tab.");
+          }
+          setUserState(null);
+          break;
+        case "progress":
+          // Another tab may still be switching users; its progress is never someone else's
+          if (message.userId !== progressUserRef.current?.uid) break;
+          setUserProgress(prev => {
+            const merged = mergeProgress(prev, message.progress);
+            remoteProgressRef.current = merged;
+            return merged;
+          });
+          break;
+        case "progress-reset":
+          if (message.userId !== progressUserRef.current?.uid) break;
+          applyProgressReset(false);
+          break;
+      }
+    });
+  }, []);
+
   // Calculate total score whenever completed modules change
   useEffect(() => {
     const score = calculateTotalScore(userProgress.completedModules);
@@ -114,8 +362,9 @@ export function UserProvider({ children }: { children: ReactNode }) {
   // Logout function
   const logout = async () => {
     try {
-      // Clear hybrid auth (handles both backend and frontend)
-      clearHybridAuth();
+      // Revoke the backend session, clear hybrid auth (handles both backend and frontend) and leave guest mode
+      await hybridLogout();
+      clearGuestSession();
       
       // Clear local state
       setUser(null);
@@ -126,11 +375,112 @@ export function UserProvider({ children }: { children: ReactNode }) {
       // Even if logout fails, clear local state
       clearHybridAuth();
       clearAuth();
+      clearGuestSession();
       setUser(null);
       toast.success("Logged out successfully");
     }
   };
 
+  // Server sync: signed-in backend accounts keep one copy of their progress across devices
+  const syncUserId = user && !user.isAnonymous && isBackendToken() ? user.uid : null;
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("off");
+  const [lastSyncedAt, setLastSyncedAt] = useState<string | null>(null);
+  const syncUserIdRef = useRef<string | null>(null);
+  // Latest progress, read when a debounced push fires
+  const progressRef = useRef(userProgress);
+  // Local changes the server has not acknowledged yet
+  const dirtyRef = useRef(false);
+  const pushTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  // Pulls, pushes and resets run one at a time, in order
+  const syncQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const lastPullRef = useRef(0);
+
+  useEffect(() => {
+    progressRef.current = userProgress;
+  }, [userProgress]);
+
+  const enqueueSync = (task: (userId: string) => Promise<void>) => {
+    const userId = syncUserIdRef.current;
+    if (!userId) return;
+    syncQueueRef.current = syncQueueRef.current.then(async () => {
+      // Skip work queued for a user who has since signed out
+      if (syncUserIdRef.current !== userId) return;
+      setSyncStatus("syncing");
+      try {
+        await task(userId);
+        if (syncUserIdRef.current !== userId) return;
+        setLastSyncedAt(new Date().toISOString());
+        setSyncStatus(dirtyRef.current ? "pending" : "synced");
+      } catch (error) {
+        if (syncUserIdRef.current !== userId) return;
+        console.error("Progress sync failed:", error);
+        setSyncStatus(isOfflineError(error) ? "offline" : "error");
+      }
+    });
+  };
+
+  const push = async (userId: string) => {
+    clearTimeout(pushTimerRef.current);
+    dirtyRef.current = false;
+    try {
+      await pushProgress(userId, progressRef.current);
+    } catch (error) {
+      dirtyRef.current = true;
+      throw error;
+    }
+  };
+
+  // Pull the server copy, merge it in and push back whatever this device has that the server lacks
+  const syncNow = () => {
+    enqueueSync(async (userId) => {
+      lastPullRef.current = Date.now();
+      const serverProgress = await pullProgress(userId);
+      if (syncUserIdRef.current !== userId) return;
+      const hasLocalWork = dirtyRef.current || hasProgressBeyond(progressRef.current, serverProgress);
+      setUserProgress(prev => mergeProgress(prev, serverProgress));
+      if (hasLocalWork) {
+        await push(userId);
+      }
+    });
+  };
+
+  // Push local changes once the user pauses
+  const schedulePush = () => {
+    if (!syncUserIdRef.current) return;
+    dirtyRef.current = true;
+    setSyncStatus("pending");
+    clearTimeout(pushTimerRef.current);
+    pushTimerRef.current = setTimeout(() => enqueueSync(push), SYNC_DEBOUNCE_MS);
+  };
+
+  // Pull on sign in, when the tab regains focus and when the connection comes back
+  useEffect(() => {
+    syncUserIdRef.current = syncUserId;
+    if (!syncUserId) {
+      setSyncStatus("off");
+      setLastSyncedAt(null);
+      return;
+    }
+
+    syncNow();
+    const handleFocus = () => {
+      if (Date.now() - lastPullRef.current > FOCUS_SYNC_INTERVAL_MS) syncNow();
+    };
+    window.addEventListener("focus", handleFocus);
+    window.addEventListener("online", syncNow);
+    return () => {
+      // Unpushed changes stay in this browser and are pushed after the next pull
+      clearTimeout(pushTimerRef.current);
+      window.removeEventListener("focus", handleFocus);
+      window.removeEventListener("online", syncNow);
+    };
+  }, [syncUserId]);
+
+  // Continue without credentials; progress is claimed by the account the guest later creates
+  const startGuest = () => {
+    setUser(toGuestUser(startGuestSession()));
+  };
+
   // Update module section progress
   const updateProgress = (
     moduleId: number, 
@@ -140,6 +490,7 @@ export function UserProvider({ children }: { children: ReactNode }) {
       const updated = updateModuleSection(prev, moduleId, section);
       return updated;
     });
+    schedulePush();
   };
 
   // Complete quiz with score
@@ -160,32 +511,47 @@ export function UserProvider({ children }: { children: ReactNode }) {
       
       return updated;
     });
+    schedulePush();
   };
 
-  // Reset progress (for testing or user request)
-  const resetProgress = () => {
-    const initial: UserProgress = {
-      completedModules: [],
-      totalScore: 0,
-      rank: 0,
-      lastActivityDate: new Date().toISOString(),
-      moduleProgress: {},
-      quizScores: {},
-    };
+  // Reset progress (for testing or user request); resets made here are repeated in other tabs
+  // and, unless `localOnly`, on the server
+  const applyProgressReset = (announce: boolean, localOnly = false) => {
+    const owner = progressUserRef.current;
+    const initial = createEmptyProgress();
+    if (announce) {
+      if (owner) tabChannel.post({ type: "progress-reset", userId: owner.uid });
+      if (!localOnly) {
+        clearTimeout(pushTimerRef.current);
+        dirtyRef.current = false;
+        enqueueSync((userId) => resetUserProgress(userId).then(() => undefined));
+      }
+    } else {
+      remoteProgressRef.current = initial;
+    }
     setUserProgress(initial);
-    saveProgressToStorage(initial);
+    if (owner) clearProgressFromStorage(owner.uid);
   };
 
+  // `localOnly` leaves the server copy alone (e.g. when the account itself was just deleted)
+  const resetProgress = (options?: { localOnly?: boolean }) => applyProgressReset(true, options?.localOnly);
+
   return (
     <UserContext.Provider value={{ 
       user, 
       loading, 
       setUser,
       logout, 
+      startGuest,
       userProgress, 
       updateProgress, 
       completeQuiz,
-      resetProgress 
+      resetProgress,
+      syncStatus,
+      lastSyncedAt,
+      syncNow,
+      sessionExpired,
+      resolveSessionExpiry
     }}>
       {children}
     </UserContext.Provider>
@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { useUser } from '../context/UserContext';
+import { isBackendAvailable } from '../lib/hybridAuth';
+import { hasFrontendOnlySession } from '../lib/accountMigration';
+
+// How often to look for the backend while signed in to a device-only account
+const BACKEND_POLL_INTERVAL_MS = 60 * 1000;
+// "Not now" lasts for the browser session
+const DISMISSED_KEY = 'account_migration_dismissed';
+
+/**
+ * Hook to detect when a device-only account can be moved to the backend.
+ * Checks on sign-in, when the browser comes back online and periodically until the backend answers.
+ */
+export function useAccountMigration() {
+  const { user } = useUser();
+  const [backendReachable, setBackendReachable] = useState(false);
+  const [dismissed, setDismissed] = useState(
+    () => sessionStorage.getItem(DISMISSED_KEY) === user?.uid
+  );
+
+  const isFrontendOnly = !!user && hasFrontendOnlySession();
+
+  useEffect(() => {
+    setDismissed(!!user && sessionStorage.getItem(DISMISSED_KEY) === user.uid);
+  }, [user?.uid]);
+
+  useEffect(() => {
+    setBackendReachable(false);
+    if (!isFrontendOnly) return;
+
+    let cancelled = false;
+    const check = async () => {
+      const available = await isBackendAvailable();
+      if (!cancelled && available) {
+        setBackendReachable(true);
+        clearInterval(timer);
+      }
+    };
+
+    const timer = setInterval(check, BACKEND_POLL_INTERVAL_MS);
+    window.addEventListener('online', check);
+    check();
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      window.removeEventListener('online', check);
+    };
+  }, [isFrontendOnly, user?.uid]);
+
+  const dismiss = () => {
+    if (user) sessionStorage.setItem(DISMISSED_KEY, user.uid);
+    setDismissed(true);
+  };
+
+  return {
+    canMigrate: isFrontendOnly && backendReachable,
+    shouldOffer: isFrontendOnly && backendReachable && !dismissed,
+    dismiss,
+  };
+}
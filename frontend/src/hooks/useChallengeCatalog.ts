@@ -0,0 +1,33 @@
+import { useQuery } from './useQuery';
+import { fetchChallengeCatalog, queryKeys, type ChallengeCatalogEntry } from '../utils/api';
+
+// The catalog only changes when challenges are re-seeded
+const CATALOG_STALE_TIME_MS = 5 * 60 * 1000;
+
+/**
+ * Hook to load the challenge catalog served by the backend
+ */
+export function useChallengeCatalog() {
+  const { data, error, isLoading, refetch } = useQuery(
+    queryKeys.challengeCatalog,
+    () => fetchChallengeCatalog(),
+    { staleTimeMs: CATALOG_STALE_TIME_MS }
+  );
+  const catalog: ChallengeCatalogEntry[] = data || [];
+
+  // The challenge a Learn/Play module links to, if one is seeded
+  const getChallengeForVulnerability = (vulnerabilityId: number): ChallengeCatalogEntry | undefined =>
+    catalog.find((entry) => entry.vulnerabilityId === vulnerabilityId);
+
+  return {
+    catalog,
+    loading: isLoading,
+    error: error ? (error instanceof Error ? error : new Error(String(error))) : null,
+    refetch: () => {
+      refetch().catch(() => {
+        // Error is exposed through `error`
+      });
+    },
+    getChallengeForVulnerability,
+  };
+}
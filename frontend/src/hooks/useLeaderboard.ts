@@ -0,0 +1,39 @@
+import { useMemo } from 'react';
+import { useUser } from '../context/UserContext';
+import { useQuery } from './useQuery';
+import { fetchLeaderboard, isBackendToken, queryKeys, type LeaderboardEntry } from '../utils/api';
+
+/**
+ * Hook to read the cached leaderboard, ranked by score, plus the signed-in user's rank.
+ * Only fetches with a backend session (frontend-only tokens would be rejected).
+ */
+export function useLeaderboard() {
+  const { user } = useUser();
+  const hasBackendSession = !!user && isBackendToken();
+
+  const query = useQuery(queryKeys.leaderboard, fetchLeaderboard, { enabled: hasBackendSession });
+
+  // Sort by score descending and add rank
+  const entries = useMemo<LeaderboardEntry[]>(
+    () =>
+      [...(query.data || [])]
+        .sort((a, b) => b.score - a.score)
+        .map((entry, index) => ({
+          ...entry,
+          rank: index + 1,
+        })),
+    [query.data]
+  );
+
+  const currentUserRank = user
+    ? entries.find((entry) => String(entry.id) === user.uid)?.rank
+    : undefined;
+
+  return {
+    ...query,
+    isLoading: hasBackendSession && query.isLoading,
+    hasBackendSession,
+    entries,
+    currentUserRank,
+  };
+}
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import {
+  fetchQuery,
+  getQueryState,
+  subscribeQuery,
+  type QueryKey,
+} from '../utils/queryCache';
+
+interface UseQueryOptions {
+  /** Skip fetching (e.g. until the user has a backend session) */
+  enabled?: boolean;
+  staleTimeMs?: number;
+}
+
+/**
+ * Hook to read a cached API query.
+ * Shows cached data immediately and revalidates it in the background when stale.
+ */
+export function useQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTimeMs }: UseQueryOptions = {}
+) {
+  const hash = JSON.stringify(key);
+
+  // Always call the latest fetcher without re-subscribing on every render
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback((listener: () => void) => subscribeQuery(key, listener), [hash]);
+  const getSnapshot = useCallback(() => getQueryState<T>(key), [hash]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    if (!enabled) return;
+    fetchQuery(key, () => fetcherRef.current(), { staleTimeMs }).catch(() => {
+      // Error is exposed through `error`
+    });
+  }, [hash, enabled, staleTimeMs]);
+
+  const refetch = useCallback(
+    () => fetchQuery(key, () => fetcherRef.current(), { force: true }),
+    [hash]
+  );
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: enabled && state.data === undefined && !state.error,
+    isFetching: state.isFetching,
+    refetch,
+  };
+}
@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { useUser } from '../context/UserContext';
+import { type UserRole } from '../utils/api';
+
+/**
+ * Hook to guard a screen by role.
+ * `onDenied` runs once auth has loaded and the signed-in user lacks the role.
+ * The server still checks the role on every request; this only hides what the user cannot use.
+ */
+export function useRequireRole(role: UserRole, onDenied?: () => void) {
+  const { user, loading } = useUser();
+  const allowed = !!user && user.role === role;
+
+  useEffect(() => {
+    if (!loading && user && !allowed) {
+      onDenied?.();
+    }
+  }, [loading, user?.uid, allowed]);
+
+  return {
+    allowed,
+    loading,
+    user,
+  };
+}
@@ -0,0 +1,88 @@
+// "Your data" on the profile page
+// Collects what this browser stores for the signed-in user (alongside the server export)
+// and removes it again when the account is deleted.
+
+import { exportAccountData, type AccountExport } from '../utils/api';
+import { getFrontendUserRecord, retireFrontendUser } from './frontendAuth';
+import { loadProgressFromStorage, clearProgressFromStorage } from './userProgress';
+import { getLastViewedModule } from './moduleUtils';
+import { getGuestSession } from './guestSession';
+
+const FRONTEND_USERS_KEY = 'frontend_users';
+
+// Every localStorage key the app writes for a user, besides their own progress key. `frontend_users` is
+// shared by all device-only accounts in this browser, so only the user's own record is removed from it.
+// The theme preference and the mock backend's database are not user data and are left alone.
+const LOCAL_KEYS = [
+  'usda_token',
+  'userData',
+  'lastViewedModule',
+  'usda_guest_session',
+];
+const SESSION_KEYS = ['account_migration_dismissed'];
+
+export interface AccountArchive {
+  exportedAt: string;
+  server: AccountExport | null; // null for device-only accounts
+  local: {
+    progress: unknown;
+    lastViewedModule: unknown;
+    deviceAccount: unknown;
+    guestSession: unknown;
+  };
+}
+
+/**
+ * Build the archive offered by "Download my data".
+ * Server data is only fetched for backend accounts; a failure is thrown rather than
+ * producing an archive that silently leaves it out.
+ */
+export async function buildAccountArchive(userId: string, isBackendAccount: boolean): Promise<AccountArchive> {
+  const server = isBackendAccount ? await exportAccountData() : null;
+
+  return {
+    exportedAt: new Date().toISOString(),
+    server,
+    local: {
+      progress: loadProgressFromStorage(userId),
+      lastViewedModule: getLastViewedModule(),
+      deviceAccount: getFrontendUserRecord(userId),
+      guestSession: getGuestSession(),
+    },
+  };
+}
+
+/**
+ * Save a value as a pretty-printed JSON file through the browser's download prompt
+ */
+export function downloadJson(filename: string, data: unknown): void {
+  downloadFile(filename, JSON.stringify(data, null, 2), 'application/json');
+}
+
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export function downloadFile(filename: string, contents: string, type = 'text/plain'): void {
+  const blob = new Blob([contents], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Remove everything this browser stores for the user (after their account is deleted)
+ */
+export function clearLocalAccountData(userId: string): void {
+  retireFrontendUser(userId);
+  clearProgressFromStorage(userId);
+  if (localStorage.getItem(FRONTEND_USERS_KEY) === '[]') {
+    localStorage.removeItem(FRONTEND_USERS_KEY);
+  }
+  LOCAL_KEYS.forEach((key) => localStorage.removeItem(key));
+  SESSION_KEYS.forEach((key) => sessionStorage.removeItem(key));
+}
@@ -0,0 +1,112 @@
+// Frontend-only account migration
+// Accounts created while the backend was unreachable live only in this browser.
+// Once the backend is reachable, the user can create (or link) a server account:
+// local progress is uploaded and the browser-only record is retired.
+
+import {
+  signup as apiSignup,
+  signin as apiSignin,
+  syncUserProgress,
+  getAuthToken,
+  setAuthToken,
+  clearAuthToken,
+  HttpError,
+  isMfaChallenge,
+  type AuthResponse,
+} from '../utils/api';
+import { getFrontendSession, retireFrontendUser } from './frontendAuth';
+import { type UserProgress } from './userProgress';
+
+export type MigrationMode = 'create' | 'link';
+
+interface MigrationResult {
+  success: boolean;
+  user?: AuthResponse['user'];
+  error?: string;
+}
+
+/**
+ * Whether the current session belongs to a frontend-only account
+ */
+export function hasFrontendOnlySession(): boolean {
+  return getFrontendSession() !== null;
+}
+
+/**
+ * Create or link a backend account for the frontend-only session and upload its progress.
+ * On failure the frontend-only session is restored, so the user can try again.
+ */
+export async function migrateFrontendAccount(
+  mode: MigrationMode,
+  password: string,
+  progress: UserProgress
+): Promise<MigrationResult> {
+  const session = getFrontendSession();
+  if (!session) {
+    return { success: false, error: 'No device-only account is signed in' };
+  }
+
+  // The frontend token must not be sent to the backend: a 401 would look like an expired session
+  const previousToken = getAuthToken();
+  const previousUserData = localStorage.getItem('userData');
+  clearAuthToken();
+
+  const restoreSession = () => {
+    if (previousToken) setAuthToken(previousToken);
+    if (previousUserData) localStorage.setItem('userData', previousUserData);
+  };
+
+  try {
+    const response = mode === 'create'
+      ? await createBackendAccount(session, password)
+      : await apiSignin({ email: session.email, password });
+
+    if (isMfaChallenge(response)) {
+      throw new Error('This server account has two-factor authentication on, so it cannot be linked here. Sign out and sign in to it directly.');
+    }
+
+    await syncUserProgress({
+      userId: response.user.id,
+      completedModules: progress.completedModules,
+      totalScore: progress.totalScore,
+      moduleProgress: progress.moduleProgress,
+    });
+
+    retireFrontendUser(session.id);
+    return { success: true, user: response.user };
+  } catch (error) {
+    restoreSession();
+    return { success: false, error: describeMigrationError(error, mode) };
+  }
+}
+
+/**
+ * Sign up with the local account's details, dropping a username the server already has
+ */
+async function createBackendAccount(
+  session: NonNullable<ReturnType<typeof getFrontendSession>>,
+  password: string
+): Promise<AuthResponse> {
+  const payload = { email: session.email, password, fullName: session.displayName, username: session.username };
+  try {
+    return await apiSignup(payload);
+  } catch (error) {
+    if (error instanceof HttpError && error.status === 409 && error.message === 'Username already taken') {
+      return apiSignup({ ...payload, username: undefined });
+    }
+    throw error;
+  }
+}
+
+function describeMigrationError(error: unknown, mode: MigrationMode): string {
+  if (error instanceof HttpError) {
+    if (mode === 'create' && error.status === 409) {
+      return 'A server account with this email already exists. Link it instead.';
+    }
+    if (mode === 'link' && error.status === 401) {
+      return 'Incorrect password for the server account.';
+    }
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return 'Could not reach the server. Please try again.';
+}
@@ -0,0 +1,69 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { hashPassword, verifyPassword, frontendSignin, type PasswordRecord } from './frontendAuth';
+
+// Device-only accounts live in localStorage
+const store = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => void store.set(key, String(value)),
+  removeItem: (key: string) => void store.delete(key),
+  clear: () => store.clear(),
+  key: (index: number) => [...store.keys()][index] ?? null,
+  get length() {
+    return store.size;
+  },
+};
+
+// legacyHash('Legacy-Pass-1'), as written by versions before PBKDF2
+const LEGACY_PASSWORD = 'Legacy-Pass-1';
+const LEGACY_HASH = 's89qtj';
+
+const storedUsers = (): (PasswordRecord & { email: string })[] => JSON.parse(store.get('frontend_users') || '[]');
+
+beforeEach(() => store.clear());
+
+test('hashPassword produces a salted record that verifies only the same password', async () => {
+  const first = await hashPassword('Correct-Horse-1', 1000);
+  const second = await hashPassword('Correct-Horse-1', 1000);
+
+  assert.equal(first.passwordIterations, 1000);
+  assert.notEqual(first.passwordSalt, second.passwordSalt);
+  assert.notEqual(first.passwordHash, second.passwordHash);
+  assert.equal(await verifyPassword(first, 'Correct-Horse-1'), true);
+  assert.equal(await verifyPassword(first, 'Correct-Horse-2'), false);
+});
+
+test('verifyPassword accepts legacy records without a salt', async () => {
+  const legacy: PasswordRecord = { passwordHash: LEGACY_HASH };
+
+  assert.equal(await verifyPassword(legacy, LEGACY_PASSWORD), true);
+  assert.equal(await verifyPassword(legacy, 'Legacy-Pass-2'), false);
+});
+
+test('signing in upgrades a legacy record to PBKDF2', async () => {
+  store.set('frontend_users', JSON.stringify([
+    { id: 'user_1', email: 'ada@example.gov', passwordHash: LEGACY_HASH, createdAt: '2024-01-01T00:00:00.000Z' },
+  ]));
+
+  const result = await frontendSignin('ada@example.gov', LEGACY_PASSWORD);
+  assert.equal(result.success, true);
+
+  const [upgraded] = storedUsers();
+  assert.ok(upgraded.passwordSalt);
+  assert.ok((upgraded.passwordIterations || 0) >= 600000);
+  assert.notEqual(upgraded.passwordHash, LEGACY_HASH);
+  assert.equal(await verifyPassword(upgraded, LEGACY_PASSWORD), true);
+  assert.equal(await verifyPassword(upgraded, 'Legacy-Pass-2'), false);
+});
+
+test('a wrong password neither signs in nor upgrades the record', async () => {
+  store.set('frontend_users', JSON.stringify([
+    { id: 'user_1', email: 'ada@example.gov', passwordHash: LEGACY_HASH, createdAt: '2024-01-01T00:00:00.000Z' },
+  ]));
+
+  const result = await frontendSignin('ada@example.gov', 'Legacy-Pass-2');
+  assert.equal(result.success, false);
+  assert.equal(storedUsers()[0].passwordHash, LEGACY_HASH);
+  assert.equal(store.get('usda_token'), undefined);
+});
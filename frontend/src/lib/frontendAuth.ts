@@ -1,27 +1,43 @@
 // Frontend-only authentication utilities
 // Stores users in localStorage and handles signup/signin without backend
+// Passwords are stored as salted PBKDF2 hashes (WebCrypto); legacy records are upgraded on sign-in
+
+import { validatePassword } from '../../../shared/passwordPolicy';
 
 interface StoredUser {
   id: string;
   email: string;
   username?: string;
   displayName?: string;
-  passwordHash: string; // Simple hash for demo purposes (not secure!)
+  passwordHash: string; // Base64 PBKDF2 derived key (legacy records: legacyHash)
+  passwordSalt?: string; // Base64 random salt; absent on legacy records
+  passwordIterations?: number; // PBKDF2 iteration count used for this record
   createdAt: string;
   lastLoginAt?: string;
 }
 
+/**
+ * The stored form of a password (also used by the mock backend)
+ */
+export type PasswordRecord = Pick<StoredUser, 'passwordHash' | 'passwordSalt' | 'passwordIterations'>;
+
 interface UserAccount {
   email: string;
   username?: string;
   displayName?: string;
 }
 
+// PBKDF2-HMAC-SHA256 settings for new hashes (OWASP recommendation).
+// Records keep their own iteration count, so raising this upgrades them on next sign-in.
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const KEY_BITS = 256;
+
 /**
- * Simple hash function (for demo purposes only - NOT cryptographically secure!)
- * In production, use proper password hashing (bcrypt, Argon2, etc.)
+ * Legacy 32-bit hash used by accounts created before PBKDF2.
+ * Only used to verify those records once so they can be re-hashed.
  */
-function simpleHash(str: string): string {
+function legacyHash(str: string): string {
   let hash = 0;
   for (let i = 0; i < str.length; i++) {
     const char = str.charCodeAt(i);
@@ -31,6 +47,86 @@ function simpleHash(str: string): string {
   return Math.abs(hash).toString(36);
 }
 
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(value: string) {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Derive a password key with PBKDF2 (WebCrypto)
+ */
+async function derivePasswordKey(password: string, salt: BufferSource, iterations: number): Promise<Uint8Array> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    KEY_BITS
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Hash a password with a fresh random salt
+ */
+export async function hashPassword(password: string, iterations = PBKDF2_ITERATIONS): Promise<PasswordRecord> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const key = await derivePasswordKey(password, salt, iterations);
+  return {
+    passwordHash: toBase64(key),
+    passwordSalt: toBase64(salt),
+    passwordIterations: iterations,
+  };
+}
+
+/**
+ * Compare without returning early, so timing does not reveal how much matched
+ */
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+/**
+ * Check a password against a stored record (PBKDF2 or legacy)
+ */
+export async function verifyPassword(user: PasswordRecord, password: string): Promise<boolean> {
+  if (!user.passwordSalt || !user.passwordIterations) {
+    return user.passwordHash === legacyHash(password);
+  }
+  try {
+    const key = await derivePasswordKey(password, fromBase64(user.passwordSalt), user.passwordIterations);
+    return constantTimeEqual(key, fromBase64(user.passwordHash));
+  } catch (error) {
+    console.error('Failed to verify password:', error);
+    return false;
+  }
+}
+
+/**
+ * Whether a record should be re-hashed with the current settings
+ */
+function needsRehash(user: StoredUser): boolean {
+  return !user.passwordSalt || (user.passwordIterations || 0) < PBKDF2_ITERATIONS;
+}
+
 /**
  * Generate a unique user ID
  */
@@ -99,19 +195,20 @@ function isUsernameTaken(username: string): boolean {
 /**
  * Sign up a new user (frontend-only)
  */
-export function frontendSignup(
+export async function frontendSignup(
   email: string,
   password: string,
   fullName?: string,
   username?: string
-): { success: boolean; user?: UserAccount; error?: string } {
+): Promise<{ success: boolean; user?: UserAccount; error?: string }> {
   // Validation
   if (!email || !password) {
     return { success: false, error: 'Email and password are required' };
   }
 
-  if (password.length < 8) {
-    return { success: false, error: 'Password must be at least 8 characters long' };
+  const passwordError = validatePassword(password, { email, username });
+  if (passwordError) {
+    return { success: false, error: passwordError };
   }
 
   // Check if user already exists
@@ -137,13 +234,21 @@ export function frontendSignup(
     }
   }
 
+  // Hash before re-reading the store so the slow KDF doesn't race other writes
+  const credentials = await hashPassword(password);
+
+  // Another tab may have registered this email while hashing
+  if (findUserByEmail(email)) {
+    return { success: false, error: 'User with this email already exists' };
+  }
+
   // Create user
   const newUser: StoredUser = {
     id: generateUserId(),
     email: email.toLowerCase(),
     username: finalUsername,
     displayName: fullName || null,
-    passwordHash: simpleHash(password), // Simple hash (NOT secure!)
+    ...credentials,
     createdAt: new Date().toISOString(),
     lastLoginAt: new Date().toISOString(),
   };
@@ -174,10 +279,10 @@ export function frontendSignup(
 /**
  * Sign in user (frontend-only)
  */
-export function frontendSignin(
+export async function frontendSignin(
   email: string,
   password: string
-): { success: boolean; user?: UserAccount; error?: string } {
+): Promise<{ success: boolean; user?: UserAccount; error?: string }> {
   // Validation
   if (!email || !password) {
     return { success: false, error: 'Email and password are required' };
@@ -189,17 +294,23 @@ export function frontendSignin(
     return { success: false, error: 'Invalid email or password' };
   }
 
-  // Verify password (simple hash comparison - NOT secure!)
-  const passwordHash = simpleHash(password);
-  if (user.passwordHash !== passwordHash) {
+  // Verify password
+  if (!(await verifyPassword(user, password))) {
     return { success: false, error: 'Invalid email or password' };
   }
 
-  // Update last login
+  // Upgrade legacy or outdated hashes now that we know the password
+  const upgraded = needsRehash(user) ? await hashPassword(password) : null;
+
+  // Update last login (re-read: the KDF is slow and the store may have changed)
   const users = getStoredUsers();
   const userIndex = users.findIndex(u => u.id === user.id);
   if (userIndex !== -1) {
-    users[userIndex].lastLoginAt = new Date().toISOString();
+    users[userIndex] = {
+      ...users[userIndex],
+      ...upgraded,
+      lastLoginAt: new Date().toISOString(),
+    };
     saveStoredUsers(users);
   }
 
@@ -258,6 +369,41 @@ export function verifyFrontendToken(): boolean {
   return user !== null;
 }
 
+/**
+ * The signed-in frontend-only account, if the current session is one (backend tokens are JWTs)
+ */
+export function getFrontendSession(): (UserAccount & { id: string }) | null {
+  const token = localStorage.getItem('usda_token');
+  if (!token || token.includes('.')) return null;
+
+  const user = findUserById(token);
+  if (!user) return null;
+
+  return {
+    id: user.id,
+    email: user.email,
+    username: user.username,
+    displayName: user.displayName || user.username || user.email.split('@')[0],
+  };
+}
+
+/**
+ * A frontend-only account's stored record, without its password hash (for data exports)
+ */
+export function getFrontendUserRecord(userId: string): Omit<StoredUser, 'passwordHash' | 'passwordSalt' | 'passwordIterations'> | null {
+  const user = findUserById(userId);
+  if (!user) return null;
+  const { passwordHash, passwordSalt, passwordIterations, ...record } = user;
+  return record;
+}
+
+/**
+ * Delete a frontend-only account once it has been moved to the backend (or deleted)
+ */
+export function retireFrontendUser(userId: string): void {
+  saveStoredUsers(getStoredUsers().filter(u => u.id !== userId));
+}
+
 /**
  * Clear authentication
  */
@@ -0,0 +1,138 @@
+// Guest mode
+// Workshop attendees can start Learn modules and the first level of each challenge
+// before creating credentials. A guest exists only in this browser; when they sign up
+// (or sign in) their progress is uploaded and their solved levels are resubmitted so
+// the server can verify them and award XP to the new account.
+
+import { syncUserProgress, submitChallengeFlag } from '../utils/api';
+import { type UserProgress } from './userProgress';
+import { type Route } from './routes';
+
+const GUEST_SESSION_KEY = 'usda_guest_session';
+
+// Guests can play levels up to this index in every challenge
+export const GUEST_MAX_LEVEL = 1;
+
+export interface GuestSolve {
+  challengeSlug: string;
+  level: number;
+  flag: string;
+}
+
+export interface GuestSession {
+  id: string;
+  createdAt: string;
+  solves: GuestSolve[];
+}
+
+/**
+ * Get the guest session stored in this browser, if any
+ */
+export function getGuestSession(): GuestSession | null {
+  try {
+    const stored = localStorage.getItem(GUEST_SESSION_KEY);
+    if (stored) {
+      const session = JSON.parse(stored);
+      if (typeof session?.id === 'string' && Array.isArray(session.solves)) {
+        return session;
+      }
+    }
+  } catch (error) {
+    console.error('Failed to load guest session:', error);
+  }
+  return null;
+}
+
+/**
+ * Start a guest session (or resume the one already stored)
+ */
+export function startGuestSession(): GuestSession {
+  const existing = getGuestSession();
+  if (existing) return existing;
+
+  const session: GuestSession = {
+    id: `guest_${crypto.randomUUID()}`,
+    createdAt: new Date().toISOString(),
+    solves: [],
+  };
+  localStorage.setItem(GUEST_SESSION_KEY, JSON.stringify(session));
+  return session;
+}
+
+/**
+ * End the guest session
+ */
+export function clearGuestSession(): void {
+  localStorage.removeItem(GUEST_SESSION_KEY);
+}
+
+/**
+ * Remember a level the guest solved so it can be claimed after sign up
+ */
+export function recordGuestSolve(solve: GuestSolve): void {
+  const session = getGuestSession();
+  if (!session) return;
+
+  const alreadySolved = session.solves.some(
+    (s) => s.challengeSlug === solve.challengeSlug && s.level === solve.level
+  );
+  if (alreadySolved) return;
+
+  session.solves.push(solve);
+  localStorage.setItem(GUEST_SESSION_KEY, JSON.stringify(session));
+}
+
+/**
+ * Whether a guest may open a route (everything else needs an account)
+ */
+export function isGuestRoute(route: Route): boolean {
+  switch (route.page) {
+    case "home":
+    case "learn":
+    case "modules":
+    case "simulation":
+    case "vulnerabilities":
+      return true;
+    case "play":
+      return !route.level || route.level <= GUEST_MAX_LEVEL;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Move the guest's work to the account they just signed up or signed in to, then end the guest session.
+ * Learn progress stays in this browser either way; backend accounts also get it uploaded
+ * and have each solved level resubmitted. Failures are logged, never thrown.
+ */
+export async function claimGuestProgress(
+  userId: string,
+  progress: UserProgress,
+  isBackendAuth: boolean
+): Promise<{ solvesClaimed: number }> {
+  const session = getGuestSession();
+  clearGuestSession();
+  if (!session || !isBackendAuth) return { solvesClaimed: 0 };
+
+  try {
+    await syncUserProgress({
+      userId,
+      completedModules: progress.completedModules,
+      totalScore: progress.totalScore,
+      moduleProgress: progress.moduleProgress,
+    });
+  } catch (error) {
+    console.error('Failed to upload guest progress:', error);
+  }
+
+  let solvesClaimed = 0;
+  for (const solve of session.solves) {
+    try {
+      const result = await submitChallengeFlag(solve.challengeSlug, solve.level, userId, solve.flag);
+      if (result.status === 'passed') solvesClaimed++;
+    } catch (error) {
+      console.error('Failed to claim guest solve:', error);
+    }
+  }
+  return { solvesClaimed };
+}
@@ -1,44 +1,38 @@
 // Hybrid authentication utilities
 // Tries backend API first, falls back to frontend-only auth if backend is unavailable
 
-import { signup as apiSignup, signin as apiSignin, verifyToken, getProfile } from '../utils/api';
+import { signup as apiSignup, signin as apiSignin, logout as apiLogout, verifyMfaSignin, isMfaChallenge, verifyToken, getProfile, getTokenRole, isBackendToken, apiTransport, queryKeys, type UserRole } from '../utils/api';
+import { fetchQuery, clearQueryCache } from '../utils/queryCache';
 import { frontendSignup, frontendSignin, getCurrentUser as getFrontendUser, verifyFrontendToken, clearFrontendAuth } from './frontendAuth';
 
-// Get API base URL (same as in api.ts)
-const getApiBaseUrl = (): string => {
-  try {
-    const env = (import.meta as any).env;
-    return env?.VITE_API_BASE_URL || 'http://localhost:5100';
-  } catch (error) {
-    return 'http://localhost:5100';
-  }
-};
-
-const API_BASE_URL = getApiBaseUrl();
-
-interface UserAccount {
+export interface UserAccount {
   email: string;
   username?: string;
   displayName?: string;
   id?: string;
+  role?: UserRole;
 }
 
-interface AuthResult {
+export interface AuthResult {
   success: boolean;
   user?: UserAccount;
   error?: string;
   isBackendAuth?: boolean;
+  mfaToken?: string; // Set when the backend wants a second factor; finish with hybridVerifyMfa
+  ssoLink?: { token: string; email: string }; // SSO sign in into an existing account; finish with linkSsoAccount
+  recoveryCodesRemaining?: number;
 }
 
 /**
  * Check if backend API is available
  */
-async function isBackendAvailable(): Promise<boolean> {
+export async function isBackendAvailable(): Promise<boolean> {
   try {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 2000); // 2 second timeout
     
-    const response = await fetch(`${API_BASE_URL}/`, {
+    // Goes through the API transport so the mock backend counts as available
+    const response = await apiTransport('/', {
       method: 'GET',
       signal: controller.signal,
     });
@@ -75,9 +69,10 @@ export async function hybridSignup(
           success: true,
           user: {
             email: response.user.email,
-            username: response.user.username,
+            username: response.user.username ?? undefined,
             displayName: response.user.name,
             id: response.user.id,
+            role: response.user.role ?? getTokenRole() ?? undefined,
           },
           isBackendAuth: true,
         };
@@ -89,7 +84,7 @@ export async function hybridSignup(
   }
 
   // Fallback to frontend-only auth
-  const result = frontendSignup(email, password, fullName, username);
+  const result = await frontendSignup(email, password, fullName, username);
   if (result.success && result.user) {
     return {
       success: true,
@@ -120,14 +115,19 @@ export async function hybridSignin(
         password,
       });
 
+      if (isMfaChallenge(response)) {
+        return { success: false, mfaToken: response.mfaToken, isBackendAuth: true };
+      }
+
       if (response.token && response.user) {
         return {
           success: true,
           user: {
             email: response.user.email,
-            username: response.user.username,
+            username: response.user.username ?? undefined,
             displayName: response.user.name,
             id: response.user.id,
+            role: response.user.role ?? getTokenRole() ?? undefined,
           },
           isBackendAuth: true,
         };
@@ -139,7 +139,7 @@ export async function hybridSignin(
   }
 
   // Fallback to frontend-only auth
-  const result = frontendSignin(email, password);
+  const result = await frontendSignin(email, password);
   if (result.success && result.user) {
     return {
       success: true,
@@ -154,6 +154,30 @@ export async function hybridSignin(
   return result;
 }
 
+/**
+ * Second step of a backend signin for accounts with two-factor authentication.
+ * There is no frontend fallback: only backend accounts can have a second factor.
+ */
+export async function hybridVerifyMfa(mfaToken: string, code: string): Promise<AuthResult> {
+  try {
+    const response = await verifyMfaSignin(mfaToken, code);
+    return {
+      success: true,
+      user: {
+        email: response.user.email,
+        username: response.user.username ?? undefined,
+        displayName: response.user.name,
+        id: response.user.id,
+        role: response.user.role ?? getTokenRole() ?? undefined,
+      },
+      isBackendAuth: true,
+      recoveryCodesRemaining: response.recoveryCodesRemaining,
+    };
+  } catch (error: any) {
+    return { success: false, error: error?.message || 'Could not verify the code. Please try again.' };
+  }
+}
+
 /**
  * Hybrid get current user - tries backend first, falls back to frontend
  */
@@ -163,17 +187,19 @@ export async function getHybridCurrentUser(): Promise<UserAccount | null> {
   if (!token) return null;
 
   // Try backend first if token looks like a JWT (contains dots)
-  if (token.includes('.')) {
+  if (isBackendToken(token)) {
     try {
       const isValid = await verifyToken();
       if (isValid) {
         try {
-          const profile = await getProfile();
+          // Shared with other screens through the query cache
+          const profile = await fetchQuery(queryKeys.profile, getProfile);
           return {
             email: profile.email,
-            username: profile.username,
+            username: profile.username ?? undefined,
             displayName: profile.name,
             id: profile.id,
+            role: profile.role ?? getTokenRole() ?? undefined,
           };
         } catch (error) {
           console.log('Backend profile fetch failed, falling back to frontend:', error);
@@ -198,7 +224,7 @@ export async function verifyHybridToken(): Promise<boolean> {
   if (!token) return false;
 
   // If token looks like a JWT, try backend verification
-  if (token.includes('.')) {
+  if (isBackendToken(token)) {
     try {
       return await verifyToken();
     } catch (error) {
@@ -218,7 +244,16 @@ export function clearHybridAuth(): void {
   // Clear frontend auth
   clearFrontendAuth();
   
-  // Backend logout is handled by clearing the token (stateless JWT)
-  // Additional cleanup if needed
+  // The backend token was removed with the frontend one (both use usda_token)
+  // Cached API results belong to the previous user
+  clearQueryCache();
+}
+
+/**
+ * Sign out on purpose: revoke the backend session so its token stops working, then clear local auth
+ */
+export async function hybridLogout(): Promise<void> {
+  await apiLogout();
+  clearHybridAuth();
 }
 
@@ -0,0 +1,1152 @@
+// In-browser mock backend
+// Implements the REST API used by utils/api.ts (auth, two-factor, leaderboard, progress and
+// challenges) on top of localStorage, so the whole app can run with no Postgres
+// and no Gemini key. Enable with VITE_API_TRANSPORT=mock.
+
+import { getMockChallenge, mockChallenges, targetBotReply, type MockDifficulty } from './targetBot';
+import { calculateTotalScore, mergeModuleProgress, normalizeModuleProgress, isIsoDate, isQuizScore, type ModuleProgress } from './userProgress';
+import { validatePassword } from '../../../shared/passwordPolicy';
+import { hashPassword, verifyPassword, type PasswordRecord } from './frontendAuth';
+
+const DB_KEY = 'mock_backend_db';
+const TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60; // Matches the backend default (7d)
+const LATENCY_MS = 150;
+const TOKEN_INTERVAL_MS = 40; // Delay between streamed chunks
+const RESET_TTL_MS = 30 * 60 * 1000; // Matches PASSWORD_RESET_TTL_MINUTES on the backend
+const CONTACT_CODE_TTL_MS = 10 * 60 * 1000; // Matches CONTACT_CODE_TTL_MINUTES on the backend
+const MAX_CONTACT_CODE_ATTEMPTS = 5;
+const CONTACT_CODE_RESEND_MS = 60 * 1000; // Matches CONTACT_CODE_RESEND_SECONDS on the backend
+const MFA_TOKEN_TTL_SECONDS = 5 * 60; // Matches the backend's MFA challenge token
+const MAX_MFA_ATTEMPTS = 5;
+const MFA_LOCKOUT_MS = 15 * 60 * 1000; // Matches MFA_LOCKOUT_MINUTES on the backend
+const SESSION_LAST_SEEN_INTERVAL_MS = 60 * 1000; // Matches lib/sessions.js on the backend
+const TOTP_STEP_SECONDS = 30;
+// Far below the device-only accounts' count: this is demo data, and hashing should not slow requests down
+const MOCK_PASSWORD_ITERATIONS = 10000;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+interface MockUser {
+  id: string;
+  email: string;
+  username: string;
+  displayName: string | null;
+  phoneNumber?: string | null;
+  role: 'USER' | 'ADMIN';
+  xpTotal: number;
+  lastLoginAt: string | null;
+  createdAt: string;
+  password?: PasswordRecord; // Absent on users stored before the mock checked passwords (they reset it)
+  mfa?: MockMfa;
+}
+
+// Secrets and recovery codes are kept in plain text: this is browser-local demo data
+interface MockMfa {
+  secret: string | null; // Set once enrolment is confirmed
+  pendingSecret: string | null;
+  lastUsedStep: number | null;
+  recoveryCodes: string[]; // Unused codes only
+  failedAttempts: number;
+  lockedUntil: number | null;
+}
+
+interface MockDb {
+  users: MockUser[];
+  completedLevels: Record<string, string[]>; // userId -> ["slug:level"]
+  progress: Record<string, MockProgress>; // userId -> merged Learn progress
+  resetTokens?: Record<string, { userId: string; expiresAt: number }>; // Unused password reset tokens
+  contactCodes?: Record<string, MockContactCode>; // "userId:channel" -> pending email/phone change
+  sessions?: Record<string, MockSession>; // sessionId -> signed-in device; removed when revoked
+}
+
+interface MockSession {
+  userId: string;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  expiresAt: number;
+}
+
+interface MockContactCode {
+  target: string;
+  code: string;
+  attempts: number;
+  expiresAt: number;
+  sentAt?: number; // Missing on codes stored before resends were limited
+}
+
+interface MockProgress {
+  completedModules: number[];
+  moduleProgress: Record<string, ModuleProgress>;
+}
+
+interface MockRequest {
+  method: string;
+  path: string;
+  body: any;
+  userId: string | null;
+  sessionId: string | null;
+}
+
+interface MockResponse {
+  status: number;
+  body: unknown;
+  events?: { event: string; data: unknown }[]; // Sent as server-sent events instead of `body`
+}
+
+// Same slugs as backend/Controllers/challengesController.js
+const CHALLENGE_ROUTES: Record<string, string> = {
+  challenge1: 'prompt-injection',
+  challenge2: 'misinformation',
+  challenge3: 'sensitive-information-disclosure',
+  challenge4: 'improper-output-handling',
+};
+
+// Same rewards as lib/seedChallenges.js
+const XP_REWARDS: Record<MockDifficulty, number> = {
+  EASY: 50,
+  MEDIUM: 100,
+  HARD: 150,
+};
+
+// Demo players so the leaderboard is never empty, plus an instructor for the admin pages
+// Every seeded user signs in with SEED_PASSWORD ("Harvest-Moon-26", see README)
+const SEED_PASSWORD: PasswordRecord = {
+  passwordHash: 'rhv8duZiyOkfX5cbgoqm5UNuMewHTIBOj+IDkHXPBbo=',
+  passwordSalt: 'bW9jay1zZWVkLXVzZXJzIQ==',
+  passwordIterations: MOCK_PASSWORD_ITERATIONS,
+};
+
+const SEED_USERS: MockUser[] = [
+  { id: 'mock_seed_admin', email: 'instructor@example.gov', username: 'instructor', displayName: 'Ian Instructor', role: 'ADMIN', xpTotal: 0, lastLoginAt: null, createdAt: '2024-01-01T00:00:00.000Z', password: SEED_PASSWORD },
+  { id: 'mock_seed_1', email: 'ada@example.gov', username: 'ada', displayName: 'Ada Analyst', role: 'USER', xpTotal: 850, lastLoginAt: null, createdAt: '2024-01-01T00:00:00.000Z', password: SEED_PASSWORD },
+  { id: 'mock_seed_2', email: 'grace@example.gov', username: 'grace', displayName: 'Grace Red', role: 'USER', xpTotal: 600, lastLoginAt: null, createdAt: '2024-01-01T00:00:00.000Z', password: SEED_PASSWORD },
+  { id: 'mock_seed_3', email: 'alan@example.gov', username: 'alan', displayName: 'Alan Blue', role: 'USER', xpTotal: 300, lastLoginAt: null, createdAt: '2024-01-01T00:00:00.000Z', password: SEED_PASSWORD },
+];
+
+// ---------------- storage ----------------
+function loadDb(): MockDb {
+  try {
+    const stored = localStorage.getItem(DB_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error('Failed to load mock backend data:', error);
+  }
+  return { users: [...SEED_USERS], completedLevels: {}, progress: {} };
+}
+
+function saveDb(db: MockDb): void {
+  localStorage.setItem(DB_KEY, JSON.stringify(db));
+}
+
+// ---------------- tokens ----------------
+const base64Url = (value: string) => btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * Issue an unsigned JWT-shaped token (header.payload.signature) so code that
+ * inspects the token (e.g. `token.includes('.')`, exp decoding) behaves as with the real backend
+ */
+function issueToken(user: MockUser, sessionId: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = base64Url(JSON.stringify({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sid: sessionId,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+  }));
+  return `${header}.${payload}.mock`;
+}
+
+function readToken(authHeader: string | null): { userId: string; sessionId: string } | null {
+  if (!authHeader) return null;
+  const token = authHeader.replace(/^Bearer\s+/i, '');
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    // Single-purpose tokens (the MFA sign-in step) are not sessions
+    if (!payload.userId || !payload.sid || payload.purpose || payload.exp * 1000 < Date.now()) return null;
+    return { userId: payload.userId, sessionId: payload.sid };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Start a session for a user who just signed in and return its token (call saveDb afterwards)
+ */
+function startSession(db: MockDb, user: MockUser): string {
+  const sessionId = crypto.randomUUID();
+  const now = new Date().toISOString();
+  (db.sessions ||= {})[sessionId] = {
+    userId: user.id,
+    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: Date.now() + TOKEN_TTL_SECONDS * 1000,
+  };
+  return issueToken(user, sessionId);
+}
+
+/**
+ * Whether the request's session is still active, like the backend's authenticate middleware
+ */
+function touchSession(db: MockDb, req: MockRequest): boolean {
+  const session = req.sessionId ? db.sessions?.[req.sessionId] : undefined;
+  if (!session || session.userId !== req.userId || session.expiresAt < Date.now()) return false;
+
+  if (Date.now() - new Date(session.lastSeenAt).getTime() > SESSION_LAST_SEEN_INTERVAL_MS) {
+    session.lastSeenAt = new Date().toISOString();
+    saveDb(db);
+  }
+  return true;
+}
+
+function revokeUserSessions(db: MockDb, userId: string, exceptSessionId?: string | null): number {
+  let count = 0;
+  for (const [sessionId, session] of Object.entries(db.sessions || {})) {
+    if (session.userId === userId && sessionId !== exceptSessionId) {
+      delete db.sessions![sessionId];
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Short-lived token for the second sign-in step, as issued by the backend when MFA is enabled
+ */
+function issueMfaToken(user: MockUser): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = base64Url(JSON.stringify({ userId: user.id, purpose: 'mfa', iat: now, exp: now + MFA_TOKEN_TTL_SECONDS }));
+  return `${header}.${payload}.mock`;
+}
+
+function readMfaToken(token: unknown): string | null {
+  if (typeof token !== 'string') return null;
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    if (payload.purpose !== 'mfa' || payload.exp * 1000 < Date.now()) return null;
+    return payload.userId;
+  } catch {
+    return null;
+  }
+}
+
+// ---------------- two-factor (TOTP, RFC 6238) ----------------
+function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(text: string) {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of text.toUpperCase()) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+async function totpCode(secret: string, step: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+  const hmac = new DataView(await crypto.subtle.sign('HMAC', key, counter.buffer));
+  const offset = hmac.getUint8(hmac.byteLength - 1) & 0x0f;
+  return String((hmac.getUint32(offset) & 0x7fffffff) % 1000000).padStart(6, '0');
+}
+
+/**
+ * The matching time step (allowing one step of clock drift), or null; steps up to `lastUsedStep` are refused
+ */
+async function verifyTotp(secret: string, code: string, lastUsedStep: number | null = null): Promise<number | null> {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const now = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let step = now - 1; step <= now + 1; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (await totpCode(secret, step) === normalized) return step;
+  }
+  return null;
+}
+
+function normalizeRecoveryCode(code: string): string {
+  const clean = code.toLowerCase().replace(/[\s-]/g, '');
+  return clean.length === 8 ? `${clean.slice(0, 4)}-${clean.slice(4)}` : clean;
+}
+
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: 10 }, () => {
+    const raw = base32Encode(crypto.getRandomValues(new Uint8Array(5))).toLowerCase();
+    return `${raw.slice(0, 4)}-${raw.slice(4, 8)}`;
+  });
+}
+
+// ---------------- handlers ----------------
+const json = (status: number, body: unknown): MockResponse => ({ status, body });
+const unauthorized = () => json(401, { error: 'Invalid or expired token. Please log in again.' });
+
+function publicUser(user: MockUser) {
+  return {
+    id: user.id,
+    name: user.displayName || user.username || user.email,
+    email: user.email,
+    username: user.username,
+    role: user.role,
+  };
+}
+
+async function handleAuth(db: MockDb, req: MockRequest, action: string): Promise<MockResponse> {
+  if (action === 'signup' && req.method === 'POST') {
+    const { email, password, fullName, username } = req.body || {};
+    if (!email || !password) return json(400, { error: 'Email and password are required' });
+    const passwordError = validatePassword(String(password), { email, username });
+    if (passwordError) return json(400, { error: passwordError });
+    if (db.users.some((u) => u.email === String(email).toLowerCase())) {
+      return json(409, { error: 'User with this email already exists' });
+    }
+    if (username && db.users.some((u) => u.username === username)) {
+      return json(409, { error: 'Username already taken' });
+    }
+
+    const user: MockUser = {
+      id: `mock_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      email: String(email).toLowerCase(),
+      username: username || String(email).split('@')[0],
+      displayName: fullName || null,
+      role: 'USER',
+      xpTotal: 0,
+      lastLoginAt: new Date().toISOString(),
+      createdAt: new Date().toISOString(),
+      password: await hashPassword(String(password), MOCK_PASSWORD_ITERATIONS),
+    };
+    db.users.push(user);
+    const token = startSession(db, user);
+    saveDb(db);
+
+    return json(201, { message: 'User created successfully', user: publicUser(user), token });
+  }
+
+  if (action === 'signin' && req.method === 'POST') {
+    const { email, password } = req.body || {};
+    if (!email || !password) return json(400, { error: 'Email and password are required' });
+    const user = db.users.find((u) => u.email === String(email).toLowerCase());
+    if (!user?.password || !(await verifyPassword(user.password, String(password)))) {
+      return json(401, { error: 'Invalid email or password' });
+    }
+
+    if (user.mfa?.secret) {
+      // Stands in for the user's authenticator app
+      totpCode(user.mfa.secret, Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS))
+        .then((code) => console.info(`[mock mfa] Current authenticator code for ${user.email}: ${code}`));
+      return json(200, { message: 'Enter the code from your authenticator app', mfaRequired: true, mfaToken: issueMfaToken(user) });
+    }
+
+    user.lastLoginAt = new Date().toISOString();
+    const token = startSession(db, user);
+    saveDb(db);
+
+    return json(200, { message: 'Sign in successful', user: publicUser(user), token });
+  }
+
+  const user = db.users.find((u) => u.id === req.userId);
+  if (!user) return unauthorized();
+
+  if (action === 'verify' && req.method === 'GET') {
+    return json(200, { valid: true, user: { userId: user.id, email: user.email, role: user.role } });
+  }
+
+  if (action === 'refresh' && req.method === 'POST') {
+    db.sessions![req.sessionId!].expiresAt = Date.now() + TOKEN_TTL_SECONDS * 1000;
+    saveDb(db);
+    return json(200, { message: 'Token refreshed', token: issueToken(user, req.sessionId!) });
+  }
+
+  if (action === 'logout' && req.method === 'POST') {
+    delete db.sessions![req.sessionId!];
+    saveDb(db);
+    return json(200, { message: 'Signed out' });
+  }
+
+  if (action === 'profile' && req.method === 'GET') {
+    return json(200, { user: profileUser(user) });
+  }
+
+  if (action === 'profile' && req.method === 'PATCH') {
+    return updateMockProfile(db, user, req.body || {});
+  }
+
+  return json(404, { msg: `Not Found: /auth/${action}` });
+}
+
+function profileUser(user: MockUser) {
+  return {
+    ...publicUser(user),
+    phoneNumber: user.phoneNumber ?? null,
+    xpTotal: user.xpTotal,
+    lastLoginAt: user.lastLoginAt,
+    hasPassword: !!user.password,
+  };
+}
+
+/**
+ * Start a pending email/phone change; the code is "delivered" to the browser console
+ */
+function issueContactCode(db: MockDb, user: MockUser, channel: 'email' | 'phone', target: string) {
+  const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, '0');
+  const expiresAt = Date.now() + CONTACT_CODE_TTL_MS;
+  (db.contactCodes ||= {})[`${user.id}:${channel}`] = { target, code, attempts: 0, expiresAt, sentAt: Date.now() };
+  console.info(`[mock ${channel === 'email' ? 'mail' : 'sms'}] To: ${target}\nYour verification code is ${code}`);
+  return { channel, target, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+// Same rules as updateProfile in backend/Controllers/authController.js
+function updateMockProfile(db: MockDb, user: MockUser, body: any): MockResponse {
+  const { fullName, username, email, phoneNumber } = body;
+
+  if (fullName !== undefined && String(fullName).trim().length > 100) {
+    return json(400, { error: 'Full name must be at most 100 characters' });
+  }
+
+  const newUsername = username !== undefined && username !== user.username ? String(username).trim() : null;
+  if (newUsername !== null) {
+    if (!/^[a-z0-9_.-]{3,30}$/i.test(newUsername)) {
+      return json(400, { error: 'Username must be 3-30 letters, numbers, dots, dashes or underscores' });
+    }
+    if (db.users.some((u) => u.username === newUsername && u.id !== user.id)) {
+      return json(409, { error: 'Username already taken' });
+    }
+  }
+
+  const requestedEmail = email !== undefined ? String(email).trim().toLowerCase() : user.email;
+  const newEmail = requestedEmail !== user.email ? requestedEmail : null;
+  if (newEmail !== null) {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(newEmail)) return json(400, { error: 'Please enter a valid email address' });
+    if (db.users.some((u) => u.email === newEmail)) return json(409, { error: 'User with this email already exists' });
+  }
+
+  const normalizedPhone = phoneNumber ? String(phoneNumber).replace(/[\s().-]/g, '') : '';
+  const newPhone = phoneNumber !== undefined && normalizedPhone && normalizedPhone !== user.phoneNumber ? normalizedPhone : null;
+  if (newPhone !== null && !/^\+?[0-9]{7,15}$/.test(newPhone)) {
+    return json(400, { error: 'Please enter a valid phone number' });
+  }
+
+  if (fullName !== undefined) user.displayName = String(fullName).trim() || null;
+  if (newUsername !== null) user.username = newUsername;
+  if (phoneNumber !== undefined && !normalizedPhone) user.phoneNumber = null;
+
+  const pendingVerifications = [];
+  if (newEmail) pendingVerifications.push(issueContactCode(db, user, 'email', newEmail));
+  if (newPhone) pendingVerifications.push(issueContactCode(db, user, 'phone', newPhone));
+  saveDb(db);
+
+  return json(200, { user: profileUser(user), pendingVerifications });
+}
+
+function handleContactVerification(db: MockDb, req: MockRequest, step?: string): MockResponse {
+  const user = db.users.find((u) => u.id === req.userId);
+  if (!user) return unauthorized();
+
+  const channel = req.body?.channel;
+  if (channel !== 'email' && channel !== 'phone') {
+    return json(400, { error: step ? 'channel must be email or phone' : 'channel (email or phone) and code are required' });
+  }
+  const key = `${user.id}:${channel}`;
+  const pending = db.contactCodes?.[key];
+
+  if (step === 'resend' && req.method === 'POST') {
+    if (!pending) return json(404, { error: 'No pending change to verify' });
+    if (Date.now() - (pending.sentAt ?? 0) < CONTACT_CODE_RESEND_MS) {
+      return json(429, { error: `Please wait ${CONTACT_CODE_RESEND_MS / 1000} seconds before requesting another code.` });
+    }
+    const pendingVerification = issueContactCode(db, user, channel, pending.target);
+    saveDb(db);
+    return json(200, { pendingVerification });
+  }
+
+  if (!step && req.method === 'POST') {
+    const code = String(req.body?.code || '').trim();
+    if (!code) return json(400, { error: 'channel (email or phone) and code are required' });
+    if (!pending || pending.expiresAt < Date.now()) {
+      return json(400, { error: 'Verification code is invalid or has expired' });
+    }
+    if (pending.attempts >= MAX_CONTACT_CODE_ATTEMPTS) {
+      return json(429, { error: 'Too many incorrect codes. Request a new code.' });
+    }
+    pending.attempts += 1;
+    if (code !== pending.code) {
+      saveDb(db);
+      return json(400, { error: 'Incorrect verification code' });
+    }
+
+    delete db.contactCodes![key];
+    if (channel === 'email') {
+      if (db.users.some((u) => u.email === pending.target && u.id !== user.id)) {
+        saveDb(db);
+        return json(409, { error: 'User with this email already exists' });
+      }
+      user.email = pending.target;
+    } else {
+      user.phoneNumber = pending.target;
+    }
+    saveDb(db);
+
+    return json(200, {
+      user: profileUser(user),
+      ...(channel === 'email' && { token: issueToken(user, req.sessionId!) }),
+    });
+  }
+
+  return json(404, { msg: `Not Found: /auth/profile/verify${step ? `/${step}` : ''}` });
+}
+
+/**
+ * Same rules as checkSecondFactor in backend/lib/mfa.js.
+ * Returns null when the authenticator or recovery code is accepted.
+ */
+async function checkSecondFactor(mfa: MockMfa, code: string): Promise<MockResponse | null> {
+  if (mfa.lockedUntil && mfa.lockedUntil > Date.now()) {
+    const minutes = Math.ceil((mfa.lockedUntil - Date.now()) / 60000);
+    return json(429, { error: `Too many incorrect codes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.` });
+  }
+
+  const step = await verifyTotp(mfa.secret!, code, mfa.lastUsedStep);
+  const recoveryIndex = step === null ? mfa.recoveryCodes.indexOf(normalizeRecoveryCode(code)) : -1;
+  if (step !== null || recoveryIndex !== -1) {
+    if (step !== null) mfa.lastUsedStep = step;
+    if (recoveryIndex !== -1) mfa.recoveryCodes.splice(recoveryIndex, 1);
+    mfa.failedAttempts = 0;
+    mfa.lockedUntil = null;
+    return null;
+  }
+
+  mfa.failedAttempts += 1;
+  if (mfa.failedAttempts >= MAX_MFA_ATTEMPTS) {
+    mfa.failedAttempts = 0;
+    mfa.lockedUntil = Date.now() + MFA_LOCKOUT_MS;
+  }
+  return json(400, { error: 'Invalid authentication code' });
+}
+
+async function handleMfa(db: MockDb, req: MockRequest, step?: string): Promise<MockResponse> {
+  const code = String(req.body?.code || '');
+
+  if (step === 'verify' && req.method === 'POST') {
+    if (!req.body?.mfaToken || !code) return json(400, { error: 'Sign-in token and code are required' });
+    const userId = readMfaToken(req.body.mfaToken);
+    const user = db.users.find((u) => u.id === userId);
+    if (!user?.mfa?.secret) return json(401, { error: 'Sign-in step expired. Please sign in again.' });
+
+    const failure = await checkSecondFactor(user.mfa, code);
+    if (failure) {
+      saveDb(db);
+      return failure;
+    }
+    user.lastLoginAt = new Date().toISOString();
+    const token = startSession(db, user);
+    saveDb(db);
+    return json(200, {
+      message: 'Sign in successful',
+      user: publicUser(user),
+      token,
+      recoveryCodesRemaining: user.mfa.recoveryCodes.length,
+    });
+  }
+
+  const user = db.users.find((u) => u.id === req.userId);
+  if (!user) return unauthorized();
+  const mfa: MockMfa = user.mfa ||= {
+    secret: null, pendingSecret: null, lastUsedStep: null, recoveryCodes: [], failedAttempts: 0, lockedUntil: null,
+  };
+
+  if (!step && req.method === 'GET') {
+    return json(200, { enabled: !!mfa.secret, recoveryCodesRemaining: mfa.secret ? mfa.recoveryCodes.length : 0 });
+  }
+
+  if (step === 'setup' && req.method === 'POST') {
+    if (mfa.secret) return json(409, { error: 'Two-factor authentication is already enabled' });
+    mfa.pendingSecret = base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+    saveDb(db);
+    const issuer = 'USDA AI Red Team';
+    return json(200, {
+      secret: mfa.pendingSecret,
+      otpauthUri: `otpauth://totp/${encodeURIComponent(`${issuer}:${user.email}`)}?secret=${mfa.pendingSecret}`
+        + `&issuer=${encodeURIComponent(issuer)}&algorithm=SHA1&digits=6&period=${TOTP_STEP_SECONDS}`,
+    });
+  }
+
+  if (step === 'enable' && req.method === 'POST') {
+    if (!code) return json(400, { error: 'Code is required' });
+    if (mfa.secret) return json(409, { error: 'Two-factor authentication is already enabled' });
+    if (!mfa.pendingSecret) return json(400, { error: 'Start two-factor setup first' });
+    const matched = await verifyTotp(mfa.pendingSecret, code);
+    if (matched === null) {
+      return json(400, { error: 'Invalid authentication code. Check the time on your device and try again.' });
+    }
+    Object.assign(mfa, {
+      secret: mfa.pendingSecret,
+      pendingSecret: null,
+      lastUsedStep: matched,
+      recoveryCodes: generateRecoveryCodes(),
+      failedAttempts: 0,
+      lockedUntil: null,
+    });
+    saveDb(db);
+    return json(200, { recoveryCodes: mfa.recoveryCodes });
+  }
+
+  if ((step === 'disable' || step === 'recovery-codes') && req.method === 'POST') {
+    if (!code) return json(400, { error: 'Code is required' });
+    if (!mfa.secret) return json(400, { error: 'Two-factor authentication is not enabled' });
+    const failure = await checkSecondFactor(mfa, code);
+    if (failure) {
+      saveDb(db);
+      return failure;
+    }
+    if (step === 'disable') {
+      delete user.mfa;
+      saveDb(db);
+      return json(200, { message: 'Two-factor authentication has been turned off' });
+    }
+    mfa.recoveryCodes = generateRecoveryCodes();
+    saveDb(db);
+    return json(200, { recoveryCodes: mfa.recoveryCodes });
+  }
+
+  return json(404, { msg: `Not Found: /auth/mfa${step ? `/${step}` : ''}` });
+}
+
+// Learn score is derived from the completed modules, as on the backend
+const learnScore = (db: MockDb, userId: string) =>
+  calculateTotalScore(db.progress[userId]?.completedModules || []);
+
+function handleAdmin(db: MockDb, req: MockRequest, rest: string[]): MockResponse {
+  const admin = db.users.find((u) => u.id === req.userId);
+  if (!admin) return unauthorized();
+  if (admin.role !== 'ADMIN') return json(403, { error: 'Insufficient permissions' });
+
+  if (rest.length === 1 && rest[0] === 'users' && req.method === 'GET') {
+    return json(200, {
+      users: db.users.map((u) => ({
+        id: u.id,
+        name: u.displayName || u.username || u.email,
+        email: u.email,
+        role: u.role,
+        xpTotal: u.xpTotal,
+        learnScore: learnScore(db, u.id),
+        lastLoginAt: u.lastLoginAt,
+        createdAt: u.createdAt,
+      })),
+    });
+  }
+
+  if (rest.length === 3 && rest[0] === 'users' && rest[2] === 'role' && req.method === 'PATCH') {
+    const role = req.body?.role;
+    if (role !== 'USER' && role !== 'ADMIN') return json(400, { error: 'role must be one of USER, ADMIN' });
+
+    const userId = decodeURIComponent(rest[1]);
+    if (userId === admin.id) return json(400, { error: 'You cannot change your own role' });
+
+    const user = db.users.find((u) => u.id === userId);
+    if (!user) return json(404, { error: 'User not found' });
+
+    // Like the backend, a role change signs the user out everywhere (their tokens carry the old role)
+    if (user.role !== role) revokeUserSessions(db, user.id);
+    user.role = role;
+    saveDb(db);
+    return json(200, { user: { id: user.id, role: user.role } });
+  }
+
+  return json(404, { msg: `Not Found: /admin/${rest.join('/')}` });
+}
+
+/**
+ * Active sessions list and remote sign out, same shapes as backend/Controllers/sessionController.js
+ */
+function handleSessions(db: MockDb, req: MockRequest, sessionId?: string): MockResponse {
+  const user = db.users.find((u) => u.id === req.userId);
+  if (!user) return unauthorized();
+
+  if (!sessionId && req.method === 'GET') {
+    const sessions = Object.entries(db.sessions || {})
+      .filter(([, session]) => session.userId === user.id && session.expiresAt > Date.now())
+      .map(([id, session]) => ({
+        id,
+        ip: null,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt,
+        lastSeenAt: session.lastSeenAt,
+        current: id === req.sessionId,
+      }))
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+    return json(200, { sessions });
+  }
+
+  if (!sessionId && req.method === 'DELETE') {
+    const revoked = revokeUserSessions(db, user.id, req.sessionId);
+    saveDb(db);
+    return json(200, {
+      message: revoked === 1 ? 'Signed out 1 other session' : `Signed out ${revoked} other sessions`,
+      revoked,
+    });
+  }
+
+  if (sessionId && req.method === 'DELETE') {
+    const id = decodeURIComponent(sessionId);
+    if (db.sessions?.[id]?.userId !== user.id) return json(404, { error: 'Session not found' });
+    delete db.sessions![id];
+    saveDb(db);
+    return json(200, { message: id === req.sessionId ? 'Signed out' : 'Session signed out' });
+  }
+
+  return json(404, { msg: `Not Found: /auth/sessions${sessionId ? `/${sessionId}` : ''}` });
+}
+
+/**
+ * Password reset: the "email" is logged to the browser console instead of sent
+ */
+async function handlePasswordReset(db: MockDb, req: MockRequest, step: string): Promise<MockResponse> {
+  const resetTokens = (db.resetTokens ||= {});
+
+  if (step === 'request' && req.method === 'POST') {
+    const email = String(req.body?.email || '').toLowerCase();
+    if (!email) return json(400, { error: 'Email is required' });
+
+    const user = db.users.find((u) => u.email === email);
+    if (user) {
+      // A new link replaces any earlier unused ones
+      for (const [token, entry] of Object.entries(resetTokens)) {
+        if (entry.userId === user.id) delete resetTokens[token];
+      }
+      const token = Array.from(crypto.getRandomValues(new Uint8Array(32)), (b) => b.toString(16).padStart(2, '0')).join('');
+      resetTokens[token] = { userId: user.id, expiresAt: Date.now() + RESET_TTL_MS };
+      saveDb(db);
+      console.info(`[mock mail] To: ${user.email}\nReset your password: ${window.location.origin}/?reset_token=${token}`);
+    }
+    return json(200, { message: 'If an account exists for that email, a reset link has been sent.' });
+  }
+
+  if (step === 'confirm' && req.method === 'POST') {
+    const { token, password } = req.body || {};
+    if (!token || !password) return json(400, { error: 'Reset token and new password are required' });
+
+    const entry = resetTokens[token];
+    if (!entry || entry.expiresAt < Date.now()) return json(400, { error: 'Reset link is invalid or has expired' });
+    const user = db.users.find((u) => u.id === entry.userId);
+    const passwordError = validatePassword(String(password), user);
+    if (passwordError) return json(400, { error: passwordError });
+
+    // Single use, and the user is signed out everywhere
+    if (user) user.password = await hashPassword(String(password), MOCK_PASSWORD_ITERATIONS);
+    delete resetTokens[token];
+    revokeUserSessions(db, entry.userId);
+    saveDb(db);
+    return json(200, { message: 'Password has been reset. You can now sign in.' });
+  }
+
+  return json(404, { msg: `Not Found: /auth/password-reset/${step}` });
+}
+
+function handleLeaderboard(db: MockDb, req: MockRequest, action?: string): MockResponse {
+  const user = db.users.find((u) => u.id === req.userId);
+  if (!user) return unauthorized();
+
+  if (!action && req.method === 'GET') {
+    const leaderboard = db.users
+      .map((u) => ({
+        id: u.id,
+        name: u.displayName || u.username || u.email.split('@')[0],
+        score: u.xpTotal + learnScore(db, u.id),
+      }))
+      .sort((a, b) => b.score - a.score);
+    return json(200, leaderboard);
+  }
+
+  if (action === 'update' && req.method === 'POST') {
+    const points = req.body?.points;
+    if (!points || typeof points !== 'number' || points < 0) return json(400, { error: 'Invalid points value' });
+    user.xpTotal += points;
+    saveDb(db);
+    return json(200, { success: true, newScore: user.xpTotal });
+  }
+
+  return json(404, { msg: `Not Found: /leaderboard/${action}` });
+}
+
+function handleProgress(db: MockDb, req: MockRequest, action?: string): MockResponse {
+  if (!db.users.some((u) => u.id === req.userId)) return unauthorized();
+
+  const userId = req.userId as string;
+
+  if (action === 'sync' && req.method === 'POST') {
+    const { completedModules, moduleProgress = {} } = req.body || {};
+    if (!Array.isArray(completedModules)) return json(400, { error: 'completedModules must be an array of module ids' });
+    for (const [key, entry] of Object.entries(moduleProgress as Record<string, unknown>)) {
+      if (typeof entry !== 'object' || entry === null) continue;
+      const { quizScore, lastAccessedDate } = entry as Partial<ModuleProgress>;
+      if (quizScore != null && !isQuizScore(quizScore)) return json(400, { error: `moduleProgress.${key}.quizScore must be a number from 0 to 100` });
+      if (lastAccessedDate != null && !isIsoDate(lastAccessedDate)) return json(400, { error: `moduleProgress.${key}.lastAccessedDate must be an ISO date` });
+    }
+
+    // Merge like the backend: union of modules, each module merged section by section
+    const stored = db.progress[userId] || { completedModules: [], moduleProgress: {} };
+    const merged: MockProgress = {
+      completedModules: [...new Set([...stored.completedModules, ...completedModules])].sort((a, b) => a - b),
+      moduleProgress: { ...stored.moduleProgress },
+    };
+    for (const [key, entry] of Object.entries(moduleProgress as Record<string, unknown>)) {
+      const incoming = normalizeModuleProgress(Number(key), entry);
+      const existing = merged.moduleProgress[key];
+      merged.moduleProgress[key] = existing ? mergeModuleProgress(normalizeModuleProgress(Number(key), existing), incoming) : incoming;
+    }
+    db.progress[userId] = merged;
+    saveDb(db);
+    return json(200, { success: true });
+  }
+
+  if (!action && req.method === 'DELETE') {
+    db.progress[userId] = { completedModules: [], moduleProgress: {} };
+    saveDb(db);
+    return json(200, { success: true });
+  }
+
+  if (req.method === 'GET') {
+    // Own progress only, unless admin (like the backend)
+    const isAdmin = db.users.some((u) => u.id === userId && u.role === 'ADMIN');
+    if (!action || (action !== userId && !isAdmin)) return json(403, { error: 'Insufficient permissions' });
+    const stored = db.progress[action];
+    return json(200, {
+      userId: action,
+      completedModules: stored?.completedModules || [],
+      totalScore: learnScore(db, action),
+      moduleProgress: stored?.moduleProgress || {},
+    });
+  }
+
+  return json(404, { msg: `Not Found: /progress/${action || ''}` });
+}
+
+/**
+ * Account export and deletion, same shapes as backend/Controllers/accountController.js.
+ * The mock keeps no audit log, so that part of the export is always empty.
+ */
+async function handleAccount(db: MockDb, req: MockRequest, action?: string): Promise<MockResponse> {
+  const user = db.users.find((u) => u.id === req.userId);
+  if (!user) return unauthorized();
+
+  if (action === 'export' && req.method === 'GET') {
+    const stored = db.progress[user.id];
+    return json(200, {
+      formatVersion: 1,
+      exportedAt: new Date().toISOString(),
+      account: {
+        ...profileUser(user),
+        mfaEnabled: !!user.mfa?.secret,
+        sessions: Object.values(db.sessions || {})
+          .filter((session) => session.userId === user.id)
+          .map(({ userId: _userId, expiresAt, ...session }) => ({ ...session, expiresAt: new Date(expiresAt).toISOString() })),
+        createdAt: user.createdAt,
+      },
+      learnProgress: {
+        completedModules: stored?.completedModules || [],
+        moduleProgress: stored?.moduleProgress || {},
+        totalScore: learnScore(db, user.id),
+      },
+      challengeProgress: (db.completedLevels[user.id] || []).map((key) => {
+        const [challengeSlug, level] = key.split(':');
+        return { challengeSlug, level: Number(level), completed: true };
+      }),
+      pendingContactChanges: Object.entries(db.contactCodes || {})
+        .filter(([key]) => key.startsWith(`${user.id}:`))
+        .map(([key, entry]) => ({
+          channel: key.split(':')[1],
+          target: entry.target,
+          expiresAt: new Date(entry.expiresAt).toISOString(),
+        })),
+      auditLogs: [],
+    });
+  }
+
+  if (!action && req.method === 'DELETE') {
+    const confirm = String(req.body?.confirm || '').trim().toLowerCase();
+    if (!confirm || confirm !== user.email.toLowerCase()) {
+      return json(400, { error: 'Type your email address to confirm deletion' });
+    }
+    if (user.password) {
+      if (!req.body?.password) return json(400, { error: 'Enter your password to confirm deletion' });
+      if (!(await verifyPassword(user.password, String(req.body.password)))) {
+        return json(400, { error: 'Incorrect password' });
+      }
+    }
+    if (user.mfa?.secret) {
+      if (!req.body?.code) return json(400, { error: 'Enter a code from your authenticator app to confirm deletion' });
+      const failure = await checkSecondFactor(user.mfa, String(req.body.code));
+      if (failure) {
+        saveDb(db);
+        return failure;
+      }
+    }
+
+    db.users = db.users.filter((u) => u.id !== user.id);
+    delete db.completedLevels[user.id];
+    delete db.progress[user.id];
+    for (const [token, entry] of Object.entries(db.resetTokens || {})) {
+      if (entry.userId === user.id) delete db.resetTokens![token];
+    }
+    for (const key of Object.keys(db.contactCodes || {})) {
+      if (key.startsWith(`${user.id}:`)) delete db.contactCodes![key];
+    }
+    revokeUserSessions(db, user.id);
+    saveDb(db);
+    return json(200, { message: 'Account deleted' });
+  }
+
+  return json(404, { msg: `Not Found: /account/${action || ''}` });
+}
+
+function handleCatalog(): MockResponse {
+  return json(200, {
+    challenges: mockChallenges.map((c) => ({
+      slug: c.slug,
+      title: c.title,
+      vulnerabilityId: c.vulnerabilityId,
+      owaspCategory: c.owaspCategory,
+      levels: c.levels.map((l) => ({
+        index: l.index,
+        title: l.title,
+        description: l.description,
+        difficulty: l.difficulty,
+        xpReward: XP_REWARDS[l.difficulty],
+        owaspCategory: c.owaspCategory,
+      })),
+    })),
+  });
+}
+
+function handleChallenge(db: MockDb, req: MockRequest, slug: string): MockResponse {
+  const challenge = getMockChallenge(slug);
+  if (!challenge) return json(404, { msg: `Challenge not found: ${slug}` });
+
+  // Body: { userId: "uid", level: 1, message?: "txt", submittedFlag?: "FLAG" }
+  const userId = String(req.body?.userId || '').trim();
+  const levelIndex = Number(req.body?.level);
+  const message = req.body?.message ?? '';
+  const submittedFlag = String(req.body?.submittedFlag || '').trim();
+
+  if (!userId) return json(400, { error: 'userId is required in body' });
+  if (!Number.isInteger(levelIndex) || levelIndex < 1) return json(400, { error: 'level is required (1..n)' });
+
+  const level = challenge.levels.find((l) => l.index === levelIndex);
+  if (!level) return json(404, { msg: `Level ${levelIndex} not found for ${slug}` });
+
+  const sessionKey = `${userId}::${slug}::${levelIndex}`;
+
+  // Flag submission path
+  if (submittedFlag) {
+    if (submittedFlag !== level.flag) {
+      return json(200, { status: 'incorrect', sessionKey, message: 'Flag is incorrect.' });
+    }
+
+    // Guests have no account yet, so nothing is recorded for them
+    const user = db.users.find((u) => u.id === userId);
+    const levelKey = `${slug}:${levelIndex}`;
+    const completed = db.completedLevels[userId] || [];
+    const xpAwarded = user ? XP_REWARDS[level.difficulty] : 0;
+    if (user && !completed.includes(levelKey)) {
+      db.completedLevels[userId] = [...completed, levelKey];
+      user.xpTotal += xpAwarded;
+      saveDb(db);
+    }
+
+    return json(200, {
+      status: 'passed',
+      sessionKey,
+      challengeSlug: slug,
+      level: levelIndex,
+      xpAwarded,
+      message: 'Flag correct. Congrats!',
+    });
+  }
+
+  // No message: metadata/intro
+  if (!message) {
+    return json(200, {
+      status: 'ready',
+      sessionKey,
+      challenge: { slug: challenge.slug, title: challenge.title },
+      level: {
+        index: level.index,
+        title: level.title,
+        difficulty: level.difficulty,
+        description: level.description,
+      },
+    });
+  }
+
+  // Chat path
+  return json(200, {
+    sessionKey,
+    challengeSlug: slug,
+    level: levelIndex,
+    reply: targetBotReply(level, String(message)),
+  });
+}
+
+function handleChallengeStream(db: MockDb, req: MockRequest, slug: string): MockResponse {
+  if (!String(req.body?.message ?? '').trim()) return json(400, { error: 'message is required in body' });
+
+  const result = handleChallenge(db, req, slug);
+  if (result.status !== 200) return result;
+
+  // Stream the rule-based reply word by word, like model output
+  const done = result.body as { reply: string };
+  const chunks = done.reply.match(/\S+\s*/g) || [];
+  return {
+    status: 200,
+    body: null,
+    events: [
+      ...chunks.map((text) => ({ event: 'token', data: { text } })),
+      { event: 'done', data: done },
+    ],
+  };
+}
+
+/**
+ * Route a request to the matching mock handler
+ */
+async function route(req: MockRequest): Promise<MockResponse> {
+  const [head, action, ...rest] = req.path.split('/').filter(Boolean);
+  const db = loadDb();
+  // A token only works while its session is active (revoked sessions are deleted)
+  if (req.userId && !touchSession(db, req)) req = { ...req, userId: null, sessionId: null };
+
+  if (!head && req.method === 'GET') return json(200, { msg: 'API works successfully' });
+  if (head === 'health') return json(200, { status: 'ok' });
+  if (head === 'auth' && action === 'mfa' && rest.length <= 1) return handleMfa(db, req, rest[0]);
+  // SSO needs the real backend and an identity provider (backend/lib/mockIdp.js)
+  if (head === 'auth' && action === 'sso' && rest[0] === 'config' && req.method === 'GET') return json(200, { enabled: false });
+  if (head === 'auth' && action === 'sessions' && rest.length <= 1) return handleSessions(db, req, rest[0]);
+  if (head === 'auth' && action && rest.length === 0) return handleAuth(db, req, action);
+  if (head === 'auth' && action === 'password-reset' && rest.length === 1) return handlePasswordReset(db, req, rest[0]);
+  if (head === 'auth' && action === 'profile' && rest[0] === 'verify' && rest.length <= 2) {
+    return handleContactVerification(db, req, rest[1]);
+  }
+  if (head === 'leaderboard' && rest.length === 0) return handleLeaderboard(db, req, action);
+  if (head === 'progress' && rest.length === 0) return handleProgress(db, req, action);
+  if (head === 'account' && rest.length === 0) return handleAccount(db, req, action);
+  if (head === 'admin' && action) return handleAdmin(db, req, [action, ...rest]);
+  if (head === 'api' && action === 'challenges' && rest.length === 0 && req.method === 'GET') return handleCatalog();
+  if (head === 'api' && action === 'challenges' && rest.length === 1 && req.method === 'POST') return handleChallenge(db, req, decodeURIComponent(rest[0]));
+  if (head === 'api' && action === 'challenges' && rest.length === 2 && rest[1] === 'stream' && req.method === 'POST') {
+    return handleChallengeStream(db, req, decodeURIComponent(rest[0]));
+  }
+  if (head === 'api' && action && CHALLENGE_ROUTES[action] && rest.length === 0 && req.method === 'POST') {
+    return handleChallenge(db, req, CHALLENGE_ROUTES[action]);
+  }
+
+  return json(404, { msg: `Not Found: ${req.path}` });
+}
+
+/**
+ * fetch-compatible transport backed by the mock handlers.
+ * Honours AbortSignal so apiFetch timeouts and cancellation behave as with the network.
+ */
+export async function mockTransport(url: string, init: RequestInit = {}): Promise<Response> {
+  const signal = init.signal;
+
+  await new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, LATENCY_MS);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+  const headers = new Headers(init.headers);
+  let body: any = null;
+  try {
+    body = typeof init.body === 'string' ? JSON.parse(init.body) : null;
+  } catch {
+    return new Response(JSON.stringify({ msg: 'Invalid JSON body' }), { status: 400 });
+  }
+
+  const { status, body: responseBody, events } = await route({
+    method: (init.method || 'GET').toUpperCase(),
+    path: new URL(url, window.location.origin).pathname,
+    body,
+    ...(readToken(headers.get('Authorization')) ?? { userId: null, sessionId: null }),
+  });
+
+  if (events) {
+    return new Response(eventStream(events, signal), {
+      status,
+      headers: { 'Content-Type': 'text/event-stream' },
+    });
+  }
+
+  return new Response(JSON.stringify(responseBody), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * Emit events one at a time; aborting the request errors the stream like a dropped connection
+ */
+function eventStream(events: { event: string; data: unknown }[], signal?: AbortSignal | null): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let index = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        controller.error(new DOMException('Aborted', 'AbortError'));
+      }, { once: true });
+    },
+    pull(controller) {
+      return new Promise<void>((resolve) => {
+        timer = setTimeout(() => {
+          if (signal?.aborted) return resolve();
+          if (index >= events.length) {
+            controller.close();
+          } else {
+            const { event, data } = events[index++];
+            controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+          }
+          resolve();
+        }, TOKEN_INTERVAL_MS);
+      });
+    },
+    cancel() {
+      clearTimeout(timer);
+    },
+  });
+}
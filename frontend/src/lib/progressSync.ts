@@ -0,0 +1,62 @@
+// Learn progress sync with the backend
+// UserContext pulls the server copy on sign in (and when the tab regains focus), merges it with
+// this browser's copy and pushes local changes after a short pause. The server merges every push
+// the same way (section by section), so two devices working at once both keep their work.
+
+import { fetchUserProgress, syncUserProgress, NetworkError, TimeoutError } from '../utils/api';
+import { normalizeModuleProgress, calculateTotalScore, type UserProgress, type ModuleProgress } from './userProgress';
+
+// Local changes are batched for this long before being pushed
+export const SYNC_DEBOUNCE_MS = 2000;
+
+/**
+ * `off` - nothing to sync (signed out, guest or device-only account)
+ * `pending` - local changes waiting to be pushed
+ * `offline` - the server could not be reached; changes are kept in this browser and pushed later
+ */
+export type SyncStatus = 'off' | 'syncing' | 'pending' | 'synced' | 'offline' | 'error';
+
+/**
+ * Whether a failed sync should be retried once the connection is back
+ */
+export function isOfflineError(error: unknown): boolean {
+  return error instanceof NetworkError || error instanceof TimeoutError;
+}
+
+/**
+ * The user's progress as stored on the server
+ */
+export async function pullProgress(userId: string): Promise<UserProgress> {
+  const data = await fetchUserProgress(userId);
+
+  const moduleProgress: Record<number, ModuleProgress> = {};
+  for (const [key, entry] of Object.entries(data.moduleProgress)) {
+    const moduleId = Number(key);
+    if (Number.isInteger(moduleId)) {
+      moduleProgress[moduleId] = normalizeModuleProgress(moduleId, entry);
+    }
+  }
+  const lastActivityDate = Object.values(moduleProgress)
+    .map((entry) => entry.lastAccessedDate)
+    .reduce((latest, date) => (date > latest ? date : latest), new Date(0).toISOString());
+
+  return {
+    completedModules: data.completedModules,
+    totalScore: calculateTotalScore(data.completedModules),
+    rank: 0,
+    lastActivityDate,
+    moduleProgress,
+  };
+}
+
+/**
+ * Upload progress; the server merges it into its copy
+ */
+export async function pushProgress(userId: string, progress: UserProgress): Promise<void> {
+  await syncUserProgress({
+    userId,
+    completedModules: progress.completedModules,
+    totalScore: progress.totalScore,
+    moduleProgress: progress.moduleProgress,
+  });
+}
@@ -0,0 +1,162 @@
+// URL routing helpers
+// Maps app pages (and the module/challenge they point at) to real paths so that
+// refreshes, bookmarks and browser back/forward all land on the same screen
+
+/**
+ * Every navigable screen together with the payload it needs.
+ * Adding a page here makes `onNavigate` callers type-check its payload.
+ */
+export type Route =
+  | { page: "home" }
+  | { page: "learn" }
+  | { page: "modules"; vulnerabilityId: number }
+  | { page: "play"; vulnerabilityId?: never; level?: never } // challenge catalog
+  | { page: "play"; vulnerabilityId: number; level: number } // challenge environment
+  | { page: "leaderboard" }
+  | { page: "profile"; userId?: string } // no id: the signed-in user's own profile
+  | { page: "simulation" }
+  | { page: "vulnerabilities" }
+  | { page: "admin" }; // instructors only
+
+export type Page = Route["page"];
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Payload accepted by a page (everything in its route except `page`)
+ */
+export type RoutePayload<P extends Page> = DistributiveOmit<Extract<Route, { page: P }>, "page">;
+
+/**
+ * Pages without a payload take no second argument; pages whose payload is
+ * optional (e.g. the play catalog) can be navigated to with just their name
+ */
+type NavigateArgs<P extends Page> = [keyof RoutePayload<P>] extends [never]
+  ? []
+  : {} extends RoutePayload<P>
+    ? [payload?: RoutePayload<P>]
+    : [payload: RoutePayload<P>];
+
+/**
+ * Pages that can be reached without a payload (header links, banners, ...)
+ */
+export type StaticPage = { [P in Page]: {} extends RoutePayload<P> ? P : never }[Page];
+
+/**
+ * Typed navigation callback passed down to pages and components
+ *
+ * @example
+ * onNavigate("learn");
+ * onNavigate("modules", { vulnerabilityId: 2 });
+ * onNavigate("play", { vulnerabilityId: 1, level: 3 });
+ */
+export type NavigateFn = <P extends Page>(page: P, ...args: NavigateArgs<P>) => void;
+
+/**
+ * Build a route from a page name and its payload
+ */
+export function toRoute<P extends Page>(page: P, ...args: NavigateArgs<P>): Route {
+  const [payload] = args as [RoutePayload<P>?];
+  return { page, ...payload } as Route;
+}
+
+/**
+ * Parse a positive integer path segment, returning undefined for anything else
+ */
+function parseId(segment: string | undefined): number | undefined {
+  if (!segment || !/^\d+$/.test(segment)) return undefined;
+  const value = parseInt(segment, 10);
+  return value > 0 ? value : undefined;
+}
+
+/**
+ * Parse a user id path segment (server ids are cuids), returning undefined for anything else
+ */
+function parseUserId(segment: string | undefined): string | undefined {
+  return segment && /^[A-Za-z0-9_-]{1,64}$/.test(segment) ? segment : undefined;
+}
+
+/**
+ * Build the URL path for a route
+ */
+export function pathForRoute(route: Route): string {
+  switch (route.page) {
+    case "home":
+      return '/';
+    case "modules":
+      return `/modules/${route.vulnerabilityId}`;
+    case "play":
+      return route.vulnerabilityId
+        ? `/play/${route.vulnerabilityId}/level/${route.level}`
+        : '/play';
+    case "profile":
+      return route.userId ? `/profile/${encodeURIComponent(route.userId)}` : '/profile';
+    default:
+      return `/${route.page}`;
+  }
+}
+
+/**
+ * Resolve a URL path to a route. Unknown paths resolve to home.
+ *
+ * Supported paths:
+ *   /                                   -> home
+ *   /learn, /leaderboard, /admin ...    -> static pages
+ *   /modules/:vulnerabilityId           -> module page (/modules alone -> learn)
+ *   /play/:vulnerabilityId[/level/:n]   -> challenge environment
+ *   /profile[/:userId]                  -> own profile, or another user's (instructors only)
+ */
+export function parseRoute(pathname: string): Route {
+  const [head, id, levelKeyword, levelValue] = pathname.split('/').filter(Boolean);
+
+  switch (head) {
+    case undefined:
+      return { page: "home" };
+    case 'learn':
+    case 'leaderboard':
+    case 'simulation':
+    case 'vulnerabilities':
+    case 'admin':
+      return { page: head };
+    case 'profile': {
+      const userId = parseUserId(id);
+      return userId ? { page: "profile", userId } : { page: "profile" };
+    }
+    case 'modules': {
+      const vulnerabilityId = parseId(id);
+      return vulnerabilityId ? { page: "modules", vulnerabilityId } : { page: "learn" };
+    }
+    case 'play': {
+      const vulnerabilityId = parseId(id);
+      if (!vulnerabilityId) return { page: "play" };
+      const level = levelKeyword === 'level' ? parseId(levelValue) : undefined;
+      return { page: "play", vulnerabilityId, level: level || 1 };
+    }
+    default:
+      return { page: "home" };
+  }
+}
+
+/**
+ * Read the route for the current browser location
+ */
+export function getCurrentRoute(): Route {
+  if (typeof window === 'undefined') return { page: "home" };
+  return parseRoute(window.location.pathname);
+}
+
+/**
+ * Push (or replace) a history entry for a route. No-op if the URL is unchanged.
+ */
+export function commitRoute(route: Route, replace: boolean = false): void {
+  if (typeof window === 'undefined') return;
+
+  const path = pathForRoute(route);
+  if (path === window.location.pathname) return;
+
+  if (replace) {
+    window.history.replaceState(null, '', path);
+  } else {
+    window.history.pushState(null, '', path);
+  }
+}
@@ -0,0 +1,178 @@
+// Organisation single sign-on (OpenID Connect authorization code + PKCE)
+// startSsoSignIn sends the browser to the identity provider, which redirects back to
+// SSO_CALLBACK_PATH. App reads the callback on load and AuthModal finishes the sign in:
+// the backend exchanges the code, verifies the ID token and returns a normal session
+// (or the MFA step, or a password confirmation when the email belongs to an existing account).
+
+import {
+  completeSsoSignin as apiCompleteSsoSignin,
+  linkSsoIdentity,
+  isMfaChallenge,
+  isSsoLinkChallenge,
+  getTokenRole,
+  type AuthResponse,
+  type MfaChallenge,
+  type SsoConfig,
+} from '../utils/api';
+import { type AuthResult } from './hybridAuth';
+
+const SSO_ATTEMPT_KEY = 'usda_sso_attempt';
+// An abandoned attempt is ignored after this long
+const SSO_ATTEMPT_TTL_MS = 10 * 60 * 1000;
+
+export const SSO_CALLBACK_PATH = '/auth/callback';
+
+// Kept in sessionStorage across the redirect; never sent anywhere except the verifier and nonce to our backend
+interface SsoAttempt {
+  state: string;
+  codeVerifier: string;
+  nonce: string;
+  returnPath: string;
+  createdAt: number;
+}
+
+export interface SsoCallback {
+  code?: string;
+  state?: string;
+  error?: string;
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+const randomToken = () => base64Url(crypto.getRandomValues(new Uint8Array(32)));
+
+async function pkceChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+function readAttempt(): SsoAttempt | null {
+  try {
+    const stored = sessionStorage.getItem(SSO_ATTEMPT_KEY);
+    if (stored) {
+      const attempt = JSON.parse(stored) as SsoAttempt;
+      if (Date.now() - attempt.createdAt < SSO_ATTEMPT_TTL_MS) return attempt;
+    }
+  } catch (error) {
+    console.error('Failed to load SSO sign-in state:', error);
+  }
+  return null;
+}
+
+/**
+ * Redirect to the identity provider. `returnPath` is where the user lands after signing in.
+ */
+export async function startSsoSignIn(config: SsoConfig, returnPath: string = window.location.pathname): Promise<void> {
+  if (!config.enabled || !config.authorizationEndpoint || !config.clientId || !config.redirectUri) {
+    throw new Error('Single sign-on is not available right now');
+  }
+
+  const attempt: SsoAttempt = {
+    state: randomToken(),
+    codeVerifier: randomToken(),
+    nonce: randomToken(),
+    returnPath,
+    createdAt: Date.now(),
+  };
+  sessionStorage.setItem(SSO_ATTEMPT_KEY, JSON.stringify(attempt));
+
+  const url = new URL(config.authorizationEndpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scope || 'openid email profile',
+    state: attempt.state,
+    nonce: attempt.nonce,
+    code_challenge: await pkceChallenge(attempt.codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  window.location.assign(url.toString());
+}
+
+/**
+ * The identity provider's response, if the page was loaded on the SSO callback path
+ */
+export function readSsoCallback(): SsoCallback | null {
+  if (typeof window === 'undefined' || window.location.pathname !== SSO_CALLBACK_PATH) return null;
+  const params = new URLSearchParams(window.location.search);
+  return {
+    code: params.get('code') ?? undefined,
+    state: params.get('state') ?? undefined,
+    error: params.get('error') ?? undefined,
+  };
+}
+
+/**
+ * Where the user started the SSO sign in from (the page to resume afterwards)
+ */
+export function getSsoReturnPath(): string | null {
+  return readAttempt()?.returnPath ?? null;
+}
+
+function toAuthResult(response: AuthResponse | MfaChallenge): AuthResult {
+  if (isMfaChallenge(response)) {
+    return { success: false, mfaToken: response.mfaToken, isBackendAuth: true };
+  }
+  return {
+    success: true,
+    user: {
+      email: response.user.email,
+      username: response.user.username ?? undefined,
+      displayName: response.user.name,
+      id: response.user.id,
+      role: response.user.role ?? getTokenRole() ?? undefined,
+    },
+    isBackendAuth: true,
+  };
+}
+
+/**
+ * Exchange the callback's code through the backend. The stored attempt is used up either way.
+ */
+export async function completeSsoSignIn(callback: SsoCallback): Promise<AuthResult> {
+  const attempt = readAttempt();
+  sessionStorage.removeItem(SSO_ATTEMPT_KEY);
+
+  if (callback.error) {
+    return {
+      success: false,
+      error: callback.error === 'access_denied'
+        ? 'Sign-in with your organisation was cancelled.'
+        : 'Your organisation could not sign you in. Please try again.',
+    };
+  }
+
+  // The state ties the callback to a sign in started in this tab
+  if (!attempt || !callback.code || !callback.state || callback.state !== attempt.state) {
+    return { success: false, error: 'This sign-in link has expired. Please try again.' };
+  }
+
+  try {
+    const response = await apiCompleteSsoSignin({
+      code: callback.code,
+      codeVerifier: attempt.codeVerifier,
+      nonce: attempt.nonce,
+    });
+    if (isSsoLinkChallenge(response)) {
+      return { success: false, ssoLink: { token: response.linkToken, email: response.email }, isBackendAuth: true };
+    }
+    return toAuthResult(response);
+  } catch (error: any) {
+    return { success: false, error: error?.message || 'Single sign-on failed. Please try again.' };
+  }
+}
+
+/**
+ * Link the organisation sign-in to the existing account with the same email by confirming its password
+ */
+export async function linkSsoAccount(linkToken: string, password: string): Promise<AuthResult> {
+  try {
+    return toAuthResult(await linkSsoIdentity(linkToken, password));
+  } catch (error: any) {
+    return { success: false, error: error?.message || 'Could not link your account. Please try again.' };
+  }
+}
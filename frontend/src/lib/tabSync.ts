@@ -0,0 +1,41 @@
+// Cross-tab messaging
+// Open tabs share localStorage but not React state, so changes made in one tab
+// (sign-in, sign-out, progress) are announced to the others over a BroadcastChannel.
+
+export interface TabChannel<TMessage> {
+  post: (message: TMessage) => void;
+  subscribe: (listener: (message: TMessage) => void) => () => void;
+}
+
+/**
+ * Create a named channel between tabs of this origin.
+ * Messages are never delivered back to the tab that posted them.
+ * Without BroadcastChannel support, posting and subscribing are no-ops.
+ */
+export function createTabChannel<TMessage>(name: string): TabChannel<TMessage> {
+  let channel: BroadcastChannel | null = null;
+
+  const getChannel = (): BroadcastChannel | null => {
+    if (typeof BroadcastChannel === 'undefined') return null;
+    if (!channel) channel = new BroadcastChannel(name);
+    return channel;
+  };
+
+  return {
+    post(message) {
+      try {
+        getChannel()?.postMessage(message);
+      } catch (error) {
+        console.error('Failed to notify other tabs:', error);
+      }
+    },
+    subscribe(listener) {
+      const current = getChannel();
+      if (!current) return () => {};
+
+      const handleMessage = (event: MessageEvent<TMessage>) => listener(event.data);
+      current.addEventListener('message', handleMessage);
+      return () => current.removeEventListener('message', handleMessage);
+    },
+  };
+}
@@ -0,0 +1,162 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  MIGRATIONS,
+  PROGRESS_SCHEMA_VERSION,
+  initializeModuleProgress,
+  mergeModuleProgress,
+  mergeProgress,
+  normalizeModuleProgress,
+  createEmptyProgress,
+  saveProgressToStorage,
+  loadProgressFromStorage,
+  loadLegacyProgress,
+  discardLegacyProgress,
+  type ModuleProgress,
+} from './userProgress';
+
+// Progress lives in localStorage
+const store = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => void store.set(key, String(value)),
+  removeItem: (key: string) => void store.delete(key),
+  clear: () => store.clear(),
+  key: (index: number) => [...store.keys()][index] ?? null,
+  get length() {
+    return store.size;
+  },
+};
+
+// The shared, unversioned key used before progress was stored per user
+const LEGACY_KEY = 'usda-ai-redteam-progress';
+
+const moduleRecord = (moduleId: number, overrides: Partial<ModuleProgress> = {}): ModuleProgress => ({
+  ...initializeModuleProgress(moduleId),
+  lastAccessedDate: '2026-10-19T08:30:00.000Z',
+  ...overrides,
+});
+
+beforeEach(() => store.clear());
+
+test('MIGRATIONS[0] moves quiz scores from the quizScores map into their modules', () => {
+  const migrated = MIGRATIONS[0]({
+    completedModules: [1],
+    quizScores: { 1: 90, 2: 75, 3: 60 },
+    moduleProgress: {
+      1: { moduleId: 1, quizScore: null },
+      2: { moduleId: 2, quizScore: 85 },
+    },
+  });
+
+  assert.equal('quizScores' in migrated, false);
+  assert.deepEqual(migrated.completedModules, [1]);
+  assert.deepEqual(migrated.moduleProgress, {
+    1: { moduleId: 1, quizScore: 90 },
+    // A score already on the module wins
+    2: { moduleId: 2, quizScore: 85 },
+    // No module record to attach module 3's score to
+  });
+});
+
+test('MIGRATIONS[0] leaves data without a quizScores map alone', () => {
+  const data = { completedModules: [2], moduleProgress: { 2: { moduleId: 2 } } };
+
+  assert.deepEqual(MIGRATIONS[0](data), data);
+  assert.deepEqual(MIGRATIONS[0]({ ...data, quizScores: null }), data);
+});
+
+test('normalizeModuleProgress drops out-of-range scores and non-ISO dates', () => {
+  const normalized = normalizeModuleProgress(4, {
+    sectionsCompleted: { overview: true, quiz: 'yes' },
+    progress: 5,
+    quizScore: 140,
+    lastAccessedDate: '2026-02-30T08:30:00.000Z',
+  });
+
+  assert.deepEqual(normalized, {
+    moduleId: 4,
+    sectionsCompleted: { overview: true, quickExplainer: false, mitigation: false, interactiveLab: false, quiz: false },
+    progress: 10,
+    quizScore: null,
+    completed: false,
+    lastAccessedDate: new Date(0).toISOString(),
+  });
+  assert.equal(normalizeModuleProgress(4, null).progress, 0);
+});
+
+test('mergeModuleProgress keeps every completed section, the best score and the latest access', () => {
+  const a = moduleRecord(1, {
+    sectionsCompleted: { overview: true, quickExplainer: true, mitigation: false, interactiveLab: false, quiz: false },
+    progress: 30,
+    quizScore: 60,
+  });
+  const b = moduleRecord(1, {
+    sectionsCompleted: { overview: false, quickExplainer: false, mitigation: true, interactiveLab: false, quiz: false },
+    progress: 30,
+    quizScore: null,
+    lastAccessedDate: '2026-10-20T08:30:00.000Z',
+  });
+
+  const merged = mergeModuleProgress(a, b);
+  assert.deepEqual(merged.sectionsCompleted, {
+    overview: true,
+    quickExplainer: true,
+    mitigation: true,
+    interactiveLab: false,
+    quiz: false,
+  });
+  assert.equal(merged.progress, 60);
+  assert.equal(merged.quizScore, 60);
+  assert.equal(merged.lastAccessedDate, '2026-10-20T08:30:00.000Z');
+
+  assert.equal(mergeModuleProgress(a, moduleRecord(1, { completed: true, progress: 100 })).progress, 100);
+});
+
+test('mergeProgress unions completed modules and rescores them', () => {
+  const a = { ...createEmptyProgress(), completedModules: [1], moduleProgress: { 1: moduleRecord(1, { completed: true, progress: 100 }) } };
+  const b = { ...createEmptyProgress(), completedModules: [1, 2], moduleProgress: { 2: moduleRecord(2, { completed: true, progress: 100 }) } };
+
+  const merged = mergeProgress(a, b);
+  assert.deepEqual(merged.completedModules, [1, 2]);
+  assert.equal(merged.totalScore, 95 + 88);
+  assert.deepEqual(Object.keys(merged.moduleProgress), ['1', '2']);
+});
+
+test('saved progress is read back from a versioned envelope', () => {
+  const progress = { ...createEmptyProgress(), completedModules: [3], moduleProgress: { 3: moduleRecord(3, { completed: true, progress: 100 }) } };
+  saveProgressToStorage('user_1', progress);
+
+  assert.equal(JSON.parse(store.get('usda-ai-redteam-progress:user_1')!).version, PROGRESS_SCHEMA_VERSION);
+  assert.deepEqual(loadProgressFromStorage('user_1')?.completedModules, [3]);
+  assert.equal(loadProgressFromStorage('user_2'), null);
+});
+
+test('loadLegacyProgress migrates the shared blob and leaves it until the user decides', () => {
+  store.set(LEGACY_KEY, JSON.stringify({
+    completedModules: [1],
+    quizScores: { 1: 95 },
+    moduleProgress: { 1: moduleRecord(1, { completed: true, progress: 100, quizScore: null }) },
+  }));
+
+  const legacy = loadLegacyProgress();
+  assert.deepEqual(legacy?.completedModules, [1]);
+  assert.equal(legacy?.moduleProgress[1].quizScore, 95);
+  assert.ok(store.has(LEGACY_KEY));
+
+  discardLegacyProgress();
+  assert.equal(store.has(LEGACY_KEY), false);
+  assert.equal(loadLegacyProgress(), null);
+});
+
+test('loadLegacyProgress discards a shared blob with nothing in it', (t) => {
+  t.mock.method(console, 'error', () => {});
+
+  store.set(LEGACY_KEY, JSON.stringify({ completedModules: [], moduleProgress: {} }));
+  assert.equal(loadLegacyProgress(), null);
+  assert.equal(store.has(LEGACY_KEY), false);
+
+  store.set(LEGACY_KEY, JSON.stringify(['not', 'progress']));
+  assert.equal(loadLegacyProgress(), null);
+  assert.equal(store.has(LEGACY_KEY), false);
+});
@@ -88,22 +88,204 @@ export const initializeModuleProgress = (moduleId: number): ModuleProgress => {
   };
 };
 
+// Merging (two tabs, or a device and the server, may have worked on the same modules)
+const laterDate = (a: string, b: string): string => (a >= b ? a : b);
+
+/**
+ * Merge two records of the same module section by section.
+ * A section done on either copy stays done; the best quiz score and the latest access win.
+ */
+export const mergeModuleProgress = (a: ModuleProgress, b: ModuleProgress): ModuleProgress => {
+  const sectionsCompleted = { ...a.sectionsCompleted };
+  for (const section of Object.keys(sectionsCompleted) as (keyof ModuleProgress['sectionsCompleted'])[]) {
+    sectionsCompleted[section] = a.sectionsCompleted[section] || b.sectionsCompleted[section];
+  }
+  const completed = a.completed || b.completed;
+
+  return {
+    moduleId: a.moduleId,
+    sectionsCompleted,
+    progress: completed ? 100 : Math.max(a.progress, b.progress, calculateModuleProgress(sectionsCompleted)),
+    quizScore: a.quizScore === null ? b.quizScore : b.quizScore === null ? a.quizScore : Math.max(a.quizScore, b.quizScore),
+    completed,
+    lastAccessedDate: laterDate(a.lastAccessedDate, b.lastAccessedDate),
+  };
+};
+
+/**
+ * Merge two copies of the same user's progress module by module.
+ * Completed sections and modules are never lost; the best quiz score is kept.
+ */
+export const mergeProgress = (a: UserProgress, b: UserProgress): UserProgress => {
+  const moduleProgress: Record<number, ModuleProgress> = { ...a.moduleProgress };
+  for (const [key, entry] of Object.entries(b.moduleProgress)) {
+    const moduleId = Number(key);
+    const existing = moduleProgress[moduleId];
+    moduleProgress[moduleId] = existing ? mergeModuleProgress(existing, entry) : entry;
+  }
+
+  const completedModules = [...new Set([...a.completedModules, ...b.completedModules])];
+
+  return {
+    ...a,
+    completedModules,
+    totalScore: calculateTotalScore(completedModules),
+    lastActivityDate: laterDate(a.lastActivityDate, b.lastActivityDate),
+    moduleProgress,
+  };
+};
+
+/**
+ * Whether `progress` has anything `base` is missing (a module, a section or a better quiz score),
+ * i.e. whether merging it into `base` would change what was learned
+ */
+export const hasProgressBeyond = (progress: UserProgress, base: UserProgress): boolean => {
+  if (progress.completedModules.some((moduleId) => !base.completedModules.includes(moduleId))) return true;
+
+  return Object.entries(progress.moduleProgress).some(([key, entry]) => {
+    const existing = base.moduleProgress[Number(key)];
+    if (!existing) return true;
+    const merged = mergeModuleProgress(existing, entry);
+    return (
+      merged.completed !== existing.completed ||
+      merged.quizScore !== existing.quizScore ||
+      (Object.keys(merged.sectionsCompleted) as (keyof ModuleProgress['sectionsCompleted'])[])
+        .some((section) => merged.sectionsCompleted[section] !== existing.sectionsCompleted[section])
+    );
+  });
+};
+
+// Date.prototype.toISOString() output; the backend rejects synced dates in any other format
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{3})?Z$/;
+
+// The round trip rejects dates that do not exist (e.g. February 30th), which Date would roll over
+export const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && ISO_DATE_PATTERN.test(value)
+  && !Number.isNaN(Date.parse(value)) && new Date(value).toISOString().slice(0, 19) === value.slice(0, 19);
+
+export const isQuizScore = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 100;
+
+/**
+ * Build a complete module record from stored or synced data, which may come from an older client.
+ * Quiz scores outside 0-100 and dates that are not ISO strings are dropped, as the backend would reject them.
+ */
+export const normalizeModuleProgress = (moduleId: number, entry: unknown): ModuleProgress => {
+  const record = (typeof entry === 'object' && entry !== null ? entry : {}) as Partial<ModuleProgress>;
+  const initial = initializeModuleProgress(moduleId);
+
+  const sectionsCompleted = { ...initial.sectionsCompleted };
+  for (const section of Object.keys(sectionsCompleted) as (keyof ModuleProgress['sectionsCompleted'])[]) {
+    sectionsCompleted[section] = record.sectionsCompleted?.[section] === true;
+  }
+  const completed = record.completed === true;
+
+  return {
+    moduleId,
+    sectionsCompleted,
+    progress: completed ? 100 : Math.max(Number(record.progress) || 0, calculateModuleProgress(sectionsCompleted)),
+    quizScore: isQuizScore(record.quizScore) ? record.quizScore : null,
+    completed,
+    lastAccessedDate: isIsoDate(record.lastAccessedDate) ? record.lastAccessedDate : new Date(0).toISOString(),
+  };
+};
+
 // LocalStorage helpers
-const STORAGE_KEY = 'usda-ai-redteam-progress';
+// Progress is stored per user, since people share training-room PCs, inside a versioned envelope:
+// `{ version, progress }`. When the stored shape changes, bump PROGRESS_SCHEMA_VERSION and add a migration.
+// Before per-user keys, everyone using the browser shared one unversioned blob at the bare prefix.
+const STORAGE_PREFIX = 'usda-ai-redteam-progress';
+export const PROGRESS_SCHEMA_VERSION = 1;
 
-export const saveProgressToStorage = (progress: UserProgress): void => {
-  try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
-  } catch (error) {
-    console.error('Failed to save progress to localStorage:', error);
+interface StoredProgress {
+  version: number;
+  progress: UserProgress;
+}
+
+export const progressStorageKey = (userId: string): string => `${STORAGE_PREFIX}:${userId}`;
+
+/**
+ * Empty progress for a new user (or after a reset)
+ */
+export const createEmptyProgress = (): UserProgress => ({
+  completedModules: [],
+  totalScore: 0,
+  rank: 0,
+  lastActivityDate: new Date().toISOString(),
+  moduleProgress: {},
+});
+
+// Each migration upgrades progress stored at version N to version N + 1
+export const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v0, the shared blob: quiz scores were also kept in a `quizScores` map that was never part of the type
+  0: ({ quizScores, ...data }) => {
+    if (typeof quizScores !== 'object' || quizScores === null) return data;
+
+    const moduleProgress = { ...(data.moduleProgress as Record<string, Partial<ModuleProgress>> | undefined) };
+    for (const [key, score] of Object.entries(quizScores)) {
+      const entry = moduleProgress[key];
+      if (typeof score === 'number' && entry && typeof entry.quizScore !== 'number') {
+        moduleProgress[key] = { ...entry, quizScore: score };
+      }
+    }
+    return { ...data, moduleProgress };
+  },
+};
+
+/**
+ * Build valid progress from stored data; null if it is not progress at all.
+ * Unknown modules and malformed fields are dropped or reset rather than trusted.
+ */
+export const normalizeUserProgress = (data: unknown): UserProgress | null => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return null;
+  const record = data as Record<string, unknown>;
+
+  const moduleProgress: Record<number, ModuleProgress> = {};
+  if (typeof record.moduleProgress === 'object' && record.moduleProgress !== null) {
+    for (const [key, entry] of Object.entries(record.moduleProgress)) {
+      const moduleId = Number(key);
+      if (Number.isInteger(moduleId) && moduleId > 0) {
+        moduleProgress[moduleId] = normalizeModuleProgress(moduleId, entry);
+      }
+    }
+  }
+  const completedModules = Array.isArray(record.completedModules)
+    ? [...new Set(record.completedModules.filter((moduleId): moduleId is number => Number.isInteger(moduleId) && moduleId > 0))]
+    : [];
+
+  return {
+    completedModules,
+    totalScore: calculateTotalScore(completedModules),
+    rank: typeof record.rank === 'number' ? record.rank : 0,
+    lastActivityDate: typeof record.lastActivityDate === 'string' ? record.lastActivityDate : new Date(0).toISOString(),
+    moduleProgress,
+  };
+};
+
+// Upgrade a parsed blob of any version and validate it
+const readStoredProgress = (stored: unknown): UserProgress | null => {
+  const isEnvelope = typeof stored === 'object' && stored !== null && typeof (stored as StoredProgress).version === 'number';
+  let version = isEnvelope ? (stored as StoredProgress).version : 0;
+  let data = isEnvelope ? (stored as StoredProgress).progress : stored;
+
+  if (version > PROGRESS_SCHEMA_VERSION) {
+    // Written by a newer version of the app; keep whatever still fits this version's shape
+    console.warn(`Stored progress has schema version ${version}, expected ${PROGRESS_SCHEMA_VERSION} or older`);
+  }
+  while (version < PROGRESS_SCHEMA_VERSION && typeof data === 'object' && data !== null) {
+    data = MIGRATIONS[version](data as Record<string, unknown>);
+    version++;
   }
+  return normalizeUserProgress(data);
 };
 
-export const loadProgressFromStorage = (): UserProgress | null => {
+const readStorageKey = (key: string): UserProgress | null => {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
+    const stored = localStorage.getItem(key);
     if (stored) {
-      return JSON.parse(stored);
+      const progress = readStoredProgress(JSON.parse(stored));
+      if (!progress) console.error(`Ignoring invalid progress in localStorage (${key})`);
+      return progress;
     }
   } catch (error) {
     console.error('Failed to load progress from localStorage:', error);
@@ -111,6 +293,42 @@ export const loadProgressFromStorage = (): UserProgress | null => {
   return null;
 };
 
+export const saveProgressToStorage = (userId: string, progress: UserProgress): void => {
+  try {
+    const stored: StoredProgress = { version: PROGRESS_SCHEMA_VERSION, progress };
+    localStorage.setItem(progressStorageKey(userId), JSON.stringify(stored));
+  } catch (error) {
+    console.error('Failed to save progress to localStorage:', error);
+  }
+};
+
+export const clearProgressFromStorage = (userId: string): void => {
+  localStorage.removeItem(progressStorageKey(userId));
+};
+
+export const loadProgressFromStorage = (userId: string): UserProgress | null => {
+  return readStorageKey(progressStorageKey(userId));
+};
+
+/**
+ * The shared progress blob from before per-user storage, if it holds any progress.
+ * It may belong to anyone who used this browser, so it only goes into an account the user chooses to import it into.
+ */
+export const loadLegacyProgress = (): UserProgress | null => {
+  if (localStorage.getItem(STORAGE_PREFIX) === null) return null;
+
+  const legacy = readStorageKey(STORAGE_PREFIX);
+  if (!legacy || !hasProgressBeyond(legacy, createEmptyProgress())) {
+    discardLegacyProgress();
+    return null;
+  }
+  return legacy;
+};
+
+export const discardLegacyProgress = (): void => {
+  localStorage.removeItem(STORAGE_PREFIX);
+};
+
 export const updateModuleSection = (
   userProgress: UserProgress,
   moduleId: number,
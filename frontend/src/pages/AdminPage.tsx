@@ -0,0 +1,241 @@
+// Instructor admin area
+// Lists users (with role management) and the seeded challenge catalog
+
+import { useState } from "react";
+import { Card } from "../components/ui/card";
+import { Button } from "../components/ui/button";
+import { Badge } from "../components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "../components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "../components/ui/select";
+import { ShieldAlert, Users, Swords, Loader2, RefreshCw } from "lucide-react";
+import { useRequireRole } from "../hooks/useRequireRole";
+import { useQuery } from "../hooks/useQuery";
+import { useChallengeCatalog } from "../hooks/useChallengeCatalog";
+import {
+  fetchAdminUsers,
+  updateUserRole,
+  queryKeys,
+  ResponseValidationError,
+  type UserRole,
+} from "../utils/api";
+import { DegradedNotice } from "../components/shared/DegradedNotice";
+import { toast } from "sonner@2.0.3";
+import { type NavigateFn } from "../lib/routes";
+
+interface AdminPageProps {
+  onNavigate: NavigateFn;
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString() : "Never";
+
+export function AdminPage({ onNavigate }: AdminPageProps) {
+  const { allowed, user } = useRequireRole("ADMIN");
+  const { data: users, error: usersError, isLoading: usersLoading, isFetching, refetch } = useQuery(
+    queryKeys.adminUsers,
+    fetchAdminUsers,
+    { enabled: allowed }
+  );
+  const { catalog, loading: catalogLoading } = useChallengeCatalog();
+  const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+
+  if (!allowed) {
+    return (
+      <div className="max-w-3xl mx-auto px-6 py-16">
+        <Card className="p-8 border-2 border-border text-center">
+          <ShieldAlert className="h-10 w-10 text-destructive mx-auto mb-4" />
+          <h1 className="text-2xl text-primary mb-2">Instructors only</h1>
+          <p className="text-muted-foreground mb-6">
+            Your account does not have access to the admin area.
+          </p>
+          <Button onClick={() => onNavigate("home")}>Back to Dashboard</Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const handleRefresh = () => {
+    refetch().catch(() => {
+      // Reported below through `usersError`
+    });
+  };
+
+  const handleRoleChange = async (userId: string, role: UserRole) => {
+    setUpdatingUserId(userId);
+    try {
+      await updateUserRole(userId, role);
+      toast.success(role === "ADMIN" ? "User promoted to instructor" : "Instructor access removed");
+    } catch (error: any) {
+      console.error("Failed to update role:", error);
+      toast.error(error?.message || "Failed to update role");
+    } finally {
+      setUpdatingUserId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-8">
+      {/* Header */}
+      <div className="mb-8 flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl text-primary mb-2">Admin</h1>
+          <p className="text-muted-foreground">
+            Manage trainees, instructors and the challenge catalog
+          </p>
+        </div>
+        <Button
+          onClick={handleRefresh}
+          disabled={isFetching}
+          variant="outline"
+          size="sm"
+          className="gap-2"
+        >
+          {isFetching ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          Refresh
+        </Button>
+      </div>
+
+      {/* Users */}
+      <Card className="p-6 border-2 border-border mb-8">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center">
+            <Users className="h-5 w-5 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-xl text-primary">Users</h2>
+            <p className="text-xs text-muted-foreground">
+              {users ? `${users.length} registered` : "Loading..."}
+            </p>
+          </div>
+        </div>
+
+        {usersError instanceof ResponseValidationError ? (
+          <DegradedNotice
+            title="User list unavailable"
+            description="The user list could not be read. Try again once the server responds correctly."
+            onRetry={handleRefresh}
+          />
+        ) : usersError ? (
+          <p className="text-sm text-destructive">
+            {usersError instanceof Error ? usersError.message : "Failed to load users"}
+          </p>
+        ) : usersLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-teal" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead className="text-right">Challenge XP</TableHead>
+                <TableHead className="text-right">Learn Score</TableHead>
+                <TableHead>Last Login</TableHead>
+                <TableHead>Role</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(users || []).map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <button
+                      type="button"
+                      onClick={() => onNavigate("profile", { userId: entry.id })}
+                      className="text-teal hover:underline"
+                    >
+                      {entry.name}
+                    </button>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{entry.email}</TableCell>
+                  <TableCell className="text-right">{entry.xpTotal}</TableCell>
+                  <TableCell className="text-right">{entry.learnScore}</TableCell>
+                  <TableCell>{formatDate(entry.lastLoginAt)}</TableCell>
+                  <TableCell>
+                    {entry.id === user?.uid ? (
+                      // Admins cannot demote themselves (the server refuses too)
+                      <Badge>Instructor (you)</Badge>
+                    ) : (
+                      <Select
+                        value={entry.role}
+                        onValueChange={(role: string) => handleRoleChange(entry.id, role as UserRole)}
+                        disabled={updatingUserId === entry.id}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="USER">Trainee</SelectItem>
+                          <SelectItem value="ADMIN">Instructor</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      {/* Challenge catalog */}
+      <Card className="p-6 border-2 border-border">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="w-10 h-10 rounded-lg bg-teal/10 flex items-center justify-center">
+            <Swords className="h-5 w-5" style={{ color: "#00a7a7" }} />
+          </div>
+          <div>
+            <h2 className="text-xl text-primary">Challenge Catalog</h2>
+            <p className="text-xs text-muted-foreground">
+              Challenges are edited in the backend seed data and re-seeded
+            </p>
+          </div>
+        </div>
+
+        {catalogLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-teal" />
+          </div>
+        ) : catalog.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No challenges are seeded.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Challenge</TableHead>
+                <TableHead>OWASP</TableHead>
+                <TableHead className="text-right">Active Levels</TableHead>
+                <TableHead className="text-right">Total XP</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {catalog.map((challenge) => (
+                <TableRow key={challenge.slug}>
+                  <TableCell>{challenge.title}</TableCell>
+                  <TableCell className="text-muted-foreground">{challenge.owaspCategory || "—"}</TableCell>
+                  <TableCell className="text-right">{challenge.levels.length}</TableCell>
+                  <TableCell className="text-right">
+                    {challenge.levels.reduce((sum, level) => sum + level.xpReward, 0)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Button } from "../components/ui/button";
 import { Progress } from "../components/ui/progress";
 import { calculateCompletionPercentage, getRemainingModules } from "../lib/userProgress";
 import { useUser } from "../context/UserContext";
+import { useLeaderboard } from "../hooks/useLeaderboard";
 import { 
   BookOpen, 
   Target, 
@@ -13,14 +14,16 @@ import {
   CheckCircle2,
   Clock
 } from "lucide-react";
+import { type NavigateFn } from "../lib/routes";
 
 interface DashboardPageProps {
   user: { name: string; email: string };
-  onNavigate: (page: string) => void;
+  onNavigate: NavigateFn;
 }
 
 export function DashboardPage({ user, onNavigate }: DashboardPageProps) {
   const { userProgress } = useUser();
+  const { currentUserRank } = useLeaderboard();
   const completionPercentage = calculateCompletionPercentage(userProgress.completedModules);
   const remainingModules = getRemainingModules(userProgress.completedModules);
   const firstName = user.name?.split(" ")[0] || user.email?.split("@")[0] || "User";
@@ -215,7 +218,7 @@ export function DashboardPage({ user, onNavigate }: DashboardPageProps) {
               <Trophy className="h-5 w-5 text-teal" />
             </div>
             <div>
-              <p className="text-2xl text-card-foreground transition-all duration-300">#{userProgress.rank}</p>
+              <p className="text-2xl text-card-foreground transition-all duration-300">{currentUserRank ? `#${currentUserRank}` : "—"}</p>
               <p className="text-xs text-muted-foreground">Rank</p>
             </div>
           </div>
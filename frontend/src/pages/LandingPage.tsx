@@ -10,12 +10,14 @@ import {
   Moon,
 } from "lucide-react";
 import { toast } from "sonner@2.0.3";
+import { type NavigateFn } from "../lib/routes";
 
 interface LandingPageProps {
-  onNavigate: (page: string) => void;
+  onNavigate: NavigateFn;
   isDarkMode: boolean;
   onToggleTheme: () => void;
   onOpenAuthModal?: () => void;
+  onStartGuest?: () => void; // Explore Learn and first challenge levels without an account
 }
 
 export function LandingPage({
@@ -23,6 +25,7 @@ export function LandingPage({
   isDarkMode,
   onToggleTheme,
   onOpenAuthModal,
+  onStartGuest,
 }: LandingPageProps) {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -151,7 +154,7 @@ export function LandingPage({
             employees AI red teaming through hands-on
             Capture-the-Flag challenges.
           </p>
-          <div className="flex justify-center">
+          <div className="flex flex-wrap justify-center gap-4">
             <Button
               size="lg"
               onClick={() => onOpenAuthModal && onOpenAuthModal()}
@@ -172,7 +175,23 @@ export function LandingPage({
               Get Started
               <ChevronRight className="ml-2 h-5 w-5" />
             </Button>
+            {onStartGuest && (
+              <Button
+                size="lg"
+                variant="outline"
+                onClick={onStartGuest}
+                className="text-lg px-8 bg-transparent text-white border-white/60 hover:bg-white/10 hover:text-white transition-colors duration-200"
+                style={{ fontWeight: 600, borderRadius: '8px' }}
+              >
+                Try as Guest
+              </Button>
+            )}
           </div>
+          {onStartGuest && (
+            <p className="mt-4 text-sm text-gray-300">
+              No account needed to start the Learn modules and the first level of each challenge.
+            </p>
+          )}
         </div>
       </section>
 
@@ -14,58 +14,50 @@ import { Badge } from "../components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "../components/ui/avatar";
 import { Trophy, Medal, Award, Search, TrendingUp, Loader2, RefreshCw } from "lucide-react";
 import { useUser } from "../context/UserContext";
-import { fetchLeaderboard, updateLeaderboardScore, type LeaderboardEntry } from "../utils/api";
+import { updateLeaderboardScore, ResponseValidationError, type LeaderboardEntry } from "../utils/api";
+import { useLeaderboard } from "../hooks/useLeaderboard";
+import { DegradedNotice } from "../components/shared/DegradedNotice";
 import { toast } from "sonner@2.0.3";
+import { type NavigateFn } from "../lib/routes";
+
+// Shown when the backend is unreachable
+const FALLBACK_LEADERBOARD: LeaderboardEntry[] = [
+  { id: 1, name: "Admin", score: 200, rank: 1 },
+  { id: 2, name: "Player2", score: 150, rank: 2 },
+];
 
 interface LeaderboardPageProps {
-  onNavigate: (page: string) => void;
+  onNavigate: NavigateFn;
 }
 
 export function LeaderboardPage({ onNavigate }: LeaderboardPageProps) {
   const { user, userProgress } = useUser();
-  const [leaderboardData, setLeaderboardData] = useState<LeaderboardEntry[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [refreshing, setRefreshing] = useState(false);
+  const { entries, error, isLoading, isFetching, refetch, hasBackendSession } = useLeaderboard();
   const [searchQuery, setSearchQuery] = useState("");
 
-  // Fetch leaderboard data
-  const loadLeaderboard = async (showRefreshToast = false) => {
-    try {
-      setRefreshing(true);
-      const data = await fetchLeaderboard();
-      
-      // Sort by score descending and add rank
-      const sortedData = data
-        .sort((a, b) => b.score - a.score)
-        .map((entry, index) => ({
-          ...entry,
-          rank: index + 1,
-        }));
-      
-      setLeaderboardData(sortedData);
-      
-      if (showRefreshToast) {
-        toast.success("Leaderboard refreshed");
-      }
-    } catch (error: any) {
+  // Keep showing cached entries during a failed refresh; fall back to mock data if there are none
+  const leaderboardData: LeaderboardEntry[] =
+    entries.length > 0 || (hasBackendSession && !error) ? entries : FALLBACK_LEADERBOARD;
+
+  useEffect(() => {
+    if (error) {
       console.error("Failed to load leaderboard:", error);
-      toast.error("Failed to load leaderboard data");
-      
-      // Fallback to mock data if API fails
-      setLeaderboardData([
-        { id: 1, name: "Admin", score: 200, rank: 1 },
-        { id: 2, name: "Player2", score: 150, rank: 2 },
-      ]);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
+      // Malformed data gets an inline notice instead of a toast
+      if (!(error instanceof ResponseValidationError)) {
+        toast.error("Failed to load leaderboard data");
+      }
     }
-  };
+  }, [error]);
 
-  // Load leaderboard on mount
-  useEffect(() => {
-    loadLeaderboard();
-  }, []);
+  // Force a fetch even if the cached leaderboard is still fresh
+  const handleRefresh = async () => {
+    try {
+      await refetch();
+      toast.success("Leaderboard refreshed");
+    } catch (error) {
+      // Reported by the error effect above
+    }
+  };
 
   // Update leaderboard when user completes a module
   const handleScoreUpdate = async (points: number) => {
@@ -77,10 +69,8 @@ export function LeaderboardPage({ onNavigate }: LeaderboardPageProps) {
     try {
       // userId is extracted from JWT token by backend, but we pass it for compatibility
       await updateLeaderboardScore(user.id || user.uid, points);
+      // The cached leaderboard is invalidated and refetched by updateLeaderboardScore
       toast.success(`+${points} points added!`);
-      
-      // Refresh leaderboard
-      await loadLeaderboard();
     } catch (error: any) {
       console.error("Failed to update score:", error);
       toast.error("Failed to update leaderboard");
@@ -113,7 +103,7 @@ export function LeaderboardPage({ onNavigate }: LeaderboardPageProps) {
     : 0;
 
   // Loading state
-  if (loading) {
+  if (isLoading) {
     return (
       <div className="max-w-7xl mx-auto px-6 py-8 flex items-center justify-center min-h-[60vh]">
         <div className="flex flex-col items-center gap-4">
@@ -157,13 +147,13 @@ export function LeaderboardPage({ onNavigate }: LeaderboardPageProps) {
           </p>
         </div>
         <Button
-          onClick={() => loadLeaderboard(true)}
-          disabled={refreshing}
+          onClick={handleRefresh}
+          disabled={isFetching}
           variant="outline"
           size="sm"
           className="gap-2"
         >
-          {refreshing ? (
+          {isFetching ? (
             <Loader2 className="h-4 w-4 animate-spin" />
           ) : (
             <RefreshCw className="h-4 w-4" />
@@ -172,6 +162,19 @@ export function LeaderboardPage({ onNavigate }: LeaderboardPageProps) {
         </Button>
       </div>
 
+      {error instanceof ResponseValidationError && (
+        <DegradedNotice
+          className="mb-8"
+          title="Leaderboard data unavailable"
+          description={
+            entries.length > 0
+              ? "The latest rankings could not be read. Showing the last rankings that loaded."
+              : "The rankings could not be read. Showing sample data until the server responds correctly."
+          }
+          onRetry={handleRefresh}
+        />
+      )}
+
       {/* Summary Cards */}
       <div className="grid md:grid-cols-3 gap-6 mb-8">
         <Card className="p-6 border-2 border-border">
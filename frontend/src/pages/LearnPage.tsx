@@ -27,9 +27,10 @@ import {
   getTimeElapsed,
   type LastViewedModule 
 } from "../lib/moduleUtils";
+import { type NavigateFn } from "../lib/routes";
 
 interface LearnPageProps {
-  onNavigate: (page: string, data?: any) => void;
+  onNavigate: NavigateFn;
 }
 
 const iconMap: Record<number, any> = {
@@ -141,7 +142,7 @@ export function LearnPage({ onNavigate }: LearnPageProps) {
 
   // Calculate average score
   const averageScore = userProgress.completedModules.length > 0
-    ? Math.round((userProgress.completedModules.reduce((acc, id) => acc + (userProgress.quizScores?.[id] || 85), 0) / userProgress.completedModules.length))
+    ? Math.round((userProgress.completedModules.reduce((acc, id) => acc + (userProgress.moduleProgress[id]?.quizScore ?? 85), 0) / userProgress.completedModules.length))
     : 0;
 
   return (
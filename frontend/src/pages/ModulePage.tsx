@@ -13,10 +13,11 @@ import { type UserProgress, initializeModuleProgress, calculateModuleProgress }
 import { getVulnerabilityById } from "../lib/vulnerabilities";
 import { toast } from "sonner@2.0.3";
 import { saveLastViewedModule } from "../lib/moduleUtils";
+import { type NavigateFn } from "../lib/routes";
 
 interface ModulePageProps {
-  onNavigate: (page: string) => void;
-  vulnerabilityId?: number;
+  onNavigate: NavigateFn;
+  vulnerabilityId: number;
   onModuleComplete?: (moduleId: number, score: number) => void;
   onSectionUpdate?: (moduleId: number, section: 'overview' | 'quickExplainer' | 'mitigation' | 'interactiveLab' | 'quiz') => void;
   onQuizComplete?: (moduleId: number, score: number) => void;
@@ -32,20 +33,15 @@ export function ModulePage({
   userProgress
 }: ModulePageProps) {
   const [isLoading, setIsLoading] = useState(true);
-  const [vulnerability, setVulnerability] = useState<ReturnType<typeof getVulnerabilityById>>(null);
+  const [vulnerability, setVulnerability] = useState<ReturnType<typeof getVulnerabilityById>>(undefined);
 
   // Load vulnerability data
   useEffect(() => {
-    if (vulnerabilityId) {
-      const vuln = getVulnerabilityById(vulnerabilityId);
-      setVulnerability(vuln);
-      setIsLoading(false);
-    } else {
-      setIsLoading(false);
-    }
+    setVulnerability(getVulnerabilityById(vulnerabilityId));
+    setIsLoading(false);
   }, [vulnerabilityId]);
 
-  const moduleProgress = userProgress?.moduleProgress[vulnerabilityId || 1] || initializeModuleProgress(vulnerabilityId || 1);
+  const moduleProgress = userProgress?.moduleProgress[vulnerabilityId] || initializeModuleProgress(vulnerabilityId);
   const [localProgress, setLocalProgress] = useState(moduleProgress.progress);
 
   // Update local progress when module progress changes
@@ -55,19 +51,17 @@ export function ModulePage({
 
   // Save last viewed module to localStorage on mount and progress updates
   useEffect(() => {
-    if (vulnerabilityId) {
-      saveLastViewedModule(vulnerabilityId, moduleProgress.progress);
-    }
+    saveLastViewedModule(vulnerabilityId, moduleProgress.progress);
   }, [vulnerabilityId, moduleProgress.progress]);
 
   const handleSectionComplete = (section: 'overview' | 'quickExplainer' | 'mitigation' | 'interactiveLab') => {
-    if (onSectionUpdate && vulnerabilityId && !moduleProgress.sectionsCompleted[section]) {
+    if (onSectionUpdate && !moduleProgress.sectionsCompleted[section]) {
       onSectionUpdate(vulnerabilityId, section);
     }
   };
 
   const handleQuizComplete = (score: number) => {
-    if (onQuizComplete && vulnerabilityId) {
+    if (onQuizComplete) {
       onQuizComplete(vulnerabilityId, score);
       
       const passed = score >= 80;
@@ -122,7 +116,7 @@ export function ModulePage({
   }
 
   // Module not found state
-  if (!vulnerability || !vulnerabilityId) {
+  if (!vulnerability) {
     return (
       <div className="max-w-7xl mx-auto px-6 py-8">
         {/* Back Navigation Button */}
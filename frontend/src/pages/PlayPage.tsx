@@ -7,6 +7,7 @@ import { ChallengeCard } from "../components/play/ChallengeCard";
 import { ChallengeEnvironment } from "../components/play/ChallengeEnvironment";
 import {
   AlertTriangle,
+  AlertCircle,
   Database,
   Eye,
   Image,
@@ -23,11 +24,26 @@ import { ProgressSummaryBar } from "../components/shared/ProgressSummaryBar";
 import { FilterBar } from "../components/shared/FilterBar";
 import { VulnerabilityCard } from "../components/shared/VulnerabilityCard";
 import { ContinueTrainingBanner } from "../components/shared/ContinueTrainingBanner";
+import { DegradedNotice } from "../components/shared/DegradedNotice";
+import { type NavigateFn } from "../lib/routes";
+import { useChallengeCatalog } from "../hooks/useChallengeCatalog";
+import { ResponseValidationError, type ChallengeCatalogEntry, type ChallengeDifficulty } from "../utils/api";
 
 interface PlayPageProps {
-  onNavigate: (page: string) => void;
+  onNavigate: NavigateFn;
+  vulnerabilityId?: number;
+  level?: number;
 }
 
+const difficultyMap: Record<ChallengeDifficulty, ChallengeLevel["difficulty"]> = {
+  EASY: "beginner",
+  MEDIUM: "intermediate",
+  HARD: "advanced",
+};
+
+// For levels the local table has no hints and timings for (it only covers some challenges)
+const DEFAULT_LEVEL_DETAILS = { timeLimit: 300, maxAttempts: 5, flag: "", hints: [] as string[] };
+
 const iconMap: Record<number, any> = {
   1: AlertTriangle,
   2: Database,
@@ -41,18 +57,47 @@ const iconMap: Record<number, any> = {
   10: Zap,
 };
 
-export function PlayPage({ onNavigate }: PlayPageProps) {
+export function PlayPage({ onNavigate, vulnerabilityId, level }: PlayPageProps) {
   const [userChallenges] = useState(initializeUserChallenges());
-  const [selectedVulnerabilityId, setSelectedVulnerabilityId] = useState<number | null>(null);
-  const [activeChallenge, setActiveChallenge] = useState<{
-    vulnerabilityId: number;
-    level: ChallengeLevel;
-  } | null>(null);
   const [activeFilter, setActiveFilter] = useState<'all' | 'high' | 'medium' | 'low'>('all');
   const [visibleCount, setVisibleCount] = useState(6);
 
-  // Vulnerabilities that are work in progress (disabled)
-  const workInProgressIds = [3, 5, 7, 9, 10]; // LLM03, LLM05, LLM07, LLM09, LLM10
+  const {
+    loading: catalogLoading,
+    error: catalogError,
+    refetch: refetchCatalog,
+    getChallengeForVulnerability,
+  } = useChallengeCatalog();
+
+  // Modules without a seeded challenge are shown as work in progress (disabled)
+  const isWorkInProgress = (id: number) => !catalogLoading && !getChallengeForVulnerability(id);
+
+  // Resolve the challenge from the URL (/play/:vulnerabilityId/level/:n); null if the catalog has no such level.
+  // Level details come from the catalog; hints and timings from the local level data where it has them
+  const getLevelData = (entry: ChallengeCatalogEntry, levelNumber: number): ChallengeLevel | null => {
+    const catalogLevel = entry.levels.find((l) => l.index === levelNumber);
+    if (!catalogLevel) return null;
+    const localLevel = challengeLevels[entry.vulnerabilityId ?? 0]?.find((l) => l.level === catalogLevel.index);
+
+    return {
+      ...DEFAULT_LEVEL_DETAILS,
+      scenario: catalogLevel.description,
+      ...localLevel,
+      level: catalogLevel.index, // Ensure level number matches what API expects
+      title: catalogLevel.title,
+      objective: catalogLevel.description || localLevel?.objective || "",
+      difficulty: difficultyMap[catalogLevel.difficulty] || localLevel?.difficulty || "beginner",
+    };
+  };
+
+  const activeEntry = vulnerabilityId && vulnerabilities.some((v) => v.id === vulnerabilityId)
+    ? getChallengeForVulnerability(vulnerabilityId)
+    : undefined;
+  const activeLevel = activeEntry ? getLevelData(activeEntry, level || 1) : null;
+
+  const activeChallenge = activeEntry && activeLevel
+    ? { vulnerabilityId: vulnerabilityId as number, entry: activeEntry, level: activeLevel }
+    : null;
 
   // Calculate challenge completion (10 vulnerabilities × 10 levels each = 100 total)
   const totalPossibleLevels = vulnerabilities.length * 10;
@@ -74,55 +119,28 @@ export function PlayPage({ onNavigate }: PlayPageProps) {
 
   const handlePlayClick = (vulnerabilityId: number) => {
     // Don't allow clicking on work in progress vulnerabilities
-    if (workInProgressIds.includes(vulnerabilityId)) {
+    const entry = getChallengeForVulnerability(vulnerabilityId);
+    if (!entry || entry.levels.length === 0) {
       return;
     }
 
-    // Auto-select Level 1 by default
-    const levels = challengeLevels[vulnerabilityId] || challengeLevels[1]; // Fallback to LLM01 levels
-    const level1 = levels[0] || challengeLevels[1][0];
-
-    const levelData: ChallengeLevel = {
-      ...level1,
-      level: 1, // Ensure level number matches what API expects
-    };
-
-    setSelectedVulnerabilityId(vulnerabilityId);
-    setActiveChallenge({
-      vulnerabilityId,
-      level: levelData,
-    });
+    // Auto-select the first active level by default
+    onNavigate("play", { vulnerabilityId, level: entry.levels[0].index });
   };
 
   const handleLevelSelect = (levelNumber: number) => {
-    const vulnerabilityId = activeChallenge?.vulnerabilityId || selectedVulnerabilityId;
-    if (!vulnerabilityId) return;
-
-    // Get the level data for the selected level
-    const levels = challengeLevels[vulnerabilityId] || challengeLevels[1]; // Fallback to LLM01 levels
-    const selectedLevel = levels[levelNumber - 1] || levels[0];
-
-    // Create a ChallengeLevel object with the correct level number
-    const levelData: ChallengeLevel = {
-      ...selectedLevel,
-      level: levelNumber, // Ensure level number matches what API expects
-    };
-
-    setActiveChallenge({
-      vulnerabilityId,
-      level: levelData,
-    });
+    if (!activeChallenge) return;
+    onNavigate("play", { vulnerabilityId: activeChallenge.vulnerabilityId, level: levelNumber });
   };
 
   const handleChallengeExit = () => {
-    setActiveChallenge(null);
-    setSelectedVulnerabilityId(null);
+    onNavigate("play");
   };
 
   const handleChallengeComplete = (score: number, timeSpent: number) => {
     // Update challenge progress
     // In real implementation, this would update state and sync to backend
-    setActiveChallenge(null);
+    onNavigate("play");
   };
 
   // Filter vulnerabilities based on active filter
@@ -144,24 +162,68 @@ export function PlayPage({ onNavigate }: PlayPageProps) {
     setVisibleCount(6); // Reset to initial count when filter changes
   };
 
-  // Show challenge environment when a vulnerability is selected (with or without level)
-  if (selectedVulnerabilityId || activeChallenge) {
-    const vulnerabilityId = activeChallenge?.vulnerabilityId || selectedVulnerabilityId;
-    const vulnerability = vulnerabilities.find((v) => v.id === vulnerabilityId);
+  // Show challenge environment when the URL points at a playable challenge
+  if (activeChallenge) {
+    const vulnerability = vulnerabilities.find((v) => v.id === activeChallenge.vulnerabilityId);
     
     return (
       <ChallengeEnvironment
-        challenge={activeChallenge?.level}
-        vulnerabilityTitle={vulnerability?.title || "Unknown"}
-        vulnerabilityId={vulnerabilityId || 0}
+        challenge={activeChallenge.level}
+        vulnerabilityTitle={vulnerability?.title || activeChallenge.entry.title}
+        vulnerabilityId={activeChallenge.vulnerabilityId}
+        challengeSlug={activeChallenge.entry.slug}
+        levelNumbers={activeChallenge.entry.levels.map((l) => l.index)}
         onComplete={handleChallengeComplete}
         onExit={handleChallengeExit}
         onLevelSelect={handleLevelSelect}
-        currentLevel={activeChallenge?.level?.level || 1}
+        currentLevel={activeChallenge.level.level}
       />
     );
   }
 
+  // Deep link to a challenge while the catalog is still loading
+  if (vulnerabilityId && catalogLoading) {
+    return (
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <p className="text-muted-foreground">Loading challenge...</p>
+      </div>
+    );
+  }
+
+  // Challenge or level not found state (a deep link the catalog cannot resolve)
+  if (vulnerabilityId && !catalogError) {
+    const firstLevel = activeEntry?.levels[0]?.index;
+    return (
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <Button
+          variant="ghost"
+          className="pl-0 text-primary hover:text-primary/80 hover:bg-transparent mb-6"
+          onClick={() => onNavigate("play")}
+        >
+          <ChevronLeft className="h-4 w-4 mr-1" />
+          Back to Challenges
+        </Button>
+
+        <Card className="p-12 text-center border-2 border-destructive/20">
+          <AlertCircle className="h-16 w-16 text-destructive mx-auto mb-4" />
+          <h2 className="text-2xl mb-2">{activeEntry ? "Level Not Found" : "Challenge Not Found"}</h2>
+          <p className="text-muted-foreground mb-6">
+            {activeEntry
+              ? `This challenge has no level ${level || 1}.`
+              : "The challenge you're looking for doesn't exist or isn't available yet."}
+          </p>
+          {activeEntry && firstLevel !== undefined ? (
+            <Button onClick={() => onNavigate("play", { vulnerabilityId, level: firstLevel })}>
+              Start at Level {firstLevel}
+            </Button>
+          ) : (
+            <Button onClick={() => onNavigate("play")}>Return to Challenges</Button>
+          )}
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="max-w-7xl mx-auto px-6 py-8">
       {/* Header Section */}
@@ -196,6 +258,27 @@ export function PlayPage({ onNavigate }: PlayPageProps) {
         currentProgress={challengeCompletionPercentage}
       />
 
+      {catalogError instanceof ResponseValidationError ? (
+        <DegradedNotice
+          className="mb-6"
+          title="Challenge list unavailable"
+          description="The server sent a challenge list this page could not read. Modules below are shown from the offline copy and may not be playable."
+          onRetry={refetchCatalog}
+        />
+      ) : catalogError && (
+        <Card className="p-4 mb-6 border-2 border-border bg-card">
+          <p
+            style={{
+              fontFamily: 'Source Sans Pro, sans-serif',
+              fontSize: '0.95rem',
+              color: '#475569',
+            }}
+          >
+            Challenges could not be loaded from the server. Please try again later.
+          </p>
+        </Card>
+      )}
+
       {/* Filter Bar */}
       <FilterBar activeFilter={activeFilter} onFilterChange={handleFilterChange} />
 
@@ -211,14 +294,14 @@ export function PlayPage({ onNavigate }: PlayPageProps) {
           const challengeProgress = userChallenges.challenges[vulnerability.id];
           const isCompleted = challengeProgress.currentLevel > 10; // All 10 levels completed
           const progress = Math.round(((challengeProgress.currentLevel - 1) / 10) * 100);
-          const isWorkInProgress = workInProgressIds.includes(vulnerability.id);
+          const isUnavailable = isWorkInProgress(vulnerability.id);
 
           return (
             <VulnerabilityCard
               key={vulnerability.id}
               id={vulnerability.id}
               title={vulnerability.title}
-              description={isWorkInProgress 
+              description={isUnavailable 
                 ? "This challenge is currently under development. Check back soon!"
                 : vulnerability.description
               }
@@ -228,7 +311,7 @@ export function PlayPage({ onNavigate }: PlayPageProps) {
               progress={progress}
               onAction={() => handlePlayClick(vulnerability.id)}
               actionLabel={isCompleted ? "Replay" : "Play"}
-              isWorkInProgress={isWorkInProgress}
+              isWorkInProgress={isUnavailable}
             />
           );
         })}
@@ -8,9 +8,41 @@ import { Progress } from "../components/ui/progress";
 import { Separator } from "../components/ui/separator";
 import { Avatar, AvatarFallback, AvatarImage } from "../components/ui/avatar";
 import { Alert, AlertDescription } from "../components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "../components/ui/alert-dialog";
 import { calculateCompletionPercentage } from "../lib/userProgress";
 import { vulnerabilities } from "../lib/vulnerabilities";
 import { useUser } from "../context/UserContext";
+import { useLeaderboard } from "../hooks/useLeaderboard";
+import { useQuery } from "../hooks/useQuery";
+import { useRequireRole } from "../hooks/useRequireRole";
+import { VerificationCodeForm } from "../components/auth/VerificationCodeForm";
+import { TwoFactorSettings } from "../components/auth/TwoFactorSettings";
+import { SessionsSettings } from "../components/auth/SessionsSettings";
+import { buildAccountArchive, downloadJson, clearLocalAccountData } from "../lib/accountData";
+import {
+  isBackendToken,
+  getProfile,
+  updateProfile,
+  verifyContactChange,
+  resendContactCode,
+  deleteAccount,
+  fetchMfaStatus,
+  fetchUserProgress,
+  fetchAdminUsers,
+  queryKeys,
+  type ContactChannel,
+  type PendingVerification,
+  type ProfileUpdate,
+} from "../utils/api";
+import { toast } from "sonner@2.0.3";
 import {
   Award,
   Download,
@@ -26,23 +58,184 @@ import {
   X,
   Smartphone,
   AlertCircle,
+  Loader2,
+  Database,
+  Trash2,
+  ShieldAlert,
+  ChevronLeft,
   User as UserIcon,
 } from "lucide-react";
+import { type NavigateFn } from "../lib/routes";
 
 interface ProfilePageProps {
-  onNavigate: (page: string) => void;
+  onNavigate: NavigateFn;
+  userId?: string; // Another user's profile (instructors only); the signed-in user's own when absent
+}
+
+const CHANNEL_LABELS: Record<ContactChannel, string> = {
+  email: "email address",
+  phone: "mobile number",
+};
+
+export function ProfilePage({ onNavigate, userId }: ProfilePageProps) {
+  const { user } = useUser();
+  if (userId && userId !== user?.uid) {
+    return <MemberProfile onNavigate={onNavigate} userId={userId} />;
+  }
+  return <OwnProfile onNavigate={onNavigate} />;
 }
 
-export function ProfilePage({ onNavigate }: ProfilePageProps) {
-  const { user, userProgress } = useUser();
+/**
+ * Read-only view of another user's account and Learn progress, for instructors
+ */
+function MemberProfile({ onNavigate, userId }: { onNavigate: NavigateFn; userId: string }) {
+  const { allowed, loading } = useRequireRole("ADMIN");
+  const { data: users, error: usersError } = useQuery(queryKeys.adminUsers, fetchAdminUsers, { enabled: allowed });
+  const { data: progress, error: progressError } = useQuery(
+    queryKeys.userProgress(userId),
+    () => fetchUserProgress(userId),
+    { enabled: allowed }
+  );
+  const member = users?.find((entry) => entry.id === userId);
+
+  if (loading) return null;
+
+  if (!allowed || (users && !member)) {
+    return (
+      <div className="max-w-3xl mx-auto px-6 py-16">
+        <Card className="p-8 border-2 border-border text-center">
+          <ShieldAlert className="h-10 w-10 text-destructive mx-auto mb-4" />
+          <h1 className="text-2xl text-primary mb-2">{allowed ? "User Not Found" : "Profile Unavailable"}</h1>
+          <p className="text-muted-foreground mb-6">
+            {allowed
+              ? "This user doesn't exist or has deleted their account."
+              : "Only instructors can view other users' profiles."}
+          </p>
+          <Button onClick={() => onNavigate("profile")}>Go to Your Profile</Button>
+        </Card>
+      </div>
+    );
+  }
+
+  const completedModules = progress?.completedModules ?? [];
+  const loadError = usersError || progressError;
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-8 transition-colors duration-200">
+      <Button
+        variant="ghost"
+        className="pl-0 text-primary hover:text-primary/80 hover:bg-transparent mb-6"
+        onClick={() => onNavigate("admin")}
+      >
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        Back to Admin
+      </Button>
+
+      <div className="mb-8">
+        <h1 className="text-4xl text-card-foreground mb-2">{member?.name || "Loading..."}</h1>
+        <p className="text-muted-foreground">{member?.email}</p>
+      </div>
+
+      {loadError ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            {loadError instanceof Error ? loadError.message : "Failed to load this profile"}
+          </AlertDescription>
+        </Alert>
+      ) : !member || !progress ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-teal" />
+        </div>
+      ) : (
+        <Card className="p-6 border-2 border-border">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-primary">Training Progress</h3>
+            <Badge variant="outline">{member.role === "ADMIN" ? "Instructor" : "Trainee"}</Badge>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4 mb-6">
+            <div className="p-4 bg-muted rounded-lg">
+              <p className="text-3xl text-primary mb-1">{completedModules.length}/10</p>
+              <p className="text-xs text-muted-foreground">Modules Completed</p>
+            </div>
+            <div className="p-4 bg-muted rounded-lg">
+              <p className="text-3xl text-primary mb-1">{member.learnScore}</p>
+              <p className="text-xs text-muted-foreground">Learn Score</p>
+            </div>
+            <div className="p-4 bg-muted rounded-lg">
+              <p className="text-3xl text-primary mb-1">{member.xpTotal}</p>
+              <p className="text-xs text-muted-foreground">Challenge XP</p>
+            </div>
+          </div>
+
+          <h4 className="text-sm mb-3">Completed Modules</h4>
+          <div className="space-y-2">
+            {completedModules.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground text-sm">
+                No modules completed yet.
+              </div>
+            ) : (
+              completedModules.map((moduleId) => (
+                <div key={moduleId} className="flex items-center justify-between p-3 bg-muted rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <CheckCircle2 className="h-5 w-5 text-success" />
+                    <p className="text-sm">{vulnerabilities.find((v) => v.id === moduleId)?.title || `Module ${moduleId}`}</p>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    Quiz: {progress.moduleProgress[moduleId]?.quizScore ?? "—"}
+                  </span>
+                </div>
+              ))
+            )}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The signed-in user's own profile: account details, security settings and progress
+ */
+function OwnProfile({ onNavigate }: { onNavigate: NavigateFn }) {
+  const { user, setUser, userProgress, resetProgress, logout } = useUser();
+  const { currentUserRank } = useLeaderboard();
+  // Device-only accounts have no server profile to edit
+  const hasBackendSession = !!user && isBackendToken();
+  const { data: profile } = useQuery(queryKeys.profile, getProfile, { enabled: hasBackendSession });
+  const { data: mfaStatus } = useQuery(queryKeys.mfaStatus, fetchMfaStatus, { enabled: hasBackendSession });
   const [isEditing, setIsEditing] = useState(false);
-  const [showVerification, setShowVerification] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // Email/phone changes waiting for the code sent to the new address
+  const [pendingVerifications, setPendingVerifications] = useState<PendingVerification[]>([]);
   const [formData, setFormData] = useState({
-    fullName: user?.displayName || "User",
+    fullName: user?.displayName || "",
+    username: "",
     email: user?.email || "",
-    mobileNumber: "+1 (555) 123-4567",
+    mobileNumber: "",
   });
   const [originalData, setOriginalData] = useState(formData);
+  const [exporting, setExporting] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState("");
+  const [deletePassword, setDeletePassword] = useState("");
+  const [deleteCode, setDeleteCode] = useState("");
+  const [deleting, setDeleting] = useState(false);
+
+  // Fill the form from the server profile (unless the user is mid-edit)
+  useEffect(() => {
+    if (!profile || isEditing) return;
+    const loaded = {
+      fullName: profile.name,
+      username: profile.username || "",
+      email: profile.email,
+      mobileNumber: profile.phoneNumber || "",
+    };
+    setFormData(loaded);
+    setOriginalData(loaded);
+  }, [profile]);
 
   const completionPercentage = calculateCompletionPercentage(userProgress.completedModules);
   
@@ -100,19 +293,120 @@ export function ProfilePage({ onNavigate }: ProfilePageProps) {
   const handleCancel = () => {
     setFormData(originalData);
     setIsEditing(false);
-    setShowVerification(false);
+    setSaveError(null);
   };
 
-  const handleSave = () => {
-    // Check if email or mobile changed
-    if (formData.email !== originalData.email || formData.mobileNumber !== originalData.mobileNumber) {
-      setShowVerification(true);
+  const handleSave = async () => {
+    // Only send what changed; email and phone are verified before they take effect
+    const update: ProfileUpdate = {};
+    if (formData.fullName !== originalData.fullName) update.fullName = formData.fullName;
+    if (formData.username !== originalData.username) update.username = formData.username;
+    if (formData.email !== originalData.email) update.email = formData.email;
+    if (formData.mobileNumber !== originalData.mobileNumber) update.phoneNumber = formData.mobileNumber;
+
+    if (Object.keys(update).length === 0) {
+      setIsEditing(false);
+      return;
+    }
+
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const result = await updateProfile(update);
+      setUser({ ...user, displayName: result.user.name });
+      setPendingVerifications((prev) => [
+        ...prev.filter((p) => !result.pendingVerifications.some((next) => next.channel === p.channel)),
+        ...result.pendingVerifications,
+      ]);
+      // Pending addresses stay as they are until verified
+      const saved = {
+        fullName: result.user.name,
+        username: result.user.username || "",
+        email: result.user.email,
+        mobileNumber: result.user.phoneNumber || "",
+      };
+      setFormData(saved);
+      setOriginalData(saved);
+      setIsEditing(false);
+      toast.success(
+        result.pendingVerifications.length > 0
+          ? "Profile saved. Enter the code we sent to confirm your new contact details."
+          : "Profile saved"
+      );
+    } catch (error: any) {
+      setSaveError(error?.message || "Could not save your profile. Please try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVerify = async (channel: ContactChannel, code: string) => {
+    try {
+      const updated = await verifyContactChange(channel, code);
+      setUser({ ...user, email: updated.email, displayName: updated.name });
+      setPendingVerifications((prev) => prev.filter((p) => p.channel !== channel));
+      toast.success(`Your ${CHANNEL_LABELS[channel]} has been updated`);
+    } catch (error: any) {
+      toast.error(error?.message || "Verification failed");
+      throw error;
+    }
+  };
+
+  const handleResendCode = async (channel: ContactChannel) => {
+    try {
+      const pending = await resendContactCode(channel);
+      setPendingVerifications((prev) => prev.map((p) => (p.channel === channel ? pending : p)));
+      toast.success(`A new code was sent to ${pending.target}`);
+    } catch (error: any) {
+      toast.error(error?.message || "Could not send a new code");
+      throw error;
     }
-    setIsEditing(false);
   };
 
-  const handleResendCode = () => {
-    alert("Verification code sent to " + formData.mobileNumber);
+  const handleDownloadData = async () => {
+    setExporting(true);
+    try {
+      const archive = await buildAccountArchive(user.uid, hasBackendSession);
+      downloadJson(`usda-ai-redteam-data-${new Date().toISOString().slice(0, 10)}.json`, archive);
+    } catch (error: any) {
+      toast.error(error?.message || "Could not export your data. Please try again.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // The account's email must be typed before deleting (the server checks it too).
+  // Server accounts also re-enter their password (unless they only use SSO) and, with MFA on, a code.
+  const needsDeletePassword = hasBackendSession && profile?.hasPassword !== false;
+  const needsDeleteCode = hasBackendSession && !!mfaStatus?.enabled;
+  const deleteConfirmed =
+    !!user.email &&
+    deleteConfirm.trim().toLowerCase() === user.email.toLowerCase() &&
+    (!needsDeletePassword || !!deletePassword) &&
+    (!needsDeleteCode || !!deleteCode.trim());
+
+  const handleDeleteAccount = async () => {
+    if (!deleteConfirmed) return;
+    setDeleting(true);
+    try {
+      if (hasBackendSession) {
+        await deleteAccount({
+          confirm: deleteConfirm.trim(),
+          ...(needsDeletePassword && { password: deletePassword }),
+          ...(needsDeleteCode && { code: deleteCode.trim() }),
+        });
+      }
+      // The server copy of the progress went with the account
+      resetProgress({ localOnly: true });
+      await logout();
+      clearLocalAccountData(user.uid);
+      setDeleteDialogOpen(false);
+      toast.success("Your account and its data have been deleted");
+      onNavigate("home");
+    } catch (error: any) {
+      toast.error(error?.message || "Could not delete your account. Please try again.");
+      setDeleting(false);
+    }
   };
 
   return (
@@ -157,11 +451,11 @@ export function ProfilePage({ onNavigate }: ProfilePageProps) {
             <div className="space-y-3 text-sm">
               <div className="flex items-center gap-3 text-muted-foreground">
                 <Mail className="h-4 w-4 flex-shrink-0" />
-                <span className="truncate">{formData.email}</span>
+                <span className="truncate">{originalData.email}</span>
               </div>
               <div className="flex items-center gap-3 text-muted-foreground">
                 <Smartphone className="h-4 w-4 flex-shrink-0" />
-                <span>{formData.mobileNumber}</span>
+                <span>{originalData.mobileNumber || "No mobile number"}</span>
               </div>
               <div className="flex items-center gap-3 text-muted-foreground">
                 <Calendar className="h-4 w-4 flex-shrink-0" />
@@ -218,7 +512,7 @@ export function ProfilePage({ onNavigate }: ProfilePageProps) {
                 <p className="text-xs text-muted-foreground">Total Score</p>
               </div>
               <div className="p-4 bg-muted rounded-lg">
-                <p className="text-3xl text-primary mb-1 transition-all duration-300">#{userProgress.rank}</p>
+                <p className="text-3xl text-primary mb-1 transition-all duration-300">{currentUserRank ? `#${currentUserRank}` : "—"}</p>
                 <p className="text-xs text-muted-foreground">Leaderboard Rank</p>
               </div>
             </div>
@@ -327,6 +621,8 @@ export function ProfilePage({ onNavigate }: ProfilePageProps) {
                   variant="outline"
                   size="sm"
                   onClick={handleEdit}
+                  disabled={!hasBackendSession}
+                  title={hasBackendSession ? undefined : "Profile changes need the training server"}
                   className="gap-2"
                 >
                   <Edit className="h-4 w-4" />
@@ -335,25 +631,33 @@ export function ProfilePage({ onNavigate }: ProfilePageProps) {
               )}
             </div>
 
-            {/* Verification Alert */}
-            {showVerification && (
-              <Alert className="mb-6 border-warning/20 bg-yellow-50">
+            {!hasBackendSession && (
+              <p className="text-sm text-muted-foreground mb-6">
+                This account is stored on this device only. Profile changes are available once it is saved to the training server.
+              </p>
+            )}
+
+            {saveError && (
+              <Alert variant="destructive" className="mb-6">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{saveError}</AlertDescription>
+              </Alert>
+            )}
+
+            {/* Pending email/phone changes */}
+            {pendingVerifications.map((pending) => (
+              <Alert key={pending.channel} className="mb-6 border-warning/20 bg-yellow-50 dark:bg-yellow-950/20">
                 <AlertCircle className="h-4 w-4 text-warning" />
-                <AlertDescription className="text-yellow-800">
-                  <p className="mb-2">
-                    A verification link has been sent to your current email address.
-                  </p>
-                  <Button
-                    variant="link"
-                    size="sm"
-                    onClick={handleResendCode}
-                    className="p-0 h-auto text-yellow-800 underline"
-                  >
-                    Resend verification code for mobile number
-                  </Button>
+                <AlertDescription>
+                  <VerificationCodeForm
+                    label={`Enter the code sent to ${pending.target}`}
+                    description={`Your ${CHANNEL_LABELS[pending.channel]} changes once it is confirmed. The code expires at ${new Date(pending.expiresAt).toLocaleTimeString()}.`}
+                    onVerify={(code) => handleVerify(pending.channel, code)}
+                    onResend={() => handleResendCode(pending.channel)}
+                  />
                 </AlertDescription>
               </Alert>
-            )}
+            ))}
 
             <div className="space-y-6">
               <div>
@@ -367,6 +671,17 @@ export function ProfilePage({ onNavigate }: ProfilePageProps) {
                 />
               </div>
 
+              <div>
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  value={formData.username}
+                  onChange={(e) => setFormData({ ...formData, username: e.target.value })}
+                  disabled={!isEditing}
+                  className="mt-1"
+                />
+              </div>
+
               <div>
                 <Label htmlFor="email">Email Address</Label>
                 <Input
@@ -390,6 +705,7 @@ export function ProfilePage({ onNavigate }: ProfilePageProps) {
                   id="mobile"
                   type="tel"
                   value={formData.mobileNumber}
+                  placeholder={isEditing ? "+1 555 123 4567" : "Not set"}
                   onChange={(e) => setFormData({ ...formData, mobileNumber: e.target.value })}
                   disabled={!isEditing}
                   className="mt-1"
@@ -405,11 +721,11 @@ export function ProfilePage({ onNavigate }: ProfilePageProps) {
                 <>
                   <Separator />
                   <div className="flex gap-3">
-                    <Button onClick={handleSave} className="bg-primary hover:bg-primary/90 gap-2">
-                      <Save className="h-4 w-4" />
+                    <Button onClick={handleSave} disabled={saving} className="bg-primary hover:bg-primary/90 gap-2">
+                      {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
                       Save Changes
                     </Button>
-                    <Button variant="outline" onClick={handleCancel} className="gap-2">
+                    <Button variant="outline" onClick={handleCancel} disabled={saving} className="gap-2">
                       <X className="h-4 w-4" />
                       Cancel
                     </Button>
@@ -418,8 +734,104 @@ export function ProfilePage({ onNavigate }: ProfilePageProps) {
               )}
             </div>
           </Card>
+
+          {/* Two-factor authentication */}
+          <TwoFactorSettings hasBackendSession={hasBackendSession} />
+
+          {/* Signed-in devices */}
+          <SessionsSettings hasBackendSession={hasBackendSession} onLogout={() => onNavigate("home")} />
+
+          {/* Your data */}
+          <Card className="p-6 border-2 border-border">
+            <div className="flex items-center gap-2 mb-2">
+              <Database className="h-5 w-5 text-primary" />
+              <h3 className="text-primary">Your Data</h3>
+            </div>
+            <p className="text-sm text-muted-foreground mb-6">
+              {hasBackendSession
+                ? "Download everything the training server and this browser store about you, or delete your account."
+                : "Your account is stored in this browser only. Download what it holds, or delete it."}
+            </p>
+
+            <div className="flex flex-wrap gap-3">
+              <Button variant="outline" onClick={handleDownloadData} disabled={exporting} className="gap-2">
+                {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                Download My Data
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={() => {
+                  setDeleteConfirm("");
+                  setDeletePassword("");
+                  setDeleteCode("");
+                  setDeleteDialogOpen(true);
+                }}
+                className="gap-2"
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete Account
+              </Button>
+            </div>
+          </Card>
         </div>
       </div>
+
+      <AlertDialog open={deleteDialogOpen} onOpenChange={(open: boolean) => !deleting && setDeleteDialogOpen(open)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete your account?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes your account, challenge XP, module progress and activity history
+              {hasBackendSession ? " from the training server and" : ""} from this browser. It cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="delete-confirm">Type {user.email} to confirm</Label>
+            <Input
+              id="delete-confirm"
+              type="email"
+              autoComplete="off"
+              value={deleteConfirm}
+              onChange={(e) => setDeleteConfirm(e.target.value)}
+              disabled={deleting}
+            />
+          </div>
+          {needsDeletePassword && (
+            <div className="space-y-2">
+              <Label htmlFor="delete-password">Password</Label>
+              <Input
+                id="delete-password"
+                type="password"
+                autoComplete="current-password"
+                value={deletePassword}
+                onChange={(e) => setDeletePassword(e.target.value)}
+                disabled={deleting}
+              />
+            </div>
+          )}
+          {needsDeleteCode && (
+            <div className="space-y-2">
+              <Label htmlFor="delete-code">Authenticator or recovery code</Label>
+              <Input
+                id="delete-code"
+                type="text"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={deleteCode}
+                onChange={(e) => setDeleteCode(e.target.value)}
+                disabled={deleting}
+              />
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={deleting}>Cancel</AlertDialogCancel>
+            <Button variant="destructive" onClick={handleDeleteAccount} disabled={!deleteConfirmed || deleting} className="gap-2">
+              {deleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+              Delete Account
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
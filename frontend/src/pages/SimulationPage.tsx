@@ -16,9 +16,10 @@ import {
   CheckCircle2,
   XCircle,
 } from "lucide-react";
+import { type NavigateFn } from "../lib/routes";
 
 interface SimulationPageProps {
-  onNavigate: (page: string) => void;
+  onNavigate: NavigateFn;
 }
 
 export function SimulationPage({ onNavigate }: SimulationPageProps) {
@@ -18,9 +18,10 @@ import {
   Award,
   Shield,
 } from "lucide-react";
+import { type NavigateFn } from "../lib/routes";
 
 interface VulnerabilitiesPageProps {
-  onNavigate: (page: string, data?: any) => void;
+  onNavigate: NavigateFn;
   completedModules?: number[];
 }
 
@@ -2,6 +2,9 @@
 // 🔐 ENV PLACEHOLDER — API URL must be configured in environment variables
 // Configure VITE_API_BASE_URL in your .env file (see README.md)
 
+import { invalidateQueries, clearQueryCache, setQueryData } from './queryCache';
+import * as v from './validation';
+
 // Safely access environment variables with fallback
 const getApiBaseUrl = (): string => {
   try {
@@ -16,12 +19,57 @@ const getApiBaseUrl = (): string => {
 
 const API_BASE_URL = getApiBaseUrl();
 
+// ============================================
+// Transport
+// ============================================
+
+/**
+ * fetch-compatible function that actually carries requests.
+ * Swappable so the app can run against the in-browser mock backend.
+ */
+export type Transport = (url: string, init?: RequestInit) => Promise<Response>;
+
+// VITE_API_TRANSPORT=mock serves every request from lib/mockBackend.ts.
+// The env check must stay a literal `import.meta.env` read: Vite replaces it at build time, so
+// other builds drop the mock (and its target bot) entirely instead of shipping it as a chunk.
+const getDefaultTransport = (): Transport => {
+  try {
+    if (import.meta.env.VITE_API_TRANSPORT === 'mock') {
+      return (url, init) => import('../lib/mockBackend').then(({ mockTransport }) => mockTransport(url, init));
+    }
+  } catch (error) {
+    // Fall through to the network
+  }
+  return (url, init) => fetch(url, init);
+};
+
+let transport: Transport = getDefaultTransport();
+
+/**
+ * Replace the transport used for every API request
+ */
+export function setTransport(next: Transport): void {
+  transport = next;
+}
+
+/**
+ * Send a raw request to the API through the active transport
+ */
+export function apiTransport(endpoint: string, init?: RequestInit): Promise<Response> {
+  return transport(`${API_BASE_URL}${endpoint}`, init);
+}
+
 // Get stored JWT token
 export const getAuthToken = (): string | null => {
   if (typeof window === 'undefined') return null;
   return localStorage.getItem('usda_token');
 };
 
+// Whether a token is a backend JWT; device-only accounts store their user id instead (no dots)
+export const isBackendToken = (token: string | null = getAuthToken()): token is string => {
+  return !!token && token.includes('.');
+};
+
 // Set stored JWT token
 export const setAuthToken = (token: string): void => {
   if (typeof window === 'undefined') return;
@@ -34,15 +82,284 @@ export const clearAuthToken = (): void => {
   localStorage.removeItem('usda_token');
 };
 
-// Generic fetch wrapper with auth headers
-async function apiFetch<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<T> {
+export type UserRole = 'USER' | 'ADMIN';
+
+/**
+ * Decode the claims of a backend JWT (not verified - the server checks the signature).
+ * Returns null for frontend-only tokens (no dots) or malformed tokens.
+ */
+const decodeTokenClaims = (token: string | null): Record<string, unknown> | null => {
+  if (!isBackendToken(token)) return null;
+  try {
+    const payload = token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/');
+    return JSON.parse(atob(payload));
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Expiry of a backend JWT in epoch milliseconds.
+ * Returns null for frontend-only tokens (no dots) or tokens without an `exp` claim.
+ */
+export const getTokenExpiry = (token: string | null = getAuthToken()): number | null => {
+  const exp = decodeTokenClaims(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+};
+
+/**
+ * Role claim of a backend JWT. Only for showing or hiding UI - the server enforces roles.
+ */
+export const getTokenRole = (token: string | null = getAuthToken()): UserRole | null => {
+  const role = decodeTokenClaims(token)?.role;
+  return role === 'USER' || role === 'ADMIN' ? role : null;
+};
+
+// ============================================
+// Errors
+// ============================================
+
+/**
+ * Base class for every failure raised by apiFetch.
+ * Callers should branch on the subclass rather than matching message strings.
+ */
+export class ApiError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * The server answered with a non-2xx status
+ */
+export class HttpError extends ApiError {
+  readonly status: number;
+  readonly code?: string; // Server error code (e.g. NOT_FOUND), when provided
+  readonly body: unknown;
+
+  constructor(status: number, message: string, code?: string, body?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+    this.body = body;
+  }
+}
+
+/**
+ * 401 from the server - the stored token is missing, invalid or expired
+ */
+export class UnauthorizedError extends HttpError {
+  constructor(message: string = 'Unauthorized - please log in again', code?: string, body?: unknown) {
+    super(401, message, code, body);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+/**
+ * The request never got a response (offline, DNS, CORS, server down)
+ */
+export class NetworkError extends ApiError {
+  constructor(message: string = 'Network error - please check your connection') {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * No response within the configured timeout
+ */
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The caller cancelled the request through its AbortSignal
+ */
+export class AbortError extends ApiError {
+  constructor() {
+    super('Request was cancelled');
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * The server answered 2xx but the body does not match the expected shape
+ * (e.g. `{ error: '...' }` with a 200, or a missing field). The raw body is kept for debugging.
+ */
+export class ResponseValidationError extends ApiError {
+  readonly endpoint: string;
+  readonly path: string; // First mismatching field, e.g. "level.title"
+  readonly body: unknown;
+
+  constructor(endpoint: string, detail: string, path: string, body: unknown) {
+    // Surface a server error message if the body carries one
+    const serverMessage = typeof body === 'object' && body !== null
+      ? (body as Record<string, unknown>).error || (body as Record<string, unknown>).message
+      : undefined;
+    super(typeof serverMessage === 'string' ? serverMessage : `Unexpected response from ${endpoint} (${detail})`);
+    this.name = 'ResponseValidationError';
+    this.endpoint = endpoint;
+    this.path = path;
+    this.body = body;
+  }
+}
+
+/**
+ * Validate a response body against its schema
+ */
+function parseResponse<T>(schema: v.Schema<T>, body: unknown, endpoint: string): T {
+  try {
+    return schema.parse(body);
+  } catch (error) {
+    if (error instanceof v.SchemaError) {
+      throw new ResponseValidationError(endpoint, error.message, error.path, body);
+    }
+    throw error;
+  }
+}
+
+// ============================================
+// Fetch wrapper
+// ============================================
+
+export interface ApiRequestOptions extends RequestInit {
+  /** Abort the request after this many milliseconds (0 disables the timeout) */
+  timeoutMs?: number;
+  /** Retry attempts for idempotent GETs on network errors, timeouts, 429 and 5xx */
+  retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+// Signing out never waits on a slow server for longer than this
+const LOGOUT_TIMEOUT_MS = 5000;
+const DEFAULT_GET_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 300;
+
+/**
+ * Called when an authenticated request comes back 401 (the token has already been cleared).
+ * Resolve to true once the user has signed in again to replay the failed request.
+ */
+export type UnauthorizedHandler = (error: UnauthorizedError) => Promise<boolean> | boolean | void;
+
+let unauthorizedHandler: UnauthorizedHandler | null = null;
+
+// Shared by every request that fails while the user is re-authenticating
+let reauthInFlight: Promise<boolean> | null = null;
+
+/**
+ * Register the app-level handler for 401 responses.
+ * Replaces the old hard redirect so in-progress UI state is not thrown away.
+ */
+export function setUnauthorizedHandler(handler: UnauthorizedHandler | null): void {
+  unauthorizedHandler = handler;
+}
+
+/**
+ * Clear the rejected token and wait for the app to re-authenticate the user
+ */
+function handleUnauthorized(error: UnauthorizedError, rejectedToken: string): Promise<boolean> {
+  // Another request already re-authenticated: just replay with the new token
+  const currentToken = getAuthToken();
+  if (currentToken && currentToken !== rejectedToken) return Promise.resolve(true);
+
+  clearAuthToken();
+  if (!unauthorizedHandler) return Promise.resolve(false);
+
+  if (!reauthInFlight) {
+    reauthInFlight = Promise.resolve(unauthorizedHandler(error))
+      .then((reauthenticated) => reauthenticated === true)
+      .catch(() => false)
+      .finally(() => {
+        reauthInFlight = null;
+      });
+  }
+  return reauthInFlight;
+}
+
+/**
+ * Run an authenticated request; on 401 let the user sign in again and replay it once.
+ * Requests sent without a token (e.g. a wrong password on sign in) fail as usual.
+ */
+async function withReauth<T>(run: () => Promise<T>): Promise<T> {
+  const sentToken = getAuthToken();
+  try {
+    return await run();
+  } catch (error) {
+    if (!(error instanceof UnauthorizedError) || !sentToken) throw error;
+    if (!(await handleUnauthorized(error, sentToken))) throw error;
+    return run();
+  }
+}
+
+/**
+ * Resolve after `ms`, or reject with AbortError if the signal fires first
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) return true;
+  if (error instanceof HttpError) return error.status === 429 || error.status >= 500;
+  return false;
+}
+
+/**
+ * Throw the matching HttpError for a non-2xx response
+ */
+async function assertOk(response: Response): Promise<void> {
+  // Handle 401 Unauthorized - withReauth decides whether the session can be resumed
+  if (response.status === 401) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new UnauthorizedError(
+      errorData.message || errorData.error || undefined,
+      errorData.code,
+      errorData
+    );
+  }
+
+  // Handle other non-OK responses
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new HttpError(
+      response.status,
+      errorData.message || errorData.error || errorData.msg || `API Error: ${response.statusText}`,
+      errorData.code,
+      errorData
+    );
+  }
+}
+
+/**
+ * Add the JSON content type and the stored auth token to a request
+ */
+function withAuthHeaders(init: RequestInit): RequestInit {
   const token = getAuthToken();
-  const headers: HeadersInit = {
+  const headers: Record<string, string> = {
     'Content-Type': 'application/json',
-    ...(options.headers || {}),
+    ...(init.headers as Record<string, string> || {}),
   };
 
   // Add auth token if available
@@ -50,40 +367,105 @@ async function apiFetch<T>(
     headers['Authorization'] = `Bearer ${token}`;
   }
 
-  const config: RequestInit = {
-    ...options,
+  return {
+    ...init,
     headers,
   };
+}
 
-  try {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, config);
+/**
+ * Perform a single request, translating every failure into an ApiError
+ */
+async function apiFetchOnce<T>(
+  endpoint: string,
+  config: RequestInit,
+  timeoutMs: number,
+  schema?: v.Schema<T>
+): Promise<T> {
+  const callerSignal = config.signal;
+  if (callerSignal?.aborted) throw new AbortError();
 
-    // Handle 401 Unauthorized - redirect to login
-    if (response.status === 401) {
-      clearAuthToken();
-      if (typeof window !== 'undefined') {
-        window.location.href = '/';
-      }
-      throw new Error('Unauthorized - please log in again');
-    }
+  // One controller drives both the caller's signal and our timeout
+  const controller = new AbortController();
+  const onCallerAbort = () => controller.abort();
+  callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
 
-    // Handle other non-OK responses
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.message || `API Error: ${response.statusText}`);
-    }
+  let timedOut = false;
+  const timer = timeoutMs > 0
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
+  try {
+    const response = await apiTransport(endpoint, { ...config, signal: controller.signal });
+
+    await assertOk(response);
 
-    // Parse JSON response
+    // Parse JSON response and check its shape
     const data = await response.json();
-    return data;
+    return schema ? parseResponse(schema, data, endpoint) : data;
   } catch (error) {
-    if (error instanceof Error) {
-      throw error;
-    }
-    throw new Error('Network error - please check your connection');
+    if (error instanceof ApiError) throw error;
+    if (callerSignal?.aborted) throw new AbortError();
+    if (timedOut) throw new TimeoutError(timeoutMs);
+    throw new NetworkError();
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
   }
 }
 
+// Generic fetch wrapper with auth headers, timeouts, cancellation, GET retries
+// and replay after re-authentication
+async function apiFetch<T>(
+  endpoint: string,
+  options: ApiRequestOptions & { schema?: v.Schema<T> } = {}
+): Promise<T> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, retries, schema, ...init } = options;
+
+  // Only idempotent GETs are retried
+  const method = (init.method || 'GET').toUpperCase();
+  const maxRetries = method === 'GET' ? (retries ?? DEFAULT_GET_RETRIES) : 0;
+
+  return withReauth(async () => {
+    // Built per run so a replay picks up the new token
+    const config = withAuthHeaders(init);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await apiFetchOnce<T>(endpoint, config, timeoutMs, schema);
+      } catch (error) {
+        if (attempt >= maxRetries || !isRetryable(error)) throw error;
+        // Exponential backoff with a little jitter: 300ms, 600ms, 1200ms...
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * 100;
+        await sleep(delay, init.signal);
+      }
+    }
+  });
+}
+
+// ============================================
+// Query keys
+// ============================================
+
+/**
+ * Cache keys for useQuery / fetchQuery. Invalidating a key also covers
+ * every key that extends it (e.g. `progress` covers `progress:<userId>`).
+ */
+export const queryKeys = {
+  profile: ['profile'] as const,
+  leaderboard: ['leaderboard'] as const,
+  progress: ['progress'] as const,
+  userProgress: (userId: number | string) => ['progress', userId] as const,
+  challengeCatalog: ['challenges'] as const,
+  adminUsers: ['admin', 'users'] as const,
+  mfaStatus: ['mfa'] as const,
+  ssoConfig: ['sso'] as const,
+  sessions: ['sessions'] as const,
+};
+
 // ============================================
 // Authentication API
 // ============================================
@@ -105,23 +487,57 @@ export interface AuthResponse {
     id: string;
     name: string;
     email: string;
-    username?: string;
+    username?: string | null;
+    phoneNumber?: string | null; // Profile responses only
+    hasPassword?: boolean; // Profile responses only; false for SSO-only accounts
+    role?: UserRole;
   };
   token: string;
   message?: string;
+  recoveryCodesRemaining?: number; // Only after signing in with a second factor
 }
 
 /**
- * Email/Password Signup
+ * Returned by signin instead of a session when the account has two-factor authentication on.
+ * Finish signing in with verifyMfaSignin.
  */
-export async function signup(
-  payload: SignupPayload
-): Promise<AuthResponse> {
-  const response = await apiFetch<AuthResponse>('/auth/signup', {
-    method: 'POST',
-    body: JSON.stringify(payload),
-  });
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+  message?: string;
+}
+
+const authUserSchema: v.Schema<AuthResponse['user']> = v.object({
+  id: v.string(),
+  name: v.string(),
+  email: v.string(),
+  username: v.optional(v.nullable(v.string())),
+  phoneNumber: v.optional(v.nullable(v.string())),
+  hasPassword: v.optional(v.boolean()),
+  role: v.optional(v.literal<UserRole>('USER', 'ADMIN')),
+});
+
+const authResponseSchema: v.Schema<AuthResponse> = v.object({
+  user: authUserSchema,
+  token: v.string(),
+  message: v.optional(v.string()),
+  recoveryCodesRemaining: v.optional(v.number()),
+});
+
+const mfaChallengeSchema: v.Schema<MfaChallenge> = v.object({
+  mfaRequired: v.literal<true>(true),
+  mfaToken: v.string(),
+  message: v.optional(v.string()),
+});
+
+export function isMfaChallenge(response: AuthResponse | MfaChallenge | SsoLinkChallenge): response is MfaChallenge {
+  return 'mfaRequired' in response && response.mfaRequired === true;
+}
 
+/**
+ * Store the token and user data from a successful signup or signin
+ */
+function storeSession(response: AuthResponse): void {
   // Store JWT token
   if (response.token) {
     setAuthToken(response.token);
@@ -135,35 +551,146 @@ export async function signup(
       email: response.user.email,
     }));
   }
+}
+
+/**
+ * Email/Password Signup
+ */
+export async function signup(
+  payload: SignupPayload
+): Promise<AuthResponse> {
+  const response = await apiFetch<AuthResponse>('/auth/signup', {
+    schema: authResponseSchema,
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
 
+  storeSession(response);
   return response;
 }
 
 /**
  * Email/Password Signin
+ * Accounts with two-factor authentication get an MfaChallenge instead of a session.
  */
 export async function signin(
   payload: SigninPayload
-): Promise<AuthResponse> {
-  const response = await apiFetch<AuthResponse>('/auth/signin', {
+): Promise<AuthResponse | MfaChallenge> {
+  const response = await apiFetch<AuthResponse | MfaChallenge>('/auth/signin', {
+    schema: v.union<AuthResponse | MfaChallenge>(authResponseSchema, mfaChallengeSchema),
     method: 'POST',
     body: JSON.stringify(payload),
   });
 
-  // Store JWT token
-  if (response.token) {
-    setAuthToken(response.token);
+  if (!isMfaChallenge(response)) {
+    storeSession(response);
   }
+  return response;
+}
 
-  // Store user data
-  if (response.user) {
-    localStorage.setItem('userData', JSON.stringify({
-      id: response.user.id,
-      name: response.user.name,
-      email: response.user.email,
-    }));
+/**
+ * Finish a two-factor signin with an authenticator or recovery code
+ */
+export async function verifyMfaSignin(mfaToken: string, code: string): Promise<AuthResponse> {
+  const response = await apiFetch<AuthResponse>('/auth/mfa/verify', {
+    schema: authResponseSchema,
+    method: 'POST',
+    body: JSON.stringify({ mfaToken, code }),
+  });
+
+  storeSession(response);
+  return response;
+}
+
+/**
+ * Organisation SSO settings from the backend. When `enabled`, the other fields are set.
+ */
+export interface SsoConfig {
+  enabled: boolean;
+  issuer?: string;
+  authorizationEndpoint?: string;
+  clientId?: string;
+  redirectUri?: string;
+  scope?: string;
+  displayName?: string;
+}
+
+const ssoConfigSchema: v.Schema<SsoConfig> = v.object({
+  enabled: v.boolean(),
+  issuer: v.optional(v.string()),
+  authorizationEndpoint: v.optional(v.string()),
+  clientId: v.optional(v.string()),
+  redirectUri: v.optional(v.string()),
+  scope: v.optional(v.string()),
+  displayName: v.optional(v.string()),
+});
+
+/**
+ * Whether organisation SSO is configured on the backend
+ */
+export async function fetchSsoConfig(): Promise<SsoConfig> {
+  return apiFetch<SsoConfig>('/auth/sso/config', {
+    schema: ssoConfigSchema,
+    method: 'GET',
+  });
+}
+
+/**
+ * Returned by the SSO callback when the email belongs to an existing password account.
+ * Confirm the password with linkSsoIdentity to link the two and sign in.
+ */
+export interface SsoLinkChallenge {
+  linkRequired: true;
+  linkToken: string;
+  email: string;
+  message?: string;
+}
+
+const ssoLinkChallengeSchema: v.Schema<SsoLinkChallenge> = v.object({
+  linkRequired: v.literal<true>(true),
+  linkToken: v.string(),
+  email: v.string(),
+  message: v.optional(v.string()),
+});
+
+export function isSsoLinkChallenge(response: AuthResponse | MfaChallenge | SsoLinkChallenge): response is SsoLinkChallenge {
+  return 'linkRequired' in response && response.linkRequired === true;
+}
+
+/**
+ * Finish an SSO sign in with the code from the identity provider redirect.
+ * Accounts with two-factor authentication get an MfaChallenge, and existing password accounts an SsoLinkChallenge.
+ */
+export async function completeSsoSignin(payload: {
+  code: string;
+  codeVerifier: string;
+  nonce: string;
+}): Promise<AuthResponse | MfaChallenge | SsoLinkChallenge> {
+  const response = await apiFetch<AuthResponse | MfaChallenge | SsoLinkChallenge>('/auth/sso/callback', {
+    schema: v.union<AuthResponse | MfaChallenge | SsoLinkChallenge>(authResponseSchema, mfaChallengeSchema, ssoLinkChallengeSchema),
+    method: 'POST',
+    body: JSON.stringify(payload),
+  });
+
+  if (!isMfaChallenge(response) && !isSsoLinkChallenge(response)) {
+    storeSession(response);
   }
+  return response;
+}
+
+/**
+ * Link an organisation sign-in to an existing account by confirming its password
+ */
+export async function linkSsoIdentity(linkToken: string, password: string): Promise<AuthResponse | MfaChallenge> {
+  const response = await apiFetch<AuthResponse | MfaChallenge>('/auth/sso/link', {
+    schema: v.union<AuthResponse | MfaChallenge>(authResponseSchema, mfaChallengeSchema),
+    method: 'POST',
+    body: JSON.stringify({ linkToken, password }),
+  });
 
+  if (!isMfaChallenge(response)) {
+    storeSession(response);
+  }
   return response;
 }
 
@@ -184,21 +711,333 @@ export async function verifyToken(): Promise<boolean> {
  */
 export async function getProfile(): Promise<AuthResponse['user']> {
   const response = await apiFetch<{ user: AuthResponse['user'] }>('/auth/profile', {
+    schema: v.object({ user: authUserSchema }),
     method: 'GET',
   });
   return response.user;
 }
 
 /**
- * Logout - clears authentication token and user data
- * Note: JWT tokens are stateless, so logout is client-side only
+ * Exchange the current (still valid) token for a fresh one and store it
+ */
+export async function refreshAuthToken(): Promise<string> {
+  const response = await apiFetch<{ token: string }>('/auth/refresh', {
+    schema: v.object({ token: v.string() }),
+    method: 'POST',
+  });
+  setAuthToken(response.token);
+  return response.token;
+}
+
+const messageResponseSchema = v.object({ message: v.string() });
+
+export type ContactChannel = 'email' | 'phone';
+
+export interface ProfileUpdate {
+  fullName?: string;
+  username?: string;
+  email?: string;
+  phoneNumber?: string; // Empty string removes the number
+}
+
+export interface PendingVerification {
+  channel: ContactChannel;
+  target: string; // The new address the code was sent to
+  expiresAt: string;
+}
+
+const pendingVerificationSchema: v.Schema<PendingVerification> = v.object({
+  channel: v.literal<ContactChannel>('email', 'phone'),
+  target: v.string(),
+  expiresAt: v.string(),
+});
+
+/**
+ * Update the current user's profile.
+ * Name and username change immediately; a new email or phone number is applied
+ * only after the code sent to it is confirmed with verifyContactChange().
+ */
+export async function updateProfile(
+  update: ProfileUpdate
+): Promise<{ user: AuthResponse['user']; pendingVerifications: PendingVerification[] }> {
+  const response = await apiFetch<{ user: AuthResponse['user']; pendingVerifications: PendingVerification[] }>(
+    '/auth/profile',
+    {
+      schema: v.object({ user: authUserSchema, pendingVerifications: v.array(pendingVerificationSchema) }),
+      method: 'PATCH',
+      body: JSON.stringify(update),
+    }
+  );
+  setQueryData(queryKeys.profile, response.user);
+  invalidateQueries(queryKeys.leaderboard); // Display name may have changed
+  return response;
+}
+
+/**
+ * Confirm a pending email/phone change with the code that was sent to it.
+ * An email change comes with a new token (the old one carries the old address), which is stored.
+ */
+export async function verifyContactChange(channel: ContactChannel, code: string): Promise<AuthResponse['user']> {
+  const response = await apiFetch<{ user: AuthResponse['user']; token?: string }>('/auth/profile/verify', {
+    schema: v.object({ user: authUserSchema, token: v.optional(v.string()) }),
+    method: 'POST',
+    body: JSON.stringify({ channel, code }),
+  });
+  if (response.token) {
+    setAuthToken(response.token);
+  }
+  setQueryData(queryKeys.profile, response.user);
+  return response.user;
+}
+
+/**
+ * Send a new code for a pending email/phone change
+ */
+export async function resendContactCode(channel: ContactChannel): Promise<PendingVerification> {
+  const response = await apiFetch<{ pendingVerification: PendingVerification }>('/auth/profile/verify/resend', {
+    schema: v.object({ pendingVerification: pendingVerificationSchema }),
+    method: 'POST',
+    body: JSON.stringify({ channel }),
+  });
+  return response.pendingVerification;
+}
+
+/**
+ * Email a single-use password reset link.
+ * Resolves the same way whether or not the account exists.
+ */
+export async function requestPasswordReset(email: string): Promise<{ message: string }> {
+  return apiFetch<{ message: string }>('/auth/password-reset/request', {
+    schema: messageResponseSchema,
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+}
+
+/**
+ * Set a new password with the token from a reset email
+ */
+export async function confirmPasswordReset(token: string, password: string): Promise<{ message: string }> {
+  return apiFetch<{ message: string }>('/auth/password-reset/confirm', {
+    schema: messageResponseSchema,
+    method: 'POST',
+    body: JSON.stringify({ token, password }),
+  });
+}
+
+/**
+ * Logout - revokes the session on the server, then clears authentication token and user data.
+ * The local sign out does not depend on the server: a failed or slow revoke is ignored.
  */
 export async function logout(): Promise<void> {
+  if (getAuthToken()) {
+    // Sent once, without the re-authentication prompt a 401 would normally trigger
+    await apiFetchOnce('/auth/logout', withAuthHeaders({ method: 'POST' }), LOGOUT_TIMEOUT_MS).catch(() => undefined);
+  }
+
   // Clear token and user data from localStorage
   clearAuthToken();
   if (typeof window !== 'undefined') {
     localStorage.removeItem('userData');
   }
+  // Cached queries belong to the previous user
+  clearQueryCache();
+}
+
+// ============================================
+// Account data API
+// ============================================
+
+export interface AccountExport {
+  formatVersion: number;
+  exportedAt: string;
+  account: Record<string, unknown>;
+  learnProgress: Record<string, unknown>;
+  challengeProgress: unknown[];
+  pendingContactChanges: unknown[];
+  auditLogs: unknown[];
+}
+
+const accountExportSchema: v.Schema<AccountExport> = v.object({
+  formatVersion: v.number(),
+  exportedAt: v.string(),
+  account: v.record(v.unknown()),
+  learnProgress: v.record(v.unknown()),
+  challengeProgress: v.array(v.unknown()),
+  pendingContactChanges: v.array(v.unknown()),
+  auditLogs: v.array(v.unknown()),
+});
+
+/**
+ * Fetch everything the server stores about the current user
+ */
+export async function exportAccountData(): Promise<AccountExport> {
+  return apiFetch<AccountExport>('/account/export', {
+    schema: accountExportSchema,
+    method: 'GET',
+  });
+}
+
+export interface DeleteAccountPayload {
+  confirm: string; // The account's email
+  password?: string; // Required unless the account only signs in with SSO
+  code?: string; // Authenticator or recovery code, required when two-factor authentication is on
+}
+
+/**
+ * Permanently delete the current user's account.
+ * The caller is responsible for clearing local data afterwards.
+ */
+export async function deleteAccount(payload: DeleteAccountPayload): Promise<{ message: string }> {
+  const response = await apiFetch<{ message: string }>('/account', {
+    schema: messageResponseSchema,
+    method: 'DELETE',
+    body: JSON.stringify(payload),
+  });
+  invalidateQueries(queryKeys.leaderboard);
+  return response;
+}
+
+// ============================================
+// Two-factor authentication API
+// ============================================
+
+export interface MfaStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface MfaSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+const mfaStatusSchema: v.Schema<MfaStatus> = v.object({
+  enabled: v.boolean(),
+  recoveryCodesRemaining: v.number(),
+});
+
+const recoveryCodesSchema = v.object({ recoveryCodes: v.array(v.string()) });
+
+/**
+ * Whether two-factor authentication is on for the current user
+ */
+export async function fetchMfaStatus(): Promise<MfaStatus> {
+  return apiFetch<MfaStatus>('/auth/mfa', {
+    schema: mfaStatusSchema,
+    method: 'GET',
+  });
+}
+
+/**
+ * Start enrolment: get a new secret to add to an authenticator app
+ */
+export async function startMfaSetup(): Promise<MfaSetup> {
+  return apiFetch<MfaSetup>('/auth/mfa/setup', {
+    schema: v.object({ secret: v.string(), otpauthUri: v.string() }),
+    method: 'POST',
+  });
+}
+
+/**
+ * Confirm enrolment with a code from the app. Returns the recovery codes, which are only shown once.
+ */
+export async function enableMfa(code: string): Promise<string[]> {
+  const response = await apiFetch<{ recoveryCodes: string[] }>('/auth/mfa/enable', {
+    schema: recoveryCodesSchema,
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+  invalidateQueries(queryKeys.mfaStatus);
+  return response.recoveryCodes;
+}
+
+/**
+ * Turn two-factor authentication off (needs a current or recovery code)
+ */
+export async function disableMfa(code: string): Promise<{ message: string }> {
+  const response = await apiFetch<{ message: string }>('/auth/mfa/disable', {
+    schema: messageResponseSchema,
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+  invalidateQueries(queryKeys.mfaStatus);
+  return response;
+}
+
+/**
+ * Replace the recovery codes (needs a current or recovery code); the old codes stop working
+ */
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+  const response = await apiFetch<{ recoveryCodes: string[] }>('/auth/mfa/recovery-codes', {
+    schema: recoveryCodesSchema,
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+  invalidateQueries(queryKeys.mfaStatus);
+  return response.recoveryCodes;
+}
+
+// ============================================
+// Sessions API
+// ============================================
+
+export interface ActiveSession {
+  id: string;
+  ip?: string | null;
+  userAgent?: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current: boolean;
+}
+
+const activeSessionsSchema = v.object({
+  sessions: v.array(
+    v.object({
+      id: v.string(),
+      ip: v.optional(v.nullable(v.string())),
+      userAgent: v.optional(v.nullable(v.string())),
+      createdAt: v.string(),
+      lastSeenAt: v.string(),
+      current: v.boolean(),
+    })
+  ),
+});
+
+/**
+ * The current user's signed-in devices, most recently used first
+ */
+export async function fetchSessions(): Promise<ActiveSession[]> {
+  const response = await apiFetch<{ sessions: ActiveSession[] }>('/auth/sessions', {
+    schema: activeSessionsSchema,
+    method: 'GET',
+  });
+  return response.sessions;
+}
+
+/**
+ * Sign out another device; its token is rejected from its next request.
+ * Use logout() for the current session.
+ */
+export async function revokeSession(sessionId: string): Promise<{ message: string }> {
+  const response = await apiFetch<{ message: string }>(`/auth/sessions/${encodeURIComponent(sessionId)}`, {
+    schema: messageResponseSchema,
+    method: 'DELETE',
+  });
+  invalidateQueries(queryKeys.sessions);
+  return response;
+}
+
+/**
+ * Sign out every device except this one
+ */
+export async function revokeOtherSessions(): Promise<{ message: string; revoked: number }> {
+  const response = await apiFetch<{ message: string; revoked: number }>('/auth/sessions', {
+    schema: v.object({ message: v.string(), revoked: v.number() }),
+    method: 'DELETE',
+  });
+  invalidateQueries(queryKeys.sessions);
+  return response;
 }
 
 // ============================================
@@ -213,15 +1052,31 @@ export interface LeaderboardEntry {
   avatar?: string;
 }
 
+const leaderboardSchema: v.Schema<LeaderboardEntry[]> = v.array(
+  v.object({
+    id: v.union<string | number>(v.string(), v.number()),
+    name: v.string(),
+    score: v.number(),
+    rank: v.optional(v.number()),
+    avatar: v.optional(v.string()),
+  })
+);
+
 /**
  * Fetch leaderboard data
  */
 export async function fetchLeaderboard(): Promise<LeaderboardEntry[]> {
   return apiFetch<LeaderboardEntry[]>('/leaderboard', {
+    schema: leaderboardSchema,
     method: 'GET',
   });
 }
 
+const leaderboardUpdateSchema = v.object({
+  success: v.boolean(),
+  newScore: v.optional(v.number()),
+});
+
 /**
  * Update user score on leaderboard
  * Note: userId is automatically extracted from the JWT token by the backend
@@ -230,49 +1085,138 @@ export async function updateLeaderboardScore(
   userId: number | string,
   points: number
 ): Promise<{ success: boolean; newScore?: number }> {
-  return apiFetch<{ success: boolean; newScore?: number }>(
+  const response = await apiFetch<{ success: boolean; newScore?: number }>(
     '/leaderboard/update',
     {
+      schema: leaderboardUpdateSchema,
       method: 'POST',
       body: JSON.stringify({ points }),
     }
   );
+  invalidateQueries(queryKeys.leaderboard);
+  invalidateQueries(queryKeys.profile);
+  return response;
 }
 
 // ============================================
-// User Progress API (Optional - for syncing)
+// User Progress API (synced by UserContext, see lib/progressSync)
 // ============================================
 
 export interface UserProgressData {
-  userId: number;
+  userId: number | string;
   completedModules: number[];
   totalScore: number;
   moduleProgress: Record<number, any>;
 }
 
+const userProgressDataSchema: v.Schema<UserProgressData> = v.object({
+  userId: v.union<number | string>(v.number(), v.string()),
+  completedModules: v.array(v.number()),
+  totalScore: v.number(),
+  moduleProgress: v.record(v.unknown()),
+});
+
+const progressWriteSchema = v.object({ success: v.boolean() });
+
 /**
  * Sync user progress to backend
  */
 export async function syncUserProgress(
   progressData: UserProgressData
 ): Promise<{ success: boolean }> {
-  return apiFetch<{ success: boolean }>('/progress/sync', {
+  const response = await apiFetch<{ success: boolean }>('/progress/sync', {
+    schema: progressWriteSchema,
     method: 'POST',
     body: JSON.stringify(progressData),
   });
+  // Learn scores count towards the leaderboard
+  invalidateQueries(queryKeys.userProgress(progressData.userId));
+  invalidateQueries(queryKeys.leaderboard);
+  return response;
+}
+
+/**
+ * Clear the current user's progress on the backend (synced progress only ever grows otherwise)
+ */
+export async function resetUserProgress(userId: number | string): Promise<{ success: boolean }> {
+  const response = await apiFetch<{ success: boolean }>('/progress', {
+    schema: progressWriteSchema,
+    method: 'DELETE',
+  });
+  invalidateQueries(queryKeys.userProgress(userId));
+  invalidateQueries(queryKeys.leaderboard);
+  return response;
 }
 
 /**
  * Fetch user progress from backend
  */
 export async function fetchUserProgress(
-  userId: number
+  userId: number | string
 ): Promise<UserProgressData> {
   return apiFetch<UserProgressData>(`/progress/${userId}`, {
+    schema: userProgressDataSchema,
     method: 'GET',
   });
 }
 
+// ============================================
+// Admin API (ADMIN role only)
+// ============================================
+
+export interface AdminUserSummary {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  xpTotal: number;
+  learnScore: number;
+  lastLoginAt: string | null;
+  createdAt: string;
+}
+
+const adminUsersSchema = v.object({
+  users: v.array(
+    v.object({
+      id: v.string(),
+      name: v.string(),
+      email: v.string(),
+      role: v.literal<UserRole>('USER', 'ADMIN'),
+      xpTotal: v.number(),
+      learnScore: v.number(),
+      lastLoginAt: v.nullable(v.string()),
+      createdAt: v.string(),
+    })
+  ),
+});
+
+/**
+ * List all users (admins only)
+ */
+export async function fetchAdminUsers(): Promise<AdminUserSummary[]> {
+  const response = await apiFetch<{ users: AdminUserSummary[] }>('/admin/users', {
+    schema: adminUsersSchema,
+    method: 'GET',
+  });
+  return response.users;
+}
+
+/**
+ * Change a user's role (admins only; signs the user out everywhere, so the new role applies once they sign in again)
+ */
+export async function updateUserRole(userId: string, role: UserRole): Promise<{ id: string; role: UserRole }> {
+  const response = await apiFetch<{ user: { id: string; role: UserRole } }>(
+    `/admin/users/${encodeURIComponent(userId)}/role`,
+    {
+      schema: v.object({ user: v.object({ id: v.string(), role: v.literal<UserRole>('USER', 'ADMIN') }) }),
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    }
+  );
+  invalidateQueries(queryKeys.adminUsers);
+  return response.user;
+}
+
 // ============================================
 // Challenge API
 // ============================================
@@ -317,29 +1261,62 @@ export interface ChallengeFlagResponse {
 
 export type ChallengeResponse = ChallengeMetadata | ChallengeChatResponse | ChallengeFlagResponse;
 
+// Validation errors come back as `{ error }`, sometimes with a 200, so check the shape before use
+const challengeMetadataSchema: v.Schema<ChallengeMetadata> = v.object({
+  status: v.literal('ready'),
+  sessionKey: v.string(),
+  challenge: v.object({
+    slug: v.string(),
+    title: v.string(),
+  }),
+  level: v.object({
+    index: v.number(),
+    title: v.string(),
+    difficulty: v.string(),
+    description: v.string(),
+  }),
+});
+
+const challengeChatResponseSchema: v.Schema<ChallengeChatResponse> = v.object({
+  sessionKey: v.string(),
+  challengeSlug: v.string(),
+  level: v.number(),
+  reply: v.string(),
+});
+
+const challengeFlagResponseSchema: v.Schema<ChallengeFlagResponse> = v.object({
+  status: v.literal('passed', 'incorrect'),
+  sessionKey: v.string(),
+  challengeSlug: v.optional(v.string()),
+  level: v.optional(v.number()),
+  xpAwarded: v.optional(v.number()),
+  message: v.optional(v.string()),
+});
+
+const streamTokenSchema = v.object({ text: v.string() });
+const streamErrorSchema = v.object({ error: v.optional(v.string()) });
+
+const CHAT_TIMEOUT_MS = 60000;
+
 /**
- * Map vulnerability ID to challenge endpoint slug
+ * Endpoint for a seeded challenge, addressed by its catalog slug
  */
-function getChallengeEndpoint(vulnerabilityId: number): string {
-  const mapping: Record<number, string> = {
-    1: 'challenge1', // prompt-injection
-    2: 'challenge4', // improper-output-handling
-    3: 'challenge3', // sensitive-information-disclosure (or could be 6)
-    4: 'challenge2', // misinformation (approximate mapping)
-  };
-  return mapping[vulnerabilityId] || 'challenge1';
+function getChallengeEndpoint(challengeSlug: string): string {
+  return `/api/challenges/${encodeURIComponent(challengeSlug)}`;
 }
 
 /**
  * Get challenge metadata or initialize challenge session
  */
 export async function getChallengeMetadata(
-  vulnerabilityId: number,
+  challengeSlug: string,
   level: number,
-  userId: string
+  userId: string,
+  options: ApiRequestOptions = {}
 ): Promise<ChallengeMetadata> {
-  const endpoint = getChallengeEndpoint(vulnerabilityId);
-  const response = await apiFetch<ChallengeMetadata>(`/api/${endpoint}`, {
+  const response = await apiFetch<ChallengeMetadata>(getChallengeEndpoint(challengeSlug), {
+    ...options,
+    schema: challengeMetadataSchema,
     method: 'POST',
     body: JSON.stringify({
       userId,
@@ -353,13 +1330,17 @@ export async function getChallengeMetadata(
  * Send a chat message to the challenge AI
  */
 export async function sendChallengeMessage(
-  vulnerabilityId: number,
+  challengeSlug: string,
   level: number,
   userId: string,
-  message: string
+  message: string,
+  options: ApiRequestOptions = {}
 ): Promise<ChallengeChatResponse> {
-  const endpoint = getChallengeEndpoint(vulnerabilityId);
-  const response = await apiFetch<ChallengeChatResponse>(`/api/${endpoint}`, {
+  const response = await apiFetch<ChallengeChatResponse>(getChallengeEndpoint(challengeSlug), {
+    // Model replies can take a while; allow more time than regular calls
+    timeoutMs: CHAT_TIMEOUT_MS,
+    ...options,
+    schema: challengeChatResponseSchema,
     method: 'POST',
     body: JSON.stringify({
       userId,
@@ -370,17 +1351,146 @@ export async function sendChallengeMessage(
   return response;
 }
 
+/**
+ * Parse one server-sent event block ("event: x\ndata: {...}"). The data still has to go through a schema.
+ */
+function parseSseEvent(block: string, endpoint: string): { event: string; data: unknown } {
+  let event = 'message';
+  const dataLines: string[] = [];
+  for (const line of block.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) dataLines.push(line.slice(5).trim());
+  }
+  if (!dataLines.length) return { event, data: null };
+
+  const raw = dataLines.join('\n');
+  try {
+    return { event, data: JSON.parse(raw) };
+  } catch (error) {
+    throw new ResponseValidationError(endpoint, `malformed "${event}" event data`, '', raw);
+  }
+}
+
+/**
+ * Send a chat message and stream the AI reply as it is generated.
+ * `onToken` receives each chunk; the promise resolves with the complete reply.
+ * The timeout applies to silence between chunks, so long replies are not cut off.
+ * Abort via `options.signal` to stop generation (rejects with AbortError).
+ */
+export async function streamChallengeMessage(
+  challengeSlug: string,
+  level: number,
+  userId: string,
+  message: string,
+  onToken: (text: string) => void,
+  options: Omit<ApiRequestOptions, 'retries'> = {} // Never retried: the reply may already be partly shown
+): Promise<ChallengeChatResponse> {
+  // A 401 arrives before any tokens, so replaying after sign in is safe
+  return withReauth(() => streamChallengeMessageOnce(challengeSlug, level, userId, message, onToken, options));
+}
+
+async function streamChallengeMessageOnce(
+  challengeSlug: string,
+  level: number,
+  userId: string,
+  message: string,
+  onToken: (text: string) => void,
+  options: Omit<ApiRequestOptions, 'retries'>
+): Promise<ChallengeChatResponse> {
+  const { timeoutMs = CHAT_TIMEOUT_MS, ...init } = options;
+  const callerSignal = init.signal;
+  if (callerSignal?.aborted) throw new AbortError();
+
+  const endpoint = `${getChallengeEndpoint(challengeSlug)}/stream`;
+  const controller = new AbortController();
+  const onCallerAbort = () => controller.abort();
+  callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const restartTimer = () => {
+    clearTimeout(timer);
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    }
+  };
+  restartTimer();
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+
+  try {
+    const config = withAuthHeaders({
+      ...init,
+      method: 'POST',
+      headers: { ...(init.headers as Record<string, string> || {}), Accept: 'text/event-stream' },
+      body: JSON.stringify({
+        userId,
+        level,
+        message,
+      }),
+    });
+    const response = await apiTransport(endpoint, {
+      ...config,
+      signal: controller.signal,
+    });
+
+    await assertOk(response);
+    if (!response.body) throw new NetworkError('Streaming is not supported by this connection');
+
+    reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: ChallengeChatResponse | null = null;
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      restartTimer();
+
+      buffer += decoder.decode(value, { stream: true });
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const { event, data } = parseSseEvent(buffer.slice(0, boundary), endpoint);
+        buffer = buffer.slice(boundary + 2);
+
+        if (event === 'token') onToken(parseResponse(streamTokenSchema, data, endpoint).text);
+        else if (event === 'done') result = parseResponse(challengeChatResponseSchema, data, endpoint);
+        else if (event === 'error') {
+          throw new HttpError(502, parseResponse(streamErrorSchema, data, endpoint).error || 'Generation failed', undefined, data);
+        }
+      }
+    }
+
+    if (!result) throw new NetworkError('The reply stream ended unexpectedly');
+    return result;
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    if (callerSignal?.aborted) throw new AbortError();
+    if (timedOut) throw new TimeoutError(timeoutMs);
+    throw new NetworkError();
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onCallerAbort);
+    // Close the connection if we stopped reading early (bad event, server error event, abort)
+    reader?.cancel().catch(() => undefined);
+  }
+}
+
 /**
  * Submit a flag for a challenge
  */
 export async function submitChallengeFlag(
-  vulnerabilityId: number,
+  challengeSlug: string,
   level: number,
   userId: string,
-  flag: string
+  flag: string,
+  options: ApiRequestOptions = {}
 ): Promise<ChallengeFlagResponse> {
-  const endpoint = getChallengeEndpoint(vulnerabilityId);
-  const response = await apiFetch<ChallengeFlagResponse>(`/api/${endpoint}`, {
+  const response = await apiFetch<ChallengeFlagResponse>(getChallengeEndpoint(challengeSlug), {
+    ...options,
+    schema: challengeFlagResponseSchema,
     method: 'POST',
     body: JSON.stringify({
       userId,
@@ -388,9 +1498,74 @@ export async function submitChallengeFlag(
       submittedFlag: flag,
     }),
   });
+
+  // XP changed: leaderboard, progress and profile totals are out of date
+  if (response.status === 'passed') {
+    invalidateQueries(queryKeys.leaderboard);
+    invalidateQueries(queryKeys.progress);
+    invalidateQueries(queryKeys.profile);
+  }
   return response;
 }
 
+// ============================================
+// Challenge Catalog API
+// ============================================
+
+export type ChallengeDifficulty = 'EASY' | 'MEDIUM' | 'HARD';
+
+export interface ChallengeCatalogLevel {
+  index: number;
+  title: string;
+  description: string;
+  difficulty: ChallengeDifficulty;
+  xpReward: number;
+  owaspCategory: string | null;
+}
+
+export interface ChallengeCatalogEntry {
+  slug: string;
+  title: string;
+  vulnerabilityId: number | null; // Learn/Play module the challenge belongs to
+  owaspCategory: string | null;
+  levels: ChallengeCatalogLevel[]; // Active levels only, ordered by index
+}
+
+const challengeCatalogSchema = v.object({
+  challenges: v.array(
+    v.object({
+      slug: v.string(),
+      title: v.string(),
+      vulnerabilityId: v.nullable(v.number()),
+      owaspCategory: v.nullable(v.string()),
+      levels: v.array(
+        v.object({
+          index: v.number(),
+          title: v.string(),
+          description: v.string(),
+          difficulty: v.literal<ChallengeDifficulty>('EASY', 'MEDIUM', 'HARD'),
+          xpReward: v.number(),
+          owaspCategory: v.nullable(v.string()),
+        })
+      ),
+    })
+  ),
+});
+
+/**
+ * List active challenges and their levels
+ */
+export async function fetchChallengeCatalog(
+  options: ApiRequestOptions = {}
+): Promise<ChallengeCatalogEntry[]> {
+  const response = await apiFetch<{ challenges: ChallengeCatalogEntry[] }>('/api/challenges', {
+    ...options,
+    schema: challengeCatalogSchema,
+    method: 'GET',
+  });
+  return response.challenges;
+}
+
 // ============================================
 // Health Check
 // ============================================
@@ -400,7 +1575,7 @@ export async function submitChallengeFlag(
  */
 export async function checkAPIHealth(): Promise<boolean> {
   try {
-    const response = await fetch(`${API_BASE_URL}/health`, {
+    const response = await apiTransport('/health', {
       method: 'GET',
     });
     return response.ok;
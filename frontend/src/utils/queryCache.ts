@@ -0,0 +1,168 @@
+// Query cache for API reads
+// Keyed results shared between pages, with stale-while-revalidate, de-duplication
+// of in-flight requests and prefix-based invalidation (see useQuery)
+
+export type QueryKey = readonly (string | number)[];
+
+export interface QueryState<T> {
+  data?: T;
+  error: unknown;
+  updatedAt: number; // 0 when never fetched or invalidated
+  isFetching: boolean;
+}
+
+interface QueryEntry {
+  state: QueryState<unknown>;
+  fetcher?: () => Promise<unknown>;
+  promise?: Promise<unknown>;
+}
+
+export interface FetchQueryOptions {
+  /** Cached data younger than this is returned without a request */
+  staleTimeMs?: number;
+  /** Always hit the network (still shares an in-flight request) */
+  force?: boolean;
+}
+
+export const DEFAULT_STALE_TIME_MS = 30000;
+
+const EMPTY_STATE: QueryState<never> = { error: null, updatedAt: 0, isFetching: false };
+
+const entries = new Map<string, QueryEntry>();
+const listeners = new Map<string, Set<() => void>>();
+// Bumped by clearQueryCache; requests started before a clear must not refill the cache
+let generation = 0;
+
+const hashKey = (key: QueryKey): string => JSON.stringify(key);
+
+// A key matches a prefix when it starts with the same segments
+const matchesPrefix = (hash: string, prefix: QueryKey): boolean => {
+  const key: QueryKey = JSON.parse(hash);
+  return prefix.every((segment, i) => key[i] === segment);
+};
+
+function getEntry(hash: string): QueryEntry {
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { state: EMPTY_STATE };
+    entries.set(hash, entry);
+  }
+  return entry;
+}
+
+// States are replaced, never mutated, so subscribers can compare by reference
+function updateState(hash: string, patch: Partial<QueryState<unknown>>): void {
+  const entry = getEntry(hash);
+  entry.state = { ...entry.state, ...patch };
+  listeners.get(hash)?.forEach((listener) => listener());
+}
+
+/**
+ * Current cached state for a key
+ */
+export function getQueryState<T>(key: QueryKey): QueryState<T> {
+  return (entries.get(hashKey(key))?.state ?? EMPTY_STATE) as QueryState<T>;
+}
+
+/**
+ * Cached data for a key, if any (may be stale)
+ */
+export function getQueryData<T>(key: QueryKey): T | undefined {
+  return getQueryState<T>(key).data;
+}
+
+/**
+ * Write data for a key directly, e.g. after a mutation returned the new value
+ */
+export function setQueryData<T>(key: QueryKey, data: T): void {
+  updateState(hashKey(key), { data, error: null, updatedAt: Date.now() });
+}
+
+/**
+ * Return fresh cached data or fetch it. Concurrent calls for the same key share one request.
+ */
+export function fetchQuery<T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  options: FetchQueryOptions = {}
+): Promise<T> {
+  const { staleTimeMs = DEFAULT_STALE_TIME_MS, force = false } = options;
+  const hash = hashKey(key);
+  const entry = getEntry(hash);
+  entry.fetcher = fetcher;
+
+  if (entry.promise) return entry.promise as Promise<T>;
+
+  const { data, updatedAt } = entry.state;
+  if (!force && data !== undefined && updatedAt > 0 && Date.now() - updatedAt < staleTimeMs) {
+    return Promise.resolve(data as T);
+  }
+
+  const startedIn = generation;
+  const promise = fetcher()
+    .then((result) => {
+      if (startedIn === generation) {
+        updateState(hash, { data: result, error: null, updatedAt: Date.now(), isFetching: false });
+      }
+      return result;
+    })
+    .catch((error) => {
+      // Keep the last good data so the UI can keep showing it
+      if (startedIn === generation) {
+        updateState(hash, { error, isFetching: false });
+      }
+      throw error;
+    })
+    .finally(() => {
+      entry.promise = undefined;
+    });
+
+  entry.promise = promise;
+  updateState(hash, { isFetching: true });
+  return promise;
+}
+
+/**
+ * Mark every query under `prefix` as stale.
+ * Queries that are currently on screen refetch immediately; the rest on next use.
+ */
+export function invalidateQueries(prefix: QueryKey): void {
+  for (const [hash, entry] of entries) {
+    if (!matchesPrefix(hash, prefix)) continue;
+
+    updateState(hash, { updatedAt: 0 });
+    if (entry.fetcher && listeners.get(hash)?.size) {
+      fetchQuery(JSON.parse(hash), entry.fetcher).catch(() => {
+        // Error is stored on the entry for subscribers
+      });
+    }
+  }
+}
+
+/**
+ * Drop every cached result (e.g. on logout, so the next user never sees stale data)
+ */
+export function clearQueryCache(): void {
+  generation++;
+  const hashes = [...entries.keys()];
+  entries.clear();
+  hashes.forEach((hash) => listeners.get(hash)?.forEach((listener) => listener()));
+}
+
+/**
+ * Be notified whenever the state for a key changes
+ */
+export function subscribeQuery(key: QueryKey, listener: () => void): () => void {
+  const hash = hashKey(key);
+  let set = listeners.get(hash);
+  if (!set) {
+    set = new Set();
+    listeners.set(hash, set);
+  }
+  set.add(listener);
+
+  return () => {
+    set.delete(listener);
+    if (set.size === 0) listeners.delete(hash);
+  };
+}
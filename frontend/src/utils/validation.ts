@@ -0,0 +1,104 @@
+// Runtime validation for API responses
+// Tiny schema combinators: each schema checks an unknown value and returns it typed,
+// or throws SchemaError with the path of the first mismatch. Unknown keys pass through.
+
+export class SchemaError extends Error {
+  readonly path: string;
+  readonly expected: string;
+
+  constructor(path: string, expected: string, received: unknown) {
+    const got = received === null ? 'null' : Array.isArray(received) ? 'array' : typeof received;
+    super(`${path || 'response'}: expected ${expected}, got ${got}`);
+    this.name = 'SchemaError';
+    this.path = path;
+    this.expected = expected;
+  }
+}
+
+export interface Schema<T> {
+  parse: (value: unknown, path?: string) => T;
+}
+
+/**
+ * Static type described by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const schema = <T>(parse: (value: unknown, path: string) => T): Schema<T> => ({
+  parse: (value, path = '') => parse(value, path),
+});
+
+const primitive = <T>(expected: string, check: (value: unknown) => boolean) =>
+  schema<T>((value, path) => {
+    if (!check(value)) throw new SchemaError(path, expected, value);
+    return value as T;
+  });
+
+export const string = () => primitive<string>('string', (v) => typeof v === 'string');
+export const number = () => primitive<number>('number', (v) => typeof v === 'number' && !Number.isNaN(v));
+export const boolean = () => primitive<boolean>('boolean', (v) => typeof v === 'boolean');
+export const unknown = () => schema<unknown>((value) => value);
+
+export function literal<T extends string | number | boolean>(...values: T[]): Schema<T> {
+  return primitive<T>(values.map((v) => JSON.stringify(v)).join(' | '), (v) => values.includes(v as T));
+}
+
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return schema((value, path) => (value === undefined ? undefined : inner.parse(value, path)));
+}
+
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return schema((value, path) => (value === null ? null : inner.parse(value, path)));
+}
+
+export function union<T>(...options: Schema<T>[]): Schema<T> {
+  return schema((value, path) => {
+    for (const option of options) {
+      try {
+        return option.parse(value, path);
+      } catch (error) {
+        // Try the next option
+      }
+    }
+    throw new SchemaError(path, 'one of the allowed shapes', value);
+  });
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return schema((value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, 'array', value);
+    return value.map((entry, i) => item.parse(entry, `${path}[${i}]`));
+  });
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return schema((value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      item.parse(entry, path ? `${path}.${key}` : key);
+    }
+    return value as Record<string, T>;
+  });
+}
+
+// Keys whose schema accepts undefined become optional properties
+type OptionalKeys<S> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type ObjectType<S extends Record<string, Schema<unknown>>> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: Infer<S[K]>;
+};
+
+export function object<S extends Record<string, Schema<unknown>>>(shape: S): Schema<ObjectType<S>> {
+  return schema((value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, 'object', value);
+    }
+    for (const [key, field] of Object.entries(shape)) {
+      field.parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+    }
+    return value as ObjectType<S>;
+  });
+}
@@ -1,10 +1,29 @@
 
-  import { defineConfig } from 'vite';
+  import { defineConfig, searchForWorkspaceRoot, type Plugin } from 'vite';
   import react from '@vitejs/plugin-react-swc';
   import path from 'path';
 
+  // The in-browser mock backend (and its target bot) only belongs in VITE_API_TRANSPORT=mock builds.
+  // Rollup still emits a chunk for an import() in dead code, so other builds get an empty stand-in.
+  function mockBackendOnlyInMockBuilds(): Plugin {
+    const mockBackend = path.resolve(__dirname, 'src/lib/mockBackend.ts');
+    let isMockBuild = false;
+    return {
+      name: 'mock-backend-only-in-mock-builds',
+      apply: 'build',
+      configResolved(config) {
+        isMockBuild = config.env.VITE_API_TRANSPORT === 'mock';
+      },
+      load(id) {
+        if (!isMockBuild && id === mockBackend) {
+          return "export const mockTransport = () => Promise.reject(new Error('This build does not include the mock backend'));";
+        }
+      },
+    };
+  }
+
   export default defineConfig({
-    plugins: [react()],
+    plugins: [react(), mockBackendOnlyInMockBuilds()],
     resolve: {
       extensions: ['.js', '.jsx', '.ts', '.tsx', '.json'],
       alias: {
@@ -57,5 +76,9 @@
       port: 3000,
       host: true, // Allow access from network
       open: true,
+      fs: {
+        // ../shared holds code used by both the frontend and the backend (e.g. the password policy)
+        allow: [searchForWorkspaceRoot(process.cwd()), path.resolve(__dirname, '../shared')],
+      },
     },
   });
\ No newline at end of file
@@ -0,0 +1,31 @@
+// Types for passwordPolicy.js
+
+export const PASSWORD_MIN_LENGTH: number;
+export const PASSWORD_MAX_LENGTH: number;
+export const PASSPHRASE_LENGTH: number;
+export const MIN_CHARACTER_CLASSES: number;
+
+export interface PasswordContext {
+  email?: string | null;
+  username?: string | null;
+}
+
+export type PasswordCheckId = 'length' | 'variety' | 'common' | 'personal';
+
+export interface PasswordCheck {
+  id: PasswordCheckId;
+  label: string;
+  met: boolean;
+}
+
+export interface PasswordEvaluation {
+  valid: boolean;
+  error: string | null;
+  score: 0 | 1 | 2 | 3 | 4;
+  label: string;
+  checks: PasswordCheck[];
+}
+
+export function evaluatePassword(password: string, context?: PasswordContext): PasswordEvaluation;
+
+export function validatePassword(password: string, context?: PasswordContext): string | null;
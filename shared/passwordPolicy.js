@@ -0,0 +1,141 @@
+// Password policy
+// Shared by the backend (signup and password reset) and the frontend (AuthModal,
+// device-only accounts and the mock backend) so every path accepts the same passwords.
+// Plain JavaScript with no dependencies and no network lookups; types are in passwordPolicy.d.ts.
+
+export const PASSWORD_MIN_LENGTH = 8;
+// bcrypt ignores everything after 72 bytes
+export const PASSWORD_MAX_LENGTH = 72;
+// Passwords at least this long are passphrases and do not need a mix of character types
+export const PASSPHRASE_LENGTH = 16;
+export const MIN_CHARACTER_CLASSES = 3;
+
+// Frequently breached and easily guessed passwords, plus words specific to this platform.
+// Matched after lowercasing and dropping leading/trailing digits and symbols, so
+// "Password123!" and "P@ssw0rd" count as "password".
+const COMMON_PASSWORDS = new Set([
+  '12345678', '123456789', '1234567890', '0123456789', '87654321', '11111111', '00000000',
+  '12121212', '123123123', '1q2w3e4r', '1qaz2wsx', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm',
+  'password', 'passwort', 'passphrase', 'qwerty', 'qwertyui', 'azerty', 'abc', 'abcdef', 'abcdefgh',
+  'letmein', 'welcome', 'iloveyou', 'admin', 'administrator', 'root', 'login', 'changeme',
+  'default', 'secret', 'master', 'monkey', 'dragon', 'shadow', 'sunshine', 'princess',
+  'football', 'baseball', 'basketball', 'soccer', 'hockey', 'superman', 'batman', 'starwars',
+  'trustno', 'whatever', 'freedom', 'hello', 'helloworld', 'computer', 'internet', 'michael',
+  'jennifer', 'charlie', 'jordan', 'summer', 'winter', 'spring', 'autumn', 'january',
+  'october', 'december', 'america', 'liberty', 'security', 'test', 'testing', 'guest',
+  'user', 'usda', 'usdausda', 'agriculture', 'farmer', 'government', 'federal', 'redteam',
+  'hacker', 'hackme', 'training', 'ctf', 'flag',
+]);
+
+const LEET_SUBSTITUTIONS = { '@': 'a', '4': 'a', '8': 'b', '3': 'e', '1': 'i', '!': 'i', '0': 'o', '$': 's', '5': 's', '7': 't' };
+
+const STRENGTH_LABELS = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+
+/**
+ * Number of character types (lowercase, uppercase, digits, symbols) the password uses
+ */
+function countCharacterClasses(password) {
+  return [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter((pattern) => pattern.test(password)).length;
+}
+
+/**
+ * Whether the password is on the denylist (allowing for common tweaks) or is one short pattern repeated
+ */
+function isCommonPassword(password) {
+  const lower = password.toLowerCase();
+  if (/^(.{1,3})\1+$/.test(lower)) return true;
+  const core = lower.replace(/^[^a-z]+|[^a-z]+$/g, '');
+  const unleeted = lower
+    .replace(/[^a-z]+$/, '')
+    .replace(/[@48310!$57]/g, (char) => LEET_SUBSTITUTIONS[char])
+    .replace(/^[^a-z]+/, '');
+  return [lower, core, unleeted].some((candidate) => candidate && COMMON_PASSWORDS.has(candidate));
+}
+
+/**
+ * Lowercased pieces of the user's identity that should not appear in their password
+ */
+function personalTerms({ email, username } = {}) {
+  const terms = [];
+  const localPart = typeof email === 'string' ? email.toLowerCase().split('@')[0] : '';
+  if (localPart) {
+    terms.push(localPart, ...localPart.split(/[._+-]+/).filter((part) => part.length >= 4));
+  }
+  if (typeof username === 'string' && username) {
+    terms.push(username.toLowerCase());
+  }
+  return terms.filter((term) => term.length >= 3);
+}
+
+function containsPersonalInfo(password, context) {
+  const lower = password.toLowerCase();
+  return personalTerms(context).some((term) => lower.includes(term) || term.includes(lower));
+}
+
+/**
+ * Check a password against the policy.
+ * `context` holds the account's email and username so the password can be compared with them.
+ * Returns each requirement (for a checklist), the first failure as `error`, and a 0-4 strength score.
+ */
+export function evaluatePassword(password, context = {}) {
+  const value = typeof password === 'string' ? password : '';
+  const classes = countCharacterClasses(value);
+  const isPassphrase = value.length >= PASSPHRASE_LENGTH;
+
+  const checks = [
+    {
+      id: 'length',
+      label: `At least ${PASSWORD_MIN_LENGTH} characters`,
+      met: value.length >= PASSWORD_MIN_LENGTH,
+      error: `Password must be at least ${PASSWORD_MIN_LENGTH} characters long`,
+    },
+    {
+      id: 'variety',
+      label: `${MIN_CHARACTER_CLASSES} of: lowercase, uppercase, number, symbol (or ${PASSPHRASE_LENGTH}+ characters)`,
+      met: isPassphrase || classes >= MIN_CHARACTER_CLASSES,
+      error: `Password must mix at least ${MIN_CHARACTER_CLASSES} of lowercase letters, uppercase letters, numbers and symbols, or be ${PASSPHRASE_LENGTH}+ characters long`,
+    },
+    {
+      id: 'common',
+      label: 'Not a common password',
+      met: value.length > 0 && !isCommonPassword(value),
+      error: 'This password is too common. Choose something harder to guess',
+    },
+    {
+      id: 'personal',
+      label: 'Does not contain your email or username',
+      met: value.length > 0 && !containsPersonalInfo(value, context),
+      error: 'Password must not contain your email address or username',
+    },
+  ];
+
+  const tooLong = value.length > PASSWORD_MAX_LENGTH;
+  const failed = checks.find((check) => !check.met);
+  const error = tooLong
+    ? `Password must be at most ${PASSWORD_MAX_LENGTH} characters long`
+    : failed?.error ?? null;
+
+  // Length does most of the work; variety adds a little on top
+  let score = value.length >= 20 ? 3 : value.length >= 12 ? 2 : value.length >= PASSWORD_MIN_LENGTH ? 1 : 0;
+  if (classes >= MIN_CHARACTER_CLASSES) score += 1;
+  if (classes === 4 && value.length >= 12) score += 1;
+  score = Math.min(score, 4);
+  if (error) {
+    score = Math.min(score, checks[2].met && checks[3].met ? 1 : 0);
+  }
+
+  return {
+    valid: error === null,
+    error,
+    score,
+    label: STRENGTH_LABELS[score],
+    checks: checks.map(({ id, label, met }) => ({ id, label, met })),
+  };
+}
+
+/**
+ * The first policy failure for a password, or null if it is acceptable
+ */
+export function validatePassword(password, context = {}) {
+  return evaluatePassword(password, context).error;
+}